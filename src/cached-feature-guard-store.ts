@@ -0,0 +1,416 @@
+import { Logger, OnApplicationShutdown, OnModuleInit } from '@nestjs/common';
+import {
+  FeatureFlagEvaluation,
+  FeatureFlagEvaluationContext,
+  FeatureFlagInfo,
+  FeatureFlagSegment,
+  FeatureFlagVariant,
+  FeatureGuardStore,
+  SetFeatureFlagOptions,
+} from './feature-flag-cache.interface';
+import { FeatureFlagClock, systemClock } from './feature-flag.schedule';
+
+/**
+ * Options for the caching store wrapper.
+ *
+ * @interface CachedFeatureGuardStoreOptions
+ * @property {number} [ttl=30000] - How long a cached result is served without reloading, in
+ *   milliseconds
+ * @property {number} [staleWhileRevalidate=0] - How long an expired result is still served while
+ *   it is reloaded in the background, in milliseconds
+ * @property {number} [maxEntries=10000] - The maximum number of cached results; the least recently
+ *   used are evicted first
+ * @property {FeatureFlagClock} [clock] - Time source for expiry (default: system clock)
+ */
+export interface CachedFeatureGuardStoreOptions {
+  ttl?: number;
+  staleWhileRevalidate?: number;
+  maxEntries?: number;
+  clock?: FeatureFlagClock;
+}
+
+/**
+ * Cached store result.
+ *
+ * @interface CacheEntry
+ * @property {string} flag - The feature flag the result belongs to, for invalidation
+ * @property {unknown} value - The cached result
+ * @property {number} freshUntil - Served without reloading until this time
+ * @property {number} staleUntil - Served while reloading in the background until this time
+ * @property {boolean} [refreshing] - Whether a background reload is in progress
+ */
+interface CacheEntry {
+  flag: string;
+  value: unknown;
+  freshUntil: number;
+  staleUntil: number;
+  refreshing?: boolean;
+}
+
+/**
+ * FeatureGuardStore decorator caching flag configurations and per-user decisions in memory.
+ *
+ * `getFeature`, `hasFeatureFlag`, `getFeatureVariant` and `evaluateFlags` results are cached for
+ * `ttl` milliseconds, per flag and per user, tenant and attributes for decisions. With
+ * `staleWhileRevalidate`, expired results keep being served for that long while a single
+ * background reload runs, so flag checks never wait on the wrapped store once warm. Concurrent
+ * misses for the same result share one load, and failed loads are not cached.
+ *
+ * Writes through the wrapper invalidate the affected flag (every flag for segment changes). Writes
+ * made by other processes are only picked up when the cached results expire, or after an explicit
+ * `invalidate`.
+ *
+ * Nest only calls the lifecycle hooks of the registered store, so the wrapper passes them on: a
+ * wrapped FileFeatureGuardStore still loads and watches its file, and a wrapped
+ * SqlFeatureGuardStore still applies its migrations.
+ *
+ * @class CachedFeatureGuardStore
+ * @implements {FeatureGuardStore}
+ * @implements {OnModuleInit}
+ * @implements {OnApplicationShutdown}
+ *
+ * @example
+ * ```typescript
+ * FeatureGuardModule.forRoot({
+ *   store: new CachedFeatureGuardStore(new RedisFeatureFlagCache(redis), {
+ *     ttl: 30000,
+ *     staleWhileRevalidate: 300000,
+ *     maxEntries: 50000,
+ *   }),
+ * });
+ * ```
+ */
+export class CachedFeatureGuardStore
+  implements FeatureGuardStore, OnModuleInit, OnApplicationShutdown
+{
+  private readonly logger = new Logger(CachedFeatureGuardStore.name);
+  private readonly ttl: number;
+  private readonly staleWhileRevalidate: number;
+  private readonly maxEntries: number;
+  private readonly clock: FeatureFlagClock;
+  // Map iteration follows insertion order: re-inserting on access keeps the LRU entry first
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly pending = new Map<string, { flag: string; promise: Promise<unknown> }>();
+  // Incremented by every invalidation, so loads started before it are not cached
+  private generation = 0;
+
+  /**
+   * Creates a new caching wrapper.
+   *
+   * @param {FeatureGuardStore} store - The store to cache
+   * @param {CachedFeatureGuardStoreOptions} [options] - TTL, stale window, size limit and clock
+   */
+  constructor(
+    private readonly store: FeatureGuardStore,
+    options: CachedFeatureGuardStoreOptions = {},
+  ) {
+    this.ttl = options.ttl ?? 30000;
+    this.staleWhileRevalidate = options.staleWhileRevalidate ?? 0;
+    this.maxEntries = options.maxEntries ?? 10000;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  /**
+   * Initializes the wrapped store, if it has an `onModuleInit` hook.
+   *
+   * @returns {Promise<void>} Promise that resolves when the wrapped store is initialized
+   */
+  async onModuleInit(): Promise<void> {
+    await (this.store as Partial<OnModuleInit>).onModuleInit?.();
+  }
+
+  /**
+   * Shuts the wrapped store down, if it has an `onApplicationShutdown` hook.
+   *
+   * @param {string} [signal] - The signal that triggered the shutdown
+   * @returns {Promise<void>} Promise that resolves when the wrapped store is shut down
+   */
+  async onApplicationShutdown(signal?: string): Promise<void> {
+    await (this.store as Partial<OnApplicationShutdown>).onApplicationShutdown?.(signal);
+  }
+
+  async setFeatureFlag(options: SetFeatureFlagOptions): Promise<void> {
+    await this.store.setFeatureFlag(options);
+    this.invalidate(options.flag);
+  }
+
+  getFeature(flag: string): Promise<FeatureFlagInfo | null> {
+    return this.cached(flag, cacheKey('feature', flag), () => this.store.getFeature(flag));
+  }
+
+  hasFeatureFlag(
+    flag: string,
+    userId: string,
+    attributes?: Record<string, unknown>,
+    tenantId?: string,
+  ): Promise<boolean> {
+    return this.cached(flag, cacheKey('access', flag, userId, tenantId, attributes), () =>
+      this.store.hasFeatureFlag(flag, userId, attributes, tenantId),
+    );
+  }
+
+  /**
+   * Resolves the variant of a multivariate feature flag for a user, or null if the wrapped store
+   * doesn't support variants.
+   */
+  getFeatureVariant(
+    flag: string,
+    userId: string,
+    attributes?: Record<string, unknown>,
+    tenantId?: string,
+  ): Promise<FeatureFlagVariant | null> {
+    return this.cached(flag, cacheKey('variant', flag, userId, tenantId, attributes), async () =>
+      typeof this.store.getFeatureVariant === 'function'
+        ? this.store.getFeatureVariant(flag, userId, attributes, tenantId)
+        : null,
+    );
+  }
+
+  /**
+   * Evaluates several feature flags for a user.
+   *
+   * Each flag evaluation is cached separately. Misses (and stale results being refreshed) are
+   * loaded with a single call to the wrapped store's `evaluateFlags`, or through the cached
+   * per-flag methods when the wrapped store doesn't support batch evaluation.
+   */
+  async evaluateFlags(
+    flags: string[],
+    context: FeatureFlagEvaluationContext,
+  ): Promise<Record<string, FeatureFlagEvaluation>> {
+    const { userId, attributes, tenantId } = context;
+
+    // Loads are requested synchronously while the flags are mapped below, so the batch started on
+    // the next microtask covers every flag missing from the cache
+    const missingFlags: string[] = [];
+    let batch: Promise<Record<string, FeatureFlagEvaluation>> | undefined;
+    const loadMissing = async (flag: string): Promise<FeatureFlagEvaluation> => {
+      missingFlags.push(flag);
+      batch ??= Promise.resolve().then(() => this.store.evaluateFlags!(missingFlags, context));
+      return (await batch)[flag] ?? { enabled: false, variant: null };
+    };
+
+    const evaluations = await Promise.all(
+      [...new Set(flags)].map(async (flag) => {
+        if (typeof this.store.evaluateFlags !== 'function') {
+          const feature = await this.getFeature(flag);
+          const enabled =
+            feature?.enabled === true &&
+            (await this.hasFeatureFlag(flag, userId, attributes, tenantId));
+          const variant =
+            enabled && feature.variants?.length
+              ? await this.getFeatureVariant(flag, userId, attributes, tenantId)
+              : null;
+
+          return [flag, { enabled, variant }] as const;
+        }
+
+        const evaluation = await this.cached(
+          flag,
+          cacheKey('evaluation', flag, userId, tenantId, attributes),
+          () => loadMissing(flag),
+        );
+
+        return [flag, evaluation] as const;
+      }),
+    );
+
+    return Object.fromEntries(evaluations);
+  }
+
+  async setSegment(segment: FeatureFlagSegment): Promise<void> {
+    if (typeof this.store.setSegment !== 'function') throw unsupported('setSegment');
+
+    await this.store.setSegment(segment);
+    // Segments can be referenced by any flag
+    this.invalidate();
+  }
+
+  async getSegment(name: string): Promise<FeatureFlagSegment | null> {
+    if (typeof this.store.getSegment !== 'function') throw unsupported('getSegment');
+
+    return this.store.getSegment(name);
+  }
+
+  async deleteSegment(name: string): Promise<void> {
+    if (typeof this.store.deleteSegment !== 'function') throw unsupported('deleteSegment');
+
+    await this.store.deleteSegment(name);
+    this.invalidate();
+  }
+
+  async addUsersToFeature(flag: string, userIds: string[]): Promise<void> {
+    if (typeof this.store.addUsersToFeature !== 'function') {
+      throw unsupported('addUsersToFeature');
+    }
+
+    await this.store.addUsersToFeature(flag, userIds);
+    this.invalidate(flag);
+  }
+
+  async removeUsersFromFeature(flag: string, userIds: string[]): Promise<void> {
+    if (typeof this.store.removeUsersFromFeature !== 'function') {
+      throw unsupported('removeUsersFromFeature');
+    }
+
+    await this.store.removeUsersFromFeature(flag, userIds);
+    this.invalidate(flag);
+  }
+
+  async setFeatureEnabled(flag: string, enabled: boolean): Promise<void> {
+    if (typeof this.store.setFeatureEnabled !== 'function') {
+      throw unsupported('setFeatureEnabled');
+    }
+
+    await this.store.setFeatureEnabled(flag, enabled);
+    this.invalidate(flag);
+  }
+
+  /**
+   * Drops the cached results of a feature flag, or of every flag.
+   *
+   * Loads in progress when the cache is invalidated still resolve, but their results are not
+   * cached.
+   *
+   * @param {string} [flag] - The feature flag identifier; omit to clear the whole cache
+   *
+   * @example
+   * ```typescript
+   * // After changing the flag from another process
+   * cachedStore.invalidate('beta_dashboard');
+   * ```
+   */
+  invalidate(flag?: string): void {
+    this.generation++;
+
+    for (const [key, entry] of this.entries) {
+      if (flag === undefined || entry.flag === flag) this.entries.delete(key);
+    }
+    for (const [key, load] of this.pending) {
+      if (flag === undefined || load.flag === flag) this.pending.delete(key);
+    }
+  }
+
+  /**
+   * Returns a cached result, loading it on a miss.
+   *
+   * Expired results within the stale window are returned as is while a background reload runs.
+   *
+   * @param {string} flag - The feature flag the result belongs to
+   * @param {string | undefined} key - The cache key, or undefined to bypass the cache
+   * @param {() => Promise<T>} load - Loads the result from the wrapped store
+   * @returns {Promise<T>} The cached or loaded result
+   */
+  private async cached<T>(
+    flag: string,
+    key: string | undefined,
+    load: () => Promise<T>,
+  ): Promise<T> {
+    if (key === undefined) return load();
+
+    const now = this.clock.now();
+    const entry = this.entries.get(key);
+
+    if (entry && now < entry.staleUntil) {
+      // Mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+
+      if (now >= entry.freshUntil && !entry.refreshing) {
+        entry.refreshing = true;
+        this.load(flag, key, load).catch((error) => {
+          entry.refreshing = false;
+          this.logger.warn(`Failed to refresh feature flag "${flag}": ${error}`);
+        });
+      }
+
+      return entry.value as T;
+    }
+
+    return this.load(flag, key, load);
+  }
+
+  /**
+   * Loads a result from the wrapped store and caches it, sharing the load between concurrent
+   * callers.
+   *
+   * @param {string} flag - The feature flag the result belongs to
+   * @param {string} key - The cache key
+   * @param {() => Promise<T>} load - Loads the result from the wrapped store
+   * @returns {Promise<T>} The loaded result
+   */
+  private load<T>(flag: string, key: string, load: () => Promise<T>): Promise<T> {
+    const pending = this.pending.get(key);
+    if (pending) return pending.promise as Promise<T>;
+
+    const generation = this.generation;
+    const promise = load()
+      .then((value) => {
+        if (generation === this.generation) this.set(flag, key, value);
+        return value;
+      })
+      .finally(() => {
+        if (this.pending.get(key)?.promise === promise) this.pending.delete(key);
+      });
+
+    this.pending.set(key, { flag, promise });
+    return promise;
+  }
+
+  /**
+   * Caches a result, evicting the least recently used results beyond `maxEntries`.
+   *
+   * @param {string} flag - The feature flag the result belongs to
+   * @param {string} key - The cache key
+   * @param {unknown} value - The result
+   */
+  private set(flag: string, key: string, value: unknown): void {
+    const now = this.clock.now();
+
+    this.entries.delete(key);
+    this.entries.set(key, {
+      flag,
+      value,
+      freshUntil: now + this.ttl,
+      staleUntil: now + this.ttl + this.staleWhileRevalidate,
+    });
+
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+}
+
+/**
+ * Builds the cache key of a store result.
+ *
+ * @param {string} kind - The cached method
+ * @param {string} flag - The feature flag identifier
+ * @param {string} [userId] - The user identifier, for per-user results
+ * @param {string} [tenantId] - The tenant the user belongs to
+ * @param {Record<string, unknown>} [attributes] - The user attributes
+ * @returns {string | undefined} The key, or undefined if the attributes can't be serialized
+ */
+function cacheKey(
+  kind: string,
+  flag: string,
+  userId?: string,
+  tenantId?: string,
+  attributes?: Record<string, unknown>,
+): string | undefined {
+  try {
+    return JSON.stringify([kind, flag, userId ?? null, tenantId ?? null, attributes ?? null]);
+  } catch {
+    // e.g. BigInt or circular attributes: such results are not cached
+    return undefined;
+  }
+}
+
+/**
+ * Creates the error thrown when the wrapped store lacks an optional method.
+ *
+ * @param {string} method - The missing method
+ * @returns {Error} The error
+ */
+function unsupported(method: string): Error {
+  return new Error(`The wrapped store does not support ${method}`);
+}
@@ -0,0 +1,57 @@
+import { ExecutionContext } from '@nestjs/common';
+
+/**
+ * Identity of the caller, as used by the FeatureGuard to evaluate feature flags.
+ *
+ * @interface FeatureContext
+ * @property {string} [userId] - The user identifier; requests without one are denied unless admin
+ * @property {string} [tenantId] - The tenant (customer account, organization) the user belongs to
+ * @property {boolean} [isAdmin] - Admin users bypass every feature flag (must be strictly `true`)
+ * @property {Record<string, unknown>} [attributes] - Arbitrary user attributes (plan, country, ...)
+ *
+ * @example
+ * ```typescript
+ * const context: FeatureContext = {
+ *   userId: 'user123',
+ *   tenantId: 'acme',
+ *   isAdmin: false,
+ *   attributes: { plan: 'pro', country: 'NG' },
+ * };
+ * ```
+ */
+export interface FeatureContext {
+  userId?: string;
+  tenantId?: string;
+  isAdmin?: boolean;
+  attributes?: Record<string, unknown>;
+}
+
+/**
+ * Interface for extracting the caller identity from an execution context.
+ *
+ * Provide an implementation under the `FEATURE_CONTEXT_RESOLVER` token (or through the
+ * `contextResolver` option of `FeatureGuardModule`) to read the identity from wherever your
+ * authentication layer puts it, instead of copying it onto `__user_id` / `__is_admin`.
+ *
+ * @interface FeatureContextResolver
+ *
+ * @example
+ * ```typescript
+ * @Injectable()
+ * export class JwtFeatureContextResolver implements FeatureContextResolver {
+ *   resolve(context: ExecutionContext): FeatureContext {
+ *     const { auth } = context.switchToHttp().getRequest();
+ *     return { userId: auth?.sub, isAdmin: auth?.roles?.includes('admin') === true };
+ *   }
+ * }
+ * ```
+ */
+export interface FeatureContextResolver {
+  /**
+   * Resolves the caller identity for the current execution context.
+   *
+   * @param {ExecutionContext} context - The NestJS execution context
+   * @returns {FeatureContext | Promise<FeatureContext>} The caller identity
+   */
+  resolve(context: ExecutionContext): FeatureContext | Promise<FeatureContext>;
+}
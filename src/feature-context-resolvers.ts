@@ -0,0 +1,135 @@
+import { ExecutionContext, Injectable } from '@nestjs/common';
+import { FeatureContext, FeatureContextResolver } from './feature-context-resolver.interface';
+import { getFeatureContextValue } from './feature-execution-context';
+
+/**
+ * Default context resolver reading the identity from the request fields populated by your
+ * middleware: `__user_id`, `__is_admin` and, optionally, `__tenant_id` and `__user_attributes`.
+ *
+ * This preserves the behavior of the FeatureGuard before resolvers were pluggable. In WebSocket
+ * gateways the fields are read from `client.data` or the handshake request, in microservice
+ * handlers from the message metadata (see `getFeatureIdentitySources`). Only `__user_id` is also
+ * read from the message payload: any producer can write the payload, so admin status, tenant and
+ * attributes never come from it.
+ *
+ * @class DefaultFeatureContextResolver
+ * @implements {FeatureContextResolver}
+ *
+ * @example
+ * ```typescript
+ * // In your middleware
+ * req.__user_id = user.id;
+ * req.__is_admin = user.isAdmin;
+ * req.__tenant_id = user.accountId;
+ * req.__user_attributes = { plan: user.plan };
+ * ```
+ */
+@Injectable()
+export class DefaultFeatureContextResolver implements FeatureContextResolver {
+  resolve(context: ExecutionContext): FeatureContext {
+    return {
+      userId: getFeatureContextValue<string>(context, '__user_id'),
+      tenantId: getFeatureContextValue<string>(context, '__tenant_id', { payload: false }),
+      isAdmin: getFeatureContextValue<boolean>(context, '__is_admin', { payload: false }),
+      attributes: getFeatureContextValue<Record<string, unknown>>(context, '__user_attributes', {
+        payload: false,
+      }),
+    };
+  }
+}
+
+/**
+ * Options for the `req.user`-based context resolver.
+ *
+ * @interface UserFeatureContextResolverOptions
+ * @property {string} [property='user'] - The request property holding the authenticated user
+ * @property {string} [userIdField='id'] - The user field holding the identifier
+ * @property {string} [tenantIdField='tenantId'] - The user field holding the tenant identifier
+ * @property {Function} [isAdmin] - Decides whether the user is an admin (default: `user.isAdmin === true`)
+ * @property {Function} [attributes] - Maps the user to targeting attributes (default: the user object itself)
+ */
+export interface UserFeatureContextResolverOptions {
+  property?: string;
+  userIdField?: string;
+  tenantIdField?: string;
+  isAdmin?: (user: Record<string, any>) => boolean;
+  attributes?: (user: Record<string, any>) => Record<string, unknown>;
+}
+
+/**
+ * Context resolver reading the identity from the authenticated user that Passport (or any
+ * similar authentication layer) attaches to the request, `req.user` by default. WebSocket and
+ * microservice handlers are supported the same way as by the DefaultFeatureContextResolver: a user
+ * found only in a microservice message payload provides the user ID, never admin status, tenant
+ * or attributes.
+ *
+ * @class UserFeatureContextResolver
+ * @implements {FeatureContextResolver}
+ *
+ * @example
+ * ```typescript
+ * FeatureGuardModule.forRoot({
+ *   store,
+ *   contextResolver: new UserFeatureContextResolver({
+ *     userIdField: 'sub',
+ *     isAdmin: (user) => user.roles?.includes('admin'),
+ *   }),
+ * });
+ * ```
+ */
+export class UserFeatureContextResolver implements FeatureContextResolver {
+  private readonly property: string;
+  private readonly userIdField: string;
+  private readonly tenantIdField: string;
+  private readonly isAdmin: (user: Record<string, any>) => boolean;
+  private readonly attributes: (user: Record<string, any>) => Record<string, unknown>;
+
+  /**
+   * Creates a new `req.user`-based context resolver.
+   *
+   * @param {UserFeatureContextResolverOptions} [options] - Where to find the user and its fields
+   */
+  constructor(options: UserFeatureContextResolverOptions = {}) {
+    this.property = options.property ?? 'user';
+    this.userIdField = options.userIdField ?? 'id';
+    this.tenantIdField = options.tenantIdField ?? 'tenantId';
+    this.isAdmin = options.isAdmin ?? ((user) => user.isAdmin === true);
+    this.attributes = options.attributes ?? ((user) => user);
+  }
+
+  resolve(context: ExecutionContext): FeatureContext {
+    const trustedUser = getFeatureContextValue<Record<string, any>>(context, this.property, {
+      payload: false,
+    });
+    const user = trustedUser ?? getFeatureContextValue<Record<string, any>>(context, this.property);
+
+    if (!user || typeof user !== 'object') {
+      return {};
+    }
+
+    // Numeric IDs are common in relational schemas; stores compare strings
+    const userId = toIdentifier(user[this.userIdField]);
+
+    // Any producer can write the message payload: it identifies the caller, nothing more
+    if (user !== trustedUser) {
+      return { userId };
+    }
+
+    return {
+      userId,
+      tenantId: toIdentifier(user[this.tenantIdField]),
+      isAdmin: this.isAdmin(user) === true,
+      attributes: this.attributes(user),
+    };
+  }
+}
+
+/**
+ * Converts a user or tenant ID to the string form stores compare.
+ *
+ * @param {unknown} value - The identifier
+ * @returns {string | undefined} The identifier as a string, or `undefined` if absent
+ */
+function toIdentifier(value: unknown): string | undefined {
+  return value === undefined || value === null ? undefined : String(value);
+}
@@ -0,0 +1,180 @@
+import { ExecutionContext } from '@nestjs/common';
+
+/**
+ * Returns the GraphQL context object (the third resolver argument) of a GraphQL execution context.
+ *
+ * Equivalent to `GqlExecutionContext.create(context).getContext()`, without requiring
+ * `@nestjs/graphql` as a dependency.
+ *
+ * @param {ExecutionContext} context - A `graphql` execution context
+ * @returns {Record<string, any>} The GraphQL context object
+ */
+function getGraphQLContext(context: ExecutionContext): Record<string, any> {
+  return context.getArgByIndex(2) ?? {};
+}
+
+/**
+ * Normalizes the transport metadata of a microservice message into a plain object.
+ *
+ * Supports gRPC `Metadata`, NATS headers, RabbitMQ message headers and Kafka message headers
+ * (Kafka header buffers are decoded as UTF-8 strings).
+ *
+ * @param {any} rpcContext - The transport context returned by `switchToRpc().getContext()`
+ * @returns {Record<string, unknown> | undefined} The message metadata, if the transport carries any
+ */
+function getRpcMetadata(rpcContext: any): Record<string, unknown> | undefined {
+  if (!rpcContext || typeof rpcContext !== 'object') {
+    return undefined;
+  }
+
+  // gRPC passes its Metadata object as the context
+  if (typeof rpcContext.getMap === 'function') {
+    return rpcContext.getMap();
+  }
+
+  // NATS exposes headers through getHeaders()
+  if (typeof rpcContext.getHeaders === 'function') {
+    const headers = rpcContext.getHeaders();
+    if (typeof headers?.keys !== 'function' || typeof headers?.get !== 'function') {
+      return undefined;
+    }
+    return Object.fromEntries(
+      [...headers.keys()].map((key: string) => [key, headers.get(key)]),
+    );
+  }
+
+  // RabbitMQ keeps headers in the message properties, Kafka on the message itself
+  if (typeof rpcContext.getMessage === 'function') {
+    const message = rpcContext.getMessage();
+    const headers = message?.properties?.headers ?? message?.headers;
+    if (!headers || typeof headers !== 'object') {
+      return undefined;
+    }
+    return Object.fromEntries(
+      Object.entries(headers).map(([key, value]) => [
+        key,
+        Buffer.isBuffer(value) ? value.toString() : value,
+      ]),
+    );
+  }
+
+  return undefined;
+}
+
+/**
+ * Options for reading the caller identity.
+ *
+ * @interface FeatureIdentitySourceOptions
+ * @property {boolean} [payload=true] - Whether the microservice message payload is consulted. The
+ *   payload is written by the message producer, so only read fields a producer may set from it
+ *   (such as the user ID), never privileges like admin status
+ */
+export interface FeatureIdentitySourceOptions {
+  payload?: boolean;
+}
+
+/**
+ * Returns the objects the caller identity can be read from, in lookup order.
+ *
+ * - `http`: the HTTP request
+ * - `graphql`: the request exposed on the GraphQL context (`req` for Apollo/Express,
+ *   `request` or `reply.request` for Mercurius/Fastify), or the GraphQL context itself
+ * - `ws`: the socket data (`client.data`), the handshake request (`client.request`), then the
+ *   client itself
+ * - `rpc`: the message payload (unless `options.payload` is false), then the message metadata
+ *   (headers)
+ *
+ * The handshake auth payload (`client.handshake.auth`) is deliberately not consulted: it is sent
+ * by the client and must be verified (e.g. by a gateway middleware filling `client.data`) first.
+ *
+ * @param {ExecutionContext} context - The NestJS execution context
+ * @param {FeatureIdentitySourceOptions} [options] - Which sources to consult
+ * @returns {Record<string, any>[]} The identity sources
+ */
+export function getFeatureIdentitySources(
+  context: ExecutionContext,
+  { payload = true }: FeatureIdentitySourceOptions = {},
+): Record<string, any>[] {
+  let sources: unknown[];
+
+  switch (context.getType<string>()) {
+    case 'graphql': {
+      const gqlContext = getGraphQLContext(context);
+      sources = [gqlContext.req ?? gqlContext.request ?? gqlContext.reply?.request ?? gqlContext];
+      break;
+    }
+    case 'ws': {
+      const client = context.switchToWs().getClient();
+      sources = [client?.data, client?.request, client];
+      break;
+    }
+    case 'rpc': {
+      const rpc = context.switchToRpc();
+      sources = [payload ? rpc.getData() : undefined, getRpcMetadata(rpc.getContext())];
+      break;
+    }
+    default:
+      sources = [context.switchToHttp().getRequest()];
+  }
+
+  return sources.filter(
+    (source): source is Record<string, any> => !!source && typeof source === 'object',
+  );
+}
+
+/**
+ * Reads a caller identity value from the first identity source that defines it.
+ *
+ * Use it in custom context resolvers to support every transport at once.
+ *
+ * @param {ExecutionContext} context - The NestJS execution context
+ * @param {string} key - The field to read (e.g. `'user'` or `'__user_id'`)
+ * @param {FeatureIdentitySourceOptions} [options] - Which sources to consult
+ * @returns {T | undefined} The value, or `undefined` if no source defines it
+ *
+ * @example
+ * ```typescript
+ * const user = getFeatureContextValue<JwtPayload>(context, 'user');
+ *
+ * // Privileges must not come from a microservice message payload
+ * const isAdmin = getFeatureContextValue<boolean>(context, 'isAdmin', { payload: false });
+ * ```
+ */
+export function getFeatureContextValue<T = unknown>(
+  context: ExecutionContext,
+  key: string,
+  options?: FeatureIdentitySourceOptions,
+): T | undefined {
+  const sources = getFeatureIdentitySources(context, options);
+  return sources.find((source) => source[key] !== undefined)?.[key];
+}
+
+/**
+ * Returns the object the FeatureGuard writes evaluated flag states (`__feature_flags`) onto.
+ *
+ * - `http`: the HTTP request
+ * - `graphql`: the GraphQL context object, shared by every resolver of the operation and
+ *   available through `@Context()`
+ * - `ws` / `rpc`: the message payload when it is an object (available through `@MessageBody()` /
+ *   `@Payload()`); flags are not recorded for primitive payloads. The guard replaces any
+ *   `__feature_flags` / `__feature_variants` the sender put in the payload
+ *
+ * @param {ExecutionContext} context - The NestJS execution context
+ * @returns {T} The object holding `__feature_flags`
+ */
+export function getFeatureFlagsHolder<T = any>(context: ExecutionContext): T {
+  switch (context.getType<string>()) {
+    case 'graphql':
+      return getGraphQLContext(context) as T;
+    case 'ws':
+    case 'rpc': {
+      const data =
+        context.getType<string>() === 'ws'
+          ? context.switchToWs().getData()
+          : context.switchToRpc().getData();
+      return (data && typeof data === 'object' ? data : {}) as T;
+    }
+    default:
+      return context.switchToHttp().getRequest<T>();
+  }
+}
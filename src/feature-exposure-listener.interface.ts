@@ -0,0 +1,63 @@
+/**
+ * Record of a feature flag evaluated for a user, as reported to exposure listeners.
+ *
+ * @interface FeatureExposure
+ * @property {string} flag - The evaluated feature flag
+ * @property {string} userId - The user the flag was evaluated for
+ * @property {boolean} enabled - Whether the flag was enabled for the user
+ * @property {string} [variant] - The variant assigned to the user, for multivariate flags
+ * @property {string} route - The guarded handler, as `ControllerName.handlerName`
+ * @property {Date} timestamp - When the flag was evaluated
+ *
+ * @example
+ * ```typescript
+ * const exposure: FeatureExposure = {
+ *   flag: 'pricing',
+ *   userId: 'user123',
+ *   enabled: true,
+ *   variant: 'B',
+ *   route: 'CheckoutController.getPricing',
+ *   timestamp: new Date(),
+ * };
+ * ```
+ */
+export interface FeatureExposure {
+  flag: string;
+  userId: string;
+  enabled: boolean;
+  variant?: string;
+  route: string;
+  timestamp: Date;
+}
+
+/**
+ * Interface for recording feature flag exposures, e.g. in an analytics pipeline.
+ *
+ * Provide an implementation under the `FEATURE_EXPOSURE_LISTENER` token (or through the
+ * `exposureListener` option of `FeatureGuardModule`). The FeatureGuard calls it once per flag
+ * and request after each evaluation, without waiting for it; errors are logged and never fail
+ * the request. Wrap it in a `BufferedFeatureExposureListener` to receive exposures in batches.
+ *
+ * @interface FeatureExposureListener
+ *
+ * @example
+ * ```typescript
+ * @Injectable()
+ * export class AnalyticsExposureListener implements FeatureExposureListener {
+ *   constructor(private readonly analytics: AnalyticsClient) {}
+ *
+ *   onExposure(exposure: FeatureExposure): void {
+ *     this.analytics.track('feature_exposure', exposure);
+ *   }
+ * }
+ * ```
+ */
+export interface FeatureExposureListener {
+  /**
+   * Records a feature flag exposure.
+   *
+   * @param {FeatureExposure} exposure - The evaluated flag
+   * @returns {void | Promise<void>}
+   */
+  onExposure(exposure: FeatureExposure): void | Promise<void>;
+}
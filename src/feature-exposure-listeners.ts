@@ -0,0 +1,101 @@
+import { Logger, OnApplicationShutdown } from '@nestjs/common';
+import { FeatureExposure, FeatureExposureListener } from './feature-exposure-listener.interface';
+
+/**
+ * Options for the buffering exposure listener.
+ *
+ * @interface BufferedFeatureExposureListenerOptions
+ * @property {number} [maxBatchSize=100] - Flushes as soon as this many exposures are buffered
+ * @property {number} [flushInterval=5000] - Flushes buffered exposures after this many milliseconds
+ */
+export interface BufferedFeatureExposureListenerOptions {
+  maxBatchSize?: number;
+  flushInterval?: number;
+}
+
+/**
+ * Exposure listener buffering exposures and handing them over in batches.
+ *
+ * A batch is flushed when it reaches `maxBatchSize`, when `flushInterval` has elapsed since the
+ * first buffered exposure, and on application shutdown. Failed batches are not retried: the
+ * handler is responsible for its own retries.
+ *
+ * @class BufferedFeatureExposureListener
+ * @implements {FeatureExposureListener}
+ *
+ * @example
+ * ```typescript
+ * FeatureGuardModule.forRoot({
+ *   store,
+ *   exposureListener: new BufferedFeatureExposureListener(
+ *     (exposures) => analytics.trackBatch('feature_exposure', exposures),
+ *     { maxBatchSize: 500, flushInterval: 10000 },
+ *   ),
+ * });
+ * ```
+ */
+export class BufferedFeatureExposureListener
+  implements FeatureExposureListener, OnApplicationShutdown
+{
+  private readonly logger = new Logger(BufferedFeatureExposureListener.name);
+  private readonly maxBatchSize: number;
+  private readonly flushInterval: number;
+  private buffer: FeatureExposure[] = [];
+  private timer?: NodeJS.Timeout;
+
+  /**
+   * Creates a new buffering exposure listener.
+   *
+   * @param {Function} handler - Receives each batch of exposures
+   * @param {BufferedFeatureExposureListenerOptions} [options] - Batch size and flush interval
+   */
+  constructor(
+    private readonly handler: (exposures: FeatureExposure[]) => void | Promise<void>,
+    options: BufferedFeatureExposureListenerOptions = {},
+  ) {
+    this.maxBatchSize = options.maxBatchSize ?? 100;
+    this.flushInterval = options.flushInterval ?? 5000;
+  }
+
+  onExposure(exposure: FeatureExposure): Promise<void> | void {
+    this.buffer.push(exposure);
+
+    if (this.buffer.length >= this.maxBatchSize) {
+      return this.flush();
+    }
+
+    if (!this.timer) {
+      this.timer = setTimeout(
+        () =>
+          this.flush().catch((error) =>
+            this.logger.error(`Failed to flush feature exposures: ${error}`),
+          ),
+        this.flushInterval,
+      );
+      // Don't keep the process alive just to flush exposures
+      this.timer.unref?.();
+    }
+  }
+
+  /**
+   * Hands the buffered exposures over to the handler immediately.
+   *
+   * @returns {Promise<void>} Resolves once the handler has processed the batch
+   */
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    if (this.buffer.length === 0) return;
+
+    const batch = this.buffer;
+    this.buffer = [];
+    await this.handler(batch);
+  }
+
+  onApplicationShutdown(): Promise<void> {
+    return this.flush();
+  }
+}
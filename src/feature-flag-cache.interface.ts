@@ -4,12 +4,27 @@
  * This interface defines the structure for configuring feature flags with different access patterns:
  * - Global access (enabled=true, no userIds specified)
  * - Targeted access (enabled=true with userIds)
+ * - Tenant access (enabled=true with tenantIds - every user of the listed tenants)
+ * - Percentage rollout (enabled=true with rolloutPercentage, optionally combined with userIds)
  * - Disabled (enabled=false - disabled for everyone regardless of userIds)
  *
+ * Exclusions (`excludedUserIds`, `excludedTenantIds`, `excludedSegments`) deny access to the
+ * users they match whatever else grants it, e.g. a global feature "on, except for these users".
+ *
  * @interface SetFeatureFlagOptions
  * @property {string} flag - The unique identifier for the feature flag
  * @property {boolean} enabled - Whether the feature is enabled or disabled
  * @property {string[]} [userIds] - Optional array of user IDs for targeted access control (only used when enabled=true)
+ * @property {string[]} [tenantIds] - Optional array of tenant IDs whose users all have access (only used when enabled=true)
+ * @property {number} [rolloutPercentage] - Optional share of users (0–100, fractional allowed) granted access, chosen by a stable hash of the flag and user ID
+ * @property {Date | number} [enableAt] - Optional time from which the flag is active (the flag is off before it)
+ * @property {Date | number} [disableAt] - Optional time from which the flag is no longer active
+ * @property {FeatureFlagVariant[]} [variants] - Optional weighted variants, making the flag multivariate
+ * @property {FeatureFlagTargetingRule[]} [rules] - Optional ordered attribute rules, the first match deciding access
+ * @property {string[]} [segments] - Optional names of user segments granted access (see `FeatureFlagSegment`)
+ * @property {string[]} [excludedUserIds] - Optional array of user IDs always denied access
+ * @property {string[]} [excludedTenantIds] - Optional array of tenant IDs whose users are always denied access
+ * @property {string[]} [excludedSegments] - Optional names of user segments always denied access
  *
  * @example
  * ```typescript
@@ -27,6 +42,67 @@
  *   userIds: ['user1', 'user2', 'user3']
  * };
  *
+ * // Tenant access - every user of the listed customer accounts, plus a support user
+ * const tenantAccess: SetFeatureFlagOptions = {
+ *   flag: 'sso_login',
+ *   enabled: true,
+ *   tenantIds: ['acme', 'globex'],
+ *   userIds: ['support_user']
+ * };
+ *
+ * // Percentage rollout - 5% of users, plus the listed users
+ * const rollout: SetFeatureFlagOptions = {
+ *   flag: 'new_checkout',
+ *   enabled: true,
+ *   rolloutPercentage: 5,
+ *   userIds: ['qa_user']
+ * };
+ *
+ * // Scheduled feature - on during the promo only
+ * const promo: SetFeatureFlagOptions = {
+ *   flag: 'black_friday',
+ *   enabled: true,
+ *   enableAt: new Date('2025-11-28T00:00:00Z'),
+ *   disableAt: new Date('2025-12-01T00:00:00Z')
+ * };
+ *
+ * // Multivariate feature - three-arm pricing experiment
+ * const pricing: SetFeatureFlagOptions = {
+ *   flag: 'pricing',
+ *   enabled: true,
+ *   variants: [
+ *     { name: 'control', weight: 50 },
+ *     { name: 'A', weight: 25, payload: { price: 9 } },
+ *     { name: 'B', weight: 25, payload: { price: 12 } }
+ *   ]
+ * };
+ *
+ * // Attribute targeting - paying customers on a recent app version, except in Germany
+ * const targeted: SetFeatureFlagOptions = {
+ *   flag: 'instant_payouts',
+ *   enabled: true,
+ *   rules: [
+ *     { attribute: 'country', operator: '==', value: 'DE', grant: false },
+ *     { attribute: 'plan', operator: 'in', value: ['pro', 'enterprise'] },
+ *     { attribute: 'appVersion', operator: 'semver>=', value: '5.2.0' }
+ *   ]
+ * };
+ *
+ * // Segment targeting - staff and design partners, maintained once in their segments
+ * const preview: SetFeatureFlagOptions = {
+ *   flag: 'new_editor',
+ *   enabled: true,
+ *   segments: ['internal_staff', 'design_partners']
+ * };
+ *
+ * // Global access with a carve-out - everyone except the accounts hitting a bug
+ * const carveOut: SetFeatureFlagOptions = {
+ *   flag: 'new_invoicing',
+ *   enabled: true,
+ *   excludedTenantIds: ['initech'],
+ *   excludedUserIds: ['user789']
+ * };
+ *
  * // Disabled feature - no one has access (userIds ignored)
  * const disabled: SetFeatureFlagOptions = {
  *   flag: 'disabled_feature',
@@ -39,6 +115,174 @@ export interface SetFeatureFlagOptions {
   flag: string;
   enabled: boolean;
   userIds?: string[];
+  tenantIds?: string[];
+  rolloutPercentage?: number;
+  enableAt?: Date | number;
+  disableAt?: Date | number;
+  variants?: FeatureFlagVariant[];
+  rules?: FeatureFlagTargetingRule[];
+  segments?: string[];
+  excludedUserIds?: string[];
+  excludedTenantIds?: string[];
+  excludedSegments?: string[];
+}
+
+/**
+ * Operator of a targeting rule.
+ *
+ * - `==` / `!=`: strict equality with a string, number or boolean
+ * - `in` / `notIn`: membership in a list of values
+ * - `<`, `<=`, `>`, `>=`: numeric comparison (numeric string attributes are converted)
+ * - `startsWith`, `endsWith`, `contains`: case-sensitive string matching
+ * - `semver==`, `semver<`, `semver<=`, `semver>`, `semver>=`: semantic version comparison
+ */
+export type FeatureFlagRuleOperator =
+  | '=='
+  | '!='
+  | 'in'
+  | 'notIn'
+  | '<'
+  | '<='
+  | '>'
+  | '>='
+  | 'startsWith'
+  | 'endsWith'
+  | 'contains'
+  | 'semver=='
+  | 'semver<'
+  | 'semver<='
+  | 'semver>'
+  | 'semver>=';
+
+/**
+ * Value a targeting rule compares a user attribute with.
+ */
+export type FeatureFlagRuleValue = string | number | boolean | (string | number | boolean)[];
+
+/**
+ * Targeting rule matching a user attribute supplied by the context resolver.
+ *
+ * Rules are evaluated in order and the first matching rule decides whether the user has access.
+ * A rule never matches a user missing the attribute.
+ *
+ * @interface FeatureFlagTargetingRule
+ * @property {string} attribute - The user attribute to test (e.g. `plan`, `country`, `appVersion`)
+ * @property {FeatureFlagRuleOperator} operator - How the attribute is compared with `value`
+ * @property {FeatureFlagRuleValue} value - The value to compare with (a list for `in` / `notIn`)
+ * @property {boolean} [grant=true] - Whether matching users are granted (`true`) or denied access
+ */
+export interface FeatureFlagTargetingRule {
+  attribute: string;
+  operator: FeatureFlagRuleOperator;
+  value: FeatureFlagRuleValue;
+  grant?: boolean;
+}
+
+/**
+ * Named group of users, stored once and referenced by name from any number of flags.
+ *
+ * A user belongs to the segment if listed in `userIds`, or if the first of the segment `rules`
+ * matching the user attributes grants access. Editing a segment updates every flag targeting it.
+ *
+ * @interface FeatureFlagSegment
+ * @property {string} name - The unique segment name
+ * @property {string[]} [userIds] - The user IDs belonging to the segment
+ * @property {FeatureFlagTargetingRule[]} [rules] - Attribute rules adding users to the segment
+ *
+ * @example
+ * ```typescript
+ * const staff: FeatureFlagSegment = {
+ *   name: 'internal_staff',
+ *   rules: [{ attribute: 'email', operator: 'endsWith', value: '@ourco.com' }],
+ * };
+ *
+ * const partners: FeatureFlagSegment = {
+ *   name: 'design_partners',
+ *   userIds: ['user123', 'user456'],
+ * };
+ * ```
+ */
+export interface FeatureFlagSegment {
+  name: string;
+  userIds?: string[];
+  rules?: FeatureFlagTargetingRule[];
+}
+
+/**
+ * Named variant of a multivariate feature flag.
+ *
+ * Users with access to the flag are assigned one variant, proportionally to the weights
+ * (weights are relative and don't need to add up to 100).
+ *
+ * @interface FeatureFlagVariant
+ * @template T - The payload type
+ * @property {string} name - The variant name, unique within the flag
+ * @property {number} weight - The relative share of users assigned to the variant
+ * @property {T} [payload] - Optional JSON-serializable configuration delivered with the variant
+ */
+export interface FeatureFlagVariant<T = unknown> {
+  name: string;
+  weight: number;
+  payload?: T;
+}
+
+/**
+ * The user a batch of feature flags is evaluated for.
+ *
+ * @interface FeatureFlagEvaluationContext
+ * @property {string} userId - The user identifier
+ * @property {Record<string, unknown>} [attributes] - The user attributes tested by targeting rules
+ * @property {string} [tenantId] - The tenant the user belongs to
+ */
+export interface FeatureFlagEvaluationContext {
+  userId: string;
+  attributes?: Record<string, unknown>;
+  tenantId?: string;
+}
+
+/**
+ * Outcome of evaluating a feature flag for a user.
+ *
+ * @interface FeatureFlagEvaluation
+ * @property {boolean} enabled - Whether the user has access (the flag is enabled and targets them)
+ * @property {FeatureFlagVariant | null} variant - The assigned variant, or null if the user has no
+ *   access or the flag defines no variants
+ */
+export interface FeatureFlagEvaluation {
+  enabled: boolean;
+  variant: FeatureFlagVariant | null;
+}
+
+/**
+ * Feature flag configuration as reported by a store.
+ *
+ * @interface FeatureFlagInfo
+ * @property {boolean} enabled - Whether the feature is currently enabled, schedule included
+ * @property {string[]} [userIds] - The targeted user IDs (empty once every listed user was removed), absent for global features
+ * @property {string[]} [tenantIds] - The targeted tenant IDs, absent when no tenant is targeted
+ * @property {number} [rolloutPercentage] - The rollout percentage, absent when not rolled out by percentage
+ * @property {Date} [enableAt] - The scheduled activation time, if any
+ * @property {Date} [disableAt] - The scheduled expiry time, if any
+ * @property {FeatureFlagVariant[]} [variants] - The variants of a multivariate flag
+ * @property {FeatureFlagTargetingRule[]} [rules] - The attribute targeting rules, in evaluation order
+ * @property {string[]} [segments] - The names of the user segments granted access
+ * @property {string[]} [excludedUserIds] - The user IDs denied access
+ * @property {string[]} [excludedTenantIds] - The tenant IDs denied access
+ * @property {string[]} [excludedSegments] - The names of the user segments denied access
+ */
+export interface FeatureFlagInfo {
+  enabled: boolean;
+  userIds?: string[];
+  tenantIds?: string[];
+  rolloutPercentage?: number;
+  enableAt?: Date;
+  disableAt?: Date;
+  variants?: FeatureFlagVariant[];
+  rules?: FeatureFlagTargetingRule[];
+  segments?: string[];
+  excludedUserIds?: string[];
+  excludedTenantIds?: string[];
+  excludedSegments?: string[];
 }
 
 /**
@@ -66,7 +310,7 @@ export interface SetFeatureFlagOptions {
  *     // Implementation details...
  *   }
  *
- *   async getFeature(flag: string): Promise<{ enabled: boolean; userIds?: string[] } | null> {
+ *   async getFeature(flag: string): Promise<FeatureFlagInfo | null> {
  *     // Implementation details...
  *   }
  *
@@ -87,7 +331,7 @@ export interface SetFeatureFlagOptions {
  *     // Database implementation...
  *   }
  *
- *   async getFeature(flag: string): Promise<{ enabled: boolean; userIds?: string[] } | null> {
+ *   async getFeature(flag: string): Promise<FeatureFlagInfo | null> {
  *     // Database implementation...
  *   }
  *
@@ -111,6 +355,23 @@ export interface FeatureGuardStore {
    * | false | undefined/empty | Global deny - no one has access |
    * | false | ['user1', 'user2'] | Global deny - no one has access (userIds ignored) |
    *
+   * `tenantIds` targets whole tenants the same way `userIds` targets users: a feature with
+   * either list grants access to the listed users and to every user of the listed tenants.
+   *
+   * With `rolloutPercentage`, an enabled feature is granted to the listed users and to every user
+   * whose bucket (see `getRolloutBucket`) is below the percentage; `0` grants only the listed users.
+   *
+   * With `enableAt` / `disableAt`, an enabled feature is only active within that window; stores
+   * evaluate it on every read, so the flag turns itself on and off without being rewritten.
+   *
+   * With `rules`, the user attributes are tested against each rule in order, and the first match
+   * grants or denies access (see `evaluateTargetingRules`).
+   *
+   * With `segments`, members of the named segments (see `setSegment`) are granted access.
+   *
+   * `excludedUserIds`, `excludedTenantIds` and `excludedSegments` are checked first: the users,
+   * tenants and segment members they list never have access, even to a global feature.
+   *
    * @param {SetFeatureFlagOptions} options - The feature flag configuration
    * @returns {Promise<void>} Promise that resolves when the flag is successfully stored
    *
@@ -145,10 +406,11 @@ export interface FeatureGuardStore {
    *
    * This method returns the complete feature flag configuration including the enabled state
    * and the list of users with specific access (if any). Returns null if the feature flag
-   * doesn't exist in the store.
+   * doesn't exist in the store. For scheduled flags, `enabled` is only true within the
+   * `enableAt` / `disableAt` window, and both bounds are reported back.
    *
    * @param {string} flag - The feature flag identifier
-   * @returns {Promise<{ enabled: boolean; userIds?: string[] } | null>} Feature flag metadata or null if not found
+   * @returns {Promise<FeatureFlagInfo | null>} Feature flag metadata or null if not found
    *
    * @example
    * ```typescript
@@ -165,25 +427,39 @@ export interface FeatureGuardStore {
    * // Example return values:
    * // { enabled: true, userIds: ['user1', 'user2'] } - Targeted access
    * // { enabled: true } - Global access
+   * // { enabled: true, rolloutPercentage: 5 } - Percentage rollout
+   * // { enabled: false, enableAt: Date } - Scheduled, not active yet
+   * // { enabled: true, variants: [{ name: 'A', weight: 50 }, ...] } - Multivariate
+   * // { enabled: true, rules: [{ attribute: 'plan', operator: 'in', value: ['pro'] }] } - Targeted
+   * // { enabled: true, segments: ['internal_staff'] } - Segment targeting
+   * // { enabled: true, excludedUserIds: ['user789'] } - Global access except for user789
    * // { enabled: false, userIds: ['user1'] } - Disabled (userIds ignored)
    * // null - Feature doesn't exist
    * ```
    */
-  getFeature(flag: string): Promise<{ enabled: boolean; userIds?: string[] } | null>;
+  getFeature(flag: string): Promise<FeatureFlagInfo | null>;
 
   /**
    * Checks if a specific user has access to a feature flag.
    *
    * This method implements the core access control logic by evaluating the feature flag
-   * configuration against the provided user ID. The logic follows these rules:
+   * configuration against the provided user ID and attributes. The logic follows these rules:
    *
    * 1. If feature doesn't exist: return false
-   * 2. If feature is disabled: return false (disabled means disabled for everyone)
-   * 3. If feature is enabled and no user list exists (global feature): return true
-   * 4. If feature is enabled and user list exists: return true only if user is in the list
+   * 2. If feature is disabled, or outside its schedule: return false (disabled means disabled for everyone)
+   * 3. If the user, the tenant, or a segment the user belongs to is excluded: return false
+   * 4. If the user or the tenant is in its list, or the user is a member of one of the flag
+   *    segments: return true
+   * 5. If a targeting rule matches the attributes: the first matching rule decides
+   * 6. If feature is enabled with a rollout percentage: return true if the user's bucket is below
+   *    the percentage (see `isInRollout`)
+   * 7. If feature is enabled with a user or tenant list, segments or granting rules: return false
+   * 8. Otherwise (global feature): return true
    *
    * @param {string} flag - The feature flag identifier
    * @param {string} userId - The user identifier to check
+   * @param {Record<string, unknown>} [attributes] - The user attributes tested by targeting rules
+   * @param {string} [tenantId] - The tenant the user belongs to, tested against `tenantIds`
    * @returns {Promise<boolean>} True if the user has access to the feature, false otherwise
    *
    * @example
@@ -208,7 +484,177 @@ export interface FeatureGuardStore {
    *
    * // Feature: { enabled: true } (no userIds)
    * // hasFeatureFlag('global', 'anyone') -> true (global access)
+   *
+   * // Feature: { enabled: true, rules: [{ attribute: 'plan', operator: 'in', value: ['pro'] }] }
+   * // hasFeatureFlag('pro', 'user123', { plan: 'pro' }) -> true (first rule matches)
+   * // hasFeatureFlag('pro', 'user123', { plan: 'free' }) -> false (no rule matches)
+   *
+   * // Feature: { enabled: true, tenantIds: ['acme'] }
+   * // hasFeatureFlag('sso', 'user123', undefined, 'acme') -> true (tenant in targeted list)
+   * // hasFeatureFlag('sso', 'user123', undefined, 'globex') -> false (tenant not in list)
+   *
+   * // Feature: { enabled: true, excludedUserIds: ['user789'] }
+   * // hasFeatureFlag('invoicing', 'user123') -> true (global access)
+   * // hasFeatureFlag('invoicing', 'user789') -> false (user excluded)
+   * ```
+   */
+  hasFeatureFlag(
+    flag: string,
+    userId: string,
+    attributes?: Record<string, unknown>,
+    tenantId?: string,
+  ): Promise<boolean>;
+
+  /**
+   * Resolves the variant of a multivariate feature flag for a user.
+   *
+   * Optional: stores without multivariate support may omit it, in which case the FeatureGuard
+   * never assigns variants. Implementations should assign variants with `selectVariant` so that
+   * every store buckets users the same way.
+   *
+   * @param {string} flag - The feature flag identifier
+   * @param {string} userId - The user identifier
+   * @param {Record<string, unknown>} [attributes] - The user attributes tested by targeting rules
+   * @param {string} [tenantId] - The tenant the user belongs to
+   * @returns {Promise<FeatureFlagVariant | null>} The assigned variant, or null if the user has no
+   *   access to the flag or the flag defines no variants
+   *
+   * @example
+   * ```typescript
+   * const variant = await store.getFeatureVariant('pricing', 'user123');
+   *
+   * // { name: 'B', weight: 25, payload: { price: 12 } } - User assigned to arm B
+   * // null - No access, or not a multivariate flag
+   * ```
+   */
+  getFeatureVariant?(
+    flag: string,
+    userId: string,
+    attributes?: Record<string, unknown>,
+    tenantId?: string,
+  ): Promise<FeatureFlagVariant | null>;
+
+  /**
+   * Evaluates several feature flags for a user in one call.
+   *
+   * Optional: when present, the FeatureGuard uses it instead of calling `getFeature`,
+   * `hasFeatureFlag` and `getFeatureVariant` for each flag, so stores can batch their reads
+   * (the Redis store pipelines them into one round trip). Each evaluation must match what the
+   * per-flag methods would return.
+   *
+   * @param {string[]} flags - The feature flag identifiers
+   * @param {FeatureFlagEvaluationContext} context - The user to evaluate the flags for
+   * @returns {Promise<Record<string, FeatureFlagEvaluation>>} The evaluation of every flag, keyed
+   *   by flag; missing flags are evaluated as disabled
+   *
+   * @example
+   * ```typescript
+   * const evaluations = await store.evaluateFlags(['beta_dashboard', 'pricing'], {
+   *   userId: 'user123',
+   *   attributes: { plan: 'pro' },
+   * });
+   *
+   * // {
+   * //   beta_dashboard: { enabled: true, variant: null },
+   * //   pricing: { enabled: true, variant: { name: 'B', weight: 50, payload: { price: 12 } } }
+   * // }
+   * ```
+   */
+  evaluateFlags?(
+    flags: string[],
+    context: FeatureFlagEvaluationContext,
+  ): Promise<Record<string, FeatureFlagEvaluation>>;
+
+  /**
+   * Creates or replaces a user segment.
+   *
+   * Optional: stores without segment support may omit it. Flags reference segments by name, so
+   * the change applies to every flag targeting the segment on the next evaluation.
+   *
+   * @param {FeatureFlagSegment} segment - The segment definition
+   * @returns {Promise<void>} Promise that resolves when the segment is stored
+   *
+   * @throws {Error} If the segment name or rules are invalid, or the store operation fails
+   *
+   * @example
+   * ```typescript
+   * await store.setSegment({ name: 'design_partners', userIds: ['user123', 'user456'] });
+   * ```
+   */
+  setSegment?(segment: FeatureFlagSegment): Promise<void>;
+
+  /**
+   * Retrieves a user segment.
+   *
+   * @param {string} name - The segment name
+   * @returns {Promise<FeatureFlagSegment | null>} The segment, or null if it doesn't exist
+   */
+  getSegment?(name: string): Promise<FeatureFlagSegment | null>;
+
+  /**
+   * Deletes a user segment. Flags still referencing it no longer grant access through it.
+   *
+   * @param {string} name - The segment name
+   * @returns {Promise<void>} Promise that resolves when the segment is deleted
+   */
+  deleteSegment?(name: string): Promise<void>;
+
+  /**
+   * Grants users access to a targeted feature flag, keeping the users already listed.
+   *
+   * Optional: stores without incremental updates may omit it. Unlike `setFeatureFlag`, it never
+   * rewrites the whole user list, so concurrent writers don't overwrite each other's changes.
+   *
+   * @param {string} flag - The feature flag identifier
+   * @param {string[]} userIds - The user IDs to add
+   * @returns {Promise<void>} Promise that resolves when the users are added
+   *
+   * @throws {Error} If the feature flag doesn't exist, or the store operation fails
+   *
+   * @example
+   * ```typescript
+   * await store.addUsersToFeature('beta_dashboard', ['user789']);
+   * ```
+   */
+  addUsersToFeature?(flag: string, userIds: string[]): Promise<void>;
+
+  /**
+   * Revokes the access of users listed on a feature flag, keeping the other users.
+   *
+   * Optional: stores without incremental updates may omit it. A revocation never widens access:
+   * once the last listed user is removed, the flag stays targeted (at no one unless tenants,
+   * segments or rules remain) and `getFeature` reports an empty `userIds` list. Call
+   * `setFeatureFlag` without `userIds` to open the flag to everyone.
+   *
+   * @param {string} flag - The feature flag identifier
+   * @param {string[]} userIds - The user IDs to remove
+   * @returns {Promise<void>} Promise that resolves when the users are removed
+   *
+   * @throws {Error} If the store operation fails
+   *
+   * @example
+   * ```typescript
+   * await store.removeUsersFromFeature('beta_dashboard', ['user456']);
+   * ```
+   */
+  removeUsersFromFeature?(flag: string, userIds: string[]): Promise<void>;
+
+  /**
+   * Turns a feature flag on or off, keeping the rest of its configuration.
+   *
+   * Optional: stores without incremental updates may omit it.
+   *
+   * @param {string} flag - The feature flag identifier
+   * @param {boolean} enabled - Whether the feature is enabled
+   * @returns {Promise<void>} Promise that resolves when the flag is updated
+   *
+   * @throws {Error} If the feature flag doesn't exist, or the store operation fails
+   *
+   * @example
+   * ```typescript
+   * // Kill switch: users, rules and schedule are preserved for when it is turned back on
+   * await store.setFeatureEnabled('new_checkout', false);
    * ```
    */
-  hasFeatureFlag(flag: string, userId: string): Promise<boolean>;
+  setFeatureEnabled?(flag: string, enabled: boolean): Promise<void>;
 }
@@ -0,0 +1,165 @@
+import { FeatureFlagTargetingRule } from './feature-flag-cache.interface';
+import { isInRollout } from './feature-flag.rollout';
+import { isWithinSchedule } from './feature-flag.schedule';
+import { evaluateTargetingRules } from './feature-flag.targeting';
+
+/**
+ * Feature flag as loaded by a store for an access decision, with the memberships of the user.
+ *
+ * Stored lists that fail to parse are passed as `null`, so that a corrupted targeting
+ * configuration never turns into a global feature.
+ *
+ * @interface FeatureFlagAccessState
+ * @property {boolean} enabled - Whether the flag is enabled
+ * @property {number} [enableAt] - Start of the schedule in epoch milliseconds (`NaN` if malformed)
+ * @property {number} [disableAt] - End of the schedule in epoch milliseconds (`NaN` if malformed)
+ * @property {number} [rolloutPercentage] - Percentage of users granted access
+ * @property {FeatureFlagTargetingRule[] | null} [rules] - The targeting rules
+ * @property {string[] | null} [segments] - The segments granted access
+ * @property {string[] | null} [excludedSegments] - The segments denied access
+ * @property {boolean} userTargeted - Whether the flag has, or once had, a user list
+ * @property {boolean} tenantTargeted - Whether the flag has a tenant list
+ * @property {boolean} listedUser - Whether the user is in the user list
+ * @property {boolean} listedTenant - Whether the tenant is in the tenant list
+ * @property {boolean} excludedUser - Whether the user is in the excluded user list
+ * @property {boolean} excludedTenant - Whether the tenant is in the excluded tenant list
+ */
+export interface FeatureFlagAccessState {
+  enabled: boolean;
+  enableAt?: number;
+  disableAt?: number;
+  rolloutPercentage?: number;
+  rules?: FeatureFlagTargetingRule[] | null;
+  segments?: string[] | null;
+  excludedSegments?: string[] | null;
+  userTargeted: boolean;
+  tenantTargeted: boolean;
+  listedUser: boolean;
+  listedTenant: boolean;
+  excludedUser: boolean;
+  excludedTenant: boolean;
+}
+
+/**
+ * Inputs of an access decision that don't belong to the flag.
+ *
+ * @interface FeatureFlagAccessOptions
+ * @property {Record<string, unknown>} [attributes] - The user attributes tested by targeting rules
+ * @property {number} now - The current time in epoch milliseconds, tested against the schedule
+ * @property {Function} isInAnySegment - Checks whether the user belongs to any of the given
+ *   segments; only called when the flag references segments and the decision depends on them
+ */
+export interface FeatureFlagAccessOptions {
+  attributes?: Record<string, unknown>;
+  now: number;
+  isInAnySegment: (segments: string[]) => boolean | Promise<boolean>;
+}
+
+/**
+ * Decides whether a user has access to a feature flag. Every store loads the flag state and the
+ * memberships of the user, then calls this function, so flags behave the same whichever store
+ * is configured.
+ *
+ * Access Logic:
+ * 1. If feature is disabled, or outside its schedule: return false
+ * 2. If user or tenant is excluded, or the user is a member of an excluded segment: return false
+ * 3. If user or tenant is in its list, or the user is a member of one of the flag segments:
+ *    return true
+ * 4. If a targeting rule matches the attributes: the first matching rule grants or denies access
+ * 5. If feature has a rollout percentage: return true if the user's stable bucket falls below
+ *    the percentage
+ * 6. If feature has a user or tenant list, segments or granting rules (targeted feature):
+ *    return false
+ * 7. Otherwise (global feature): return true
+ *
+ * @param {string} flag - The feature flag identifier
+ * @param {string} userId - The user identifier
+ * @param {FeatureFlagAccessState} state - The flag state and the memberships of the user
+ * @param {FeatureFlagAccessOptions} options - The attributes, the time and the segment check
+ * @returns {Promise<boolean>} True if the user has access, false otherwise
+ *
+ * @example
+ * ```typescript
+ * await evaluateFeatureAccess('beta', 'user123', state, {
+ *   now: Date.now(),
+ *   isInAnySegment: (segments) => store.isInAnySegment(segments, 'user123'),
+ * });
+ * ```
+ */
+export async function evaluateFeatureAccess(
+  flag: string,
+  userId: string,
+  state: FeatureFlagAccessState,
+  { attributes, now, isInAnySegment }: FeatureFlagAccessOptions,
+): Promise<boolean> {
+  // If feature is disabled, no one has access
+  if (!state.enabled) return false;
+
+  // Scheduled features are only active within their window; malformed bounds never match
+  const { enableAt, disableAt } = state;
+  if (!isWithinSchedule({ enableAt, disableAt }, now)) return false;
+
+  // Exclusions override every grant, including global access
+  if (state.excludedUser || state.excludedTenant) return false;
+
+  // A corrupted exclusion list denies everyone rather than letting excluded users through
+  const { excludedSegments } = state;
+  if (excludedSegments === null) return false;
+  if (excludedSegments?.length && (await isInAnySegment(excludedSegments))) return false;
+
+  // Listed users, and every user of a listed tenant, always have access
+  if (state.listedUser || state.listedTenant) return true;
+
+  // A corrupted rule set or segment list never grants access to anyone but the listed users
+  // and tenants
+  const { rules, segments } = state;
+  if (rules === null || segments === null) return false;
+
+  // Members of the targeted segments have access
+  if (segments?.length && (await isInAnySegment(segments))) return true;
+
+  // The first targeting rule matching the user attributes decides
+  const ruleDecision = rules ? evaluateTargetingRules(rules, attributes) : undefined;
+  if (ruleDecision !== undefined) return ruleDecision;
+
+  // For percentage rollouts, users in the rollout bucket have access
+  if (state.rolloutPercentage !== undefined) {
+    return isInRollout(flag, userId, state.rolloutPercentage);
+  }
+
+  // For targeted features (user or tenant list, segments or granting rules), no one else has
+  // access; for global features, everyone has access
+  const hasGrantingRules = rules?.some((rule) => rule.grant !== false) ?? false;
+  return !state.userTargeted && !state.tenantTargeted && !segments?.length && !hasGrantingRules;
+}
+
+/**
+ * Validates the user IDs passed to an incremental update.
+ *
+ * @param {string[]} userIds - The user IDs to validate
+ *
+ * @throws {Error} If the user IDs are not an array of strings
+ */
+export function validateUserIds(userIds: string[]): void {
+  if (!Array.isArray(userIds) || !userIds.every((userId) => typeof userId === 'string')) {
+    throw new Error('userIds must be an array of strings');
+  }
+}
+
+/**
+ * Parses a list (variants, targeting rules or segment names) stored as JSON.
+ *
+ * @param {string | null | undefined} value - The stored value
+ * @returns {T[] | null | undefined} The list, `undefined` if absent, or `null` if malformed so that
+ *   a corrupted targeting configuration never turns into a global feature
+ */
+export function parseJsonList<T>(value: string | null | undefined): T[] | null | undefined {
+  if (value === undefined || value === null) return undefined;
+
+  try {
+    const list = JSON.parse(value);
+    return Array.isArray(list) ? list : null;
+  } catch {
+    return null;
+  }
+}
@@ -14,6 +14,14 @@ export const FEATURE_FLAG_KEY = 'feature-flag';
  */
 export const FEATURE_FLAG_OPTIONS_KEY = 'feature-flag-options';
 
+/**
+ * Metadata key for storing parsed feature flag expressions in NestJS decorators.
+ * Used internally by the @FeatureFlag.when decorator to store the expression syntax tree.
+ *
+ * @constant {string}
+ */
+export const FEATURE_FLAG_EXPRESSION_KEY = 'feature-flag-expression';
+
 /**
  * Dependency injection token for the feature flag store.
  * Use this token when injecting the FeatureGuardStore implementation.
@@ -41,6 +49,42 @@ export const FEATURE_GUARD_STORE = 'FeatureGuardStore';
  */
 export const FEATURE_GUARD_REFLECTOR = 'FeatureGuardReflector';
 
+/**
+ * Dependency injection token for the feature context resolver.
+ * Use this token to provide a custom FeatureContextResolver that extracts the user identity
+ * (user ID, admin flag, attributes) from the execution context.
+ *
+ * @constant {string}
+ */
+export const FEATURE_CONTEXT_RESOLVER = 'FeatureContextResolver';
+
+/**
+ * Dependency injection token for the feature exposure listener.
+ * Use this token to provide a FeatureExposureListener notified of every flag the FeatureGuard
+ * evaluates for a user, e.g. to feed experiment analysis.
+ *
+ * @constant {string}
+ */
+export const FEATURE_EXPOSURE_LISTENER = 'FeatureExposureListener';
+
+/**
+ * Dependency injection token for the FeatureGuardModule configuration.
+ * Holds the validated options passed to `FeatureGuardModule.forRoot()` or resolved by
+ * `FeatureGuardModule.forRootAsync()`.
+ *
+ * @constant {string}
+ */
+export const FEATURE_GUARD_OPTIONS = 'FeatureGuardOptions';
+
+/**
+ * Default key prefix of the RedisFeatureFlagCache.
+ * Feature flag changes are published on the `{prefix}:changes` channel, so the
+ * RedisFeatureFlagChangeSubscriber must use the same prefix as the store.
+ *
+ * @constant {string}
+ */
+export const DEFAULT_REDIS_KEY_PREFIX = 'crudmates:feature-guard';
+
 /**
  * Enumeration defining the different scopes for feature flag evaluation.
  *
@@ -107,3 +151,78 @@ export enum FeatureFlagScope {
    */
   SERVICE = 'SERVICE',
 }
+
+/**
+ * Enumeration defining how controller-level and handler-level @FeatureFlag metadata are combined.
+ *
+ * The strategy is read from the handler options first, then from the controller options:
+ * - **MERGE**: Both levels apply, each checked against its own options (`scope`, `mode`, `none`,
+ *   `variant`); `onDenied` is read from the handler first
+ * - **OVERRIDE**: Handler flags and options replace the controller ones when the handler is decorated
+ *
+ * @enum {string}
+ *
+ * @example
+ * ```typescript
+ * @Controller('beta')
+ * @FeatureFlag('beta_access') // gates every route of the controller
+ * export class BetaController {
+ *   @Get('reports')
+ *   @FeatureFlag('beta_reports') // requires beta_access AND beta_reports (MERGE, default)
+ *   getReports() {}
+ *
+ *   @Get('status')
+ *   @FeatureFlag('status_page', { mergeStrategy: FeatureFlagMergeStrategy.OVERRIDE })
+ *   getStatus() {} // requires status_page only
+ * }
+ * ```
+ */
+export enum FeatureFlagMergeStrategy {
+  /**
+   * Merge strategy (default) - controller and handler flags both apply, each level checked
+   * against its own options; `onDenied` is read from the handler first.
+   */
+  MERGE = 'MERGE',
+
+  /**
+   * Override strategy - handler metadata wins over controller metadata when present.
+   * Mirrors `Reflector.getAllAndOverride` semantics.
+   */
+  OVERRIDE = 'OVERRIDE',
+}
+
+/**
+ * Enumeration defining how the FeatureGuard responds when it denies a request.
+ *
+ * Configure it per route with `FeatureFlagOptions.onDenied` or for every route with the
+ * `onDenied` option of `FeatureGuardModule.forRoot()`:
+ * - **FORBIDDEN**: The guard returns `false` and NestJS answers 403 "Forbidden resource"
+ * - **NOT_FOUND**: Throws `NotFoundException` so unreleased endpoints are undiscoverable
+ * - **EXCEPTION**: Throws `FeatureDisabledException` (403, carries the flags) or
+ *   `FeatureUserMissingException` (401) when the user is not identified
+ *
+ * @enum {string}
+ *
+ * @example
+ * ```typescript
+ * @Get('v2')
+ * @FeatureFlag('api_v2', { onDenied: FeatureFlagDeniedBehavior.NOT_FOUND })
+ * getV2() {}
+ * ```
+ */
+export enum FeatureFlagDeniedBehavior {
+  /**
+   * Forbidden behavior (default) - the guard returns `false`, resulting in a generic 403 response.
+   */
+  FORBIDDEN = 'FORBIDDEN',
+
+  /**
+   * Not found behavior - the route is masked with a 404 response.
+   */
+  NOT_FOUND = 'NOT_FOUND',
+
+  /**
+   * Exception behavior - a descriptive exception carrying the flag names is thrown.
+   */
+  EXCEPTION = 'EXCEPTION',
+}
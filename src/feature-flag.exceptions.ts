@@ -0,0 +1,105 @@
+import { ForbiddenException, HttpException, HttpStatus, UnauthorizedException } from '@nestjs/common';
+import { FeatureFlagDenialKind } from './feature-flag.interfaces';
+
+/**
+ * Words the denial message after the failed requirement, e.g. `Feature "beta" is not enabled`.
+ *
+ * @param {string[]} flags - The flags that caused the denial
+ * @param {FeatureFlagDenialKind} [kind] - The failed requirement, undefined when several failed
+ * @returns {string} The message
+ */
+function getDenialMessage(flags: string[], kind?: FeatureFlagDenialKind): string {
+  const names = flags.map((flag) => `"${flag}"`).join(', ');
+  const subject = `${flags.length === 1 ? 'Feature' : 'Features'} ${names}`;
+  const verb = flags.length === 1 ? 'is' : 'are';
+
+  switch (kind) {
+    case 'required':
+      return `${subject} ${verb} not enabled`;
+    case 'variant':
+      return `${subject} ${verb} not enabled with the required variant`;
+    case 'excluded':
+      return `Not available while ${subject.toLowerCase()} ${verb} enabled`;
+    case 'expression':
+      return `Feature flag expression on ${names} is not satisfied`;
+    default:
+      return 'Feature requirements not met';
+  }
+}
+
+/**
+ * Exception thrown when a feature flag check fails and the denial behavior is `EXCEPTION`.
+ *
+ * Responds with 403 Forbidden and includes the flags responsible for the denial in the body. The
+ * message names the failed requirement: required flags off, another variant assigned, `none`
+ * flags on or an expression not satisfied ("Feature requirements not met" when several failed).
+ *
+ * @class FeatureDisabledException
+ * @extends {ForbiddenException}
+ * @property {string[]} flags - The flags that caused the denial
+ * @property {FeatureFlagDenialKind} [kind] - The failed requirement
+ *
+ * @example
+ * ```typescript
+ * // Response body
+ * {
+ *   statusCode: 403,
+ *   message: 'Feature "beta_access" is not enabled',
+ *   error: 'Forbidden',
+ *   flags: ['beta_access']
+ * }
+ * ```
+ */
+export class FeatureDisabledException extends ForbiddenException {
+  constructor(
+    readonly flags: string[],
+    readonly kind?: FeatureFlagDenialKind,
+  ) {
+    super({
+      statusCode: HttpStatus.FORBIDDEN,
+      message: getDenialMessage(flags, kind),
+      error: 'Forbidden',
+      flags,
+    });
+  }
+}
+
+/**
+ * Exception thrown when the request carries no user identification and the denial behavior
+ * is `EXCEPTION`.
+ *
+ * Responds with 401 Unauthorized so clients can tell a missing identity apart from a disabled flag.
+ *
+ * @class FeatureUserMissingException
+ * @extends {UnauthorizedException}
+ * @property {string[]} flags - The flags guarding the route
+ */
+export class FeatureUserMissingException extends UnauthorizedException {
+  constructor(readonly flags: string[]) {
+    super({
+      statusCode: HttpStatus.UNAUTHORIZED,
+      message: 'User identification is required to evaluate feature flags',
+      error: 'Unauthorized',
+      flags,
+    });
+  }
+}
+
+/**
+ * Exception used to redirect a denied request.
+ *
+ * The FeatureGuard sets the `Location` header on the response before throwing it, so the default
+ * exception filter answers with the redirect status and the target URL.
+ *
+ * @class FeatureRedirectException
+ * @extends {HttpException}
+ * @property {string} url - The redirect target
+ */
+export class FeatureRedirectException extends HttpException {
+  constructor(
+    readonly url: string,
+    statusCode: number = HttpStatus.FOUND,
+  ) {
+    super({ statusCode, message: `Redirecting to ${url}`, url }, statusCode);
+  }
+}
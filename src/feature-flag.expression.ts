@@ -0,0 +1,239 @@
+/**
+ * Node of a parsed feature flag expression.
+ *
+ * - `flag`: true when the named flag is enabled for the user
+ * - `not`: negates its operand
+ * - `and` / `or`: boolean conjunction / disjunction of both operands
+ */
+export type FeatureFlagExpressionNode =
+  | { type: 'flag'; name: string }
+  | { type: 'not'; operand: FeatureFlagExpressionNode }
+  | { type: 'and'; left: FeatureFlagExpressionNode; right: FeatureFlagExpressionNode }
+  | { type: 'or'; left: FeatureFlagExpressionNode; right: FeatureFlagExpressionNode };
+
+/**
+ * A parsed feature flag expression, as stored in decorator metadata by `@FeatureFlag.when()`.
+ *
+ * @interface FeatureFlagExpression
+ * @property {string} source - The original expression text
+ * @property {FeatureFlagExpressionNode} ast - The parsed syntax tree
+ * @property {string[]} flags - Every flag referenced by the expression (deduplicated, in order of appearance)
+ */
+export interface FeatureFlagExpression {
+  source: string;
+  ast: FeatureFlagExpressionNode;
+  flags: string[];
+}
+
+/**
+ * Error thrown when a feature flag expression cannot be parsed.
+ *
+ * Because `@FeatureFlag.when()` parses its expression when the decorator is applied, this error
+ * surfaces while the application modules are loaded, before any request is served.
+ *
+ * @class FeatureFlagExpressionError
+ * @property {string} expression - The expression that failed to parse
+ * @property {number} position - Zero-based offset of the offending character
+ */
+export class FeatureFlagExpressionError extends Error {
+  constructor(
+    message: string,
+    readonly expression: string,
+    readonly position: number,
+  ) {
+    super(`Invalid feature flag expression "${expression}" at position ${position}: ${message}`);
+    this.name = 'FeatureFlagExpressionError';
+  }
+}
+
+type Token =
+  | { type: 'and' | 'or' | 'not' | 'lparen' | 'rparen'; position: number }
+  | { type: 'flag'; name: string; position: number }
+  | { type: 'end'; position: number };
+
+/**
+ * Characters that terminate a flag name: whitespace, parentheses and operators.
+ */
+const DELIMITER = /[\s()!&|]/;
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    const char = source[position];
+
+    if (/\s/.test(char)) {
+      position++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', position });
+      position++;
+    } else if (char === '!') {
+      tokens.push({ type: 'not', position });
+      position++;
+    } else if (char === '&' || char === '|') {
+      if (source[position + 1] !== char) {
+        throw new FeatureFlagExpressionError(`expected "${char}${char}"`, source, position);
+      }
+      tokens.push({ type: char === '&' ? 'and' : 'or', position });
+      position += 2;
+    } else {
+      const start = position;
+      while (position < source.length && !DELIMITER.test(source[position])) {
+        position++;
+      }
+      tokens.push({ type: 'flag', name: source.slice(start, position), position: start });
+    }
+  }
+
+  tokens.push({ type: 'end', position: source.length });
+  return tokens;
+}
+
+/**
+ * Parses a boolean feature flag expression into a syntax tree.
+ *
+ * Grammar (lowest to highest precedence):
+ * ```
+ * or      := and ('||' and)*
+ * and     := unary ('&&' unary)*
+ * unary   := '!' unary | primary
+ * primary := flag | '(' or ')'
+ * ```
+ * A flag name is any run of characters other than whitespace, parentheses, `!`, `&` and `|`.
+ *
+ * @param {string} source - The expression, e.g. `new_ui && (beta_users || !region_eu_block)`
+ * @returns {FeatureFlagExpression} The parsed expression and the flags it references
+ *
+ * @throws {FeatureFlagExpressionError} If the expression is empty or malformed
+ *
+ * @example
+ * ```typescript
+ * const expression = parseFeatureFlagExpression('new_ui && !legacy_checkout');
+ * expression.flags; // ['new_ui', 'legacy_checkout']
+ * ```
+ */
+export function parseFeatureFlagExpression(source: string): FeatureFlagExpression {
+  if (typeof source !== 'string') {
+    throw new FeatureFlagExpressionError('expression must be a string', String(source), 0);
+  }
+
+  const tokens = tokenize(source);
+  const flags = new Set<string>();
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const unexpected = (token: Token): never => {
+    const found = token.type === 'end' ? 'end of expression' : `"${describeToken(token)}"`;
+    throw new FeatureFlagExpressionError(`unexpected ${found}`, source, token.position);
+  };
+
+  const parseOr = (): FeatureFlagExpressionNode => {
+    let left = parseAnd();
+    while (peek().type === 'or') {
+      index++;
+      left = { type: 'or', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): FeatureFlagExpressionNode => {
+    let left = parseUnary();
+    while (peek().type === 'and') {
+      index++;
+      left = { type: 'and', left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseUnary = (): FeatureFlagExpressionNode => {
+    if (peek().type === 'not') {
+      index++;
+      return { type: 'not', operand: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): FeatureFlagExpressionNode => {
+    const token = tokens[index++];
+
+    if (token.type === 'flag') {
+      flags.add(token.name);
+      return { type: 'flag', name: token.name };
+    }
+
+    if (token.type === 'lparen') {
+      const node = parseOr();
+      const closing = tokens[index++];
+      if (closing.type !== 'rparen') {
+        throw new FeatureFlagExpressionError('expected ")"', source, closing.position);
+      }
+      return node;
+    }
+
+    return unexpected(token);
+  };
+
+  const ast = parseOr();
+  if (peek().type !== 'end') {
+    unexpected(peek());
+  }
+
+  return { source, ast, flags: [...flags] };
+}
+
+function describeToken(token: Token): string {
+  switch (token.type) {
+    case 'and':
+      return '&&';
+    case 'or':
+      return '||';
+    case 'not':
+      return '!';
+    case 'lparen':
+      return '(';
+    case 'rparen':
+      return ')';
+    case 'flag':
+      return token.name;
+    default:
+      return '';
+  }
+}
+
+/**
+ * Evaluates a parsed expression against per-flag states.
+ *
+ * Flags missing from `states` are treated as disabled.
+ *
+ * @param {FeatureFlagExpressionNode} node - The expression (or sub-expression) to evaluate
+ * @param {Record<string, boolean>} states - Evaluated flag states for the current user
+ * @returns {boolean} The result of the expression
+ *
+ * @example
+ * ```typescript
+ * const { ast } = parseFeatureFlagExpression('new_ui && !legacy_checkout');
+ * evaluateFeatureFlagExpression(ast, { new_ui: true, legacy_checkout: false }); // true
+ * ```
+ */
+export function evaluateFeatureFlagExpression(
+  node: FeatureFlagExpressionNode,
+  states: Record<string, boolean>,
+): boolean {
+  switch (node.type) {
+    case 'flag':
+      return states[node.name] === true;
+    case 'not':
+      return !evaluateFeatureFlagExpression(node.operand, states);
+    case 'and':
+      return (
+        evaluateFeatureFlagExpression(node.left, states) &&
+        evaluateFeatureFlagExpression(node.right, states)
+      );
+    case 'or':
+      return (
+        evaluateFeatureFlagExpression(node.left, states) ||
+        evaluateFeatureFlagExpression(node.right, states)
+      );
+  }
+}
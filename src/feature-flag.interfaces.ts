@@ -1,14 +1,98 @@
-import { FeatureFlagScope } from './feature-flag.constants';
+import {
+  ExecutionContext,
+  InjectionToken,
+  ModuleMetadata,
+  OptionalFactoryDependency,
+} from '@nestjs/common';
+import { FeatureContextResolver } from './feature-context-resolver.interface';
+import { FeatureExposureListener } from './feature-exposure-listener.interface';
+import { FeatureGuardStore } from './feature-flag-cache.interface';
+import {
+  FeatureFlagDeniedBehavior,
+  FeatureFlagMergeStrategy,
+  FeatureFlagScope,
+} from './feature-flag.constants';
+
+/**
+ * How the flags listed in a @FeatureFlag decorator are combined in CONTROLLER scope.
+ * - `'all'`: every flag must be enabled for the user (AND)
+ * - `'any'`: at least one flag must be enabled for the user (OR)
+ */
+export type FeatureFlagMode = 'all' | 'any';
+
+/**
+ * Why the FeatureGuard denied a request.
+ * - `'unidentified'`: the request carries neither a user ID nor admin privileges
+ * - `'disabled'`: the feature flag requirements are not met for the user
+ */
+export type FeatureFlagDenialReason = 'unidentified' | 'disabled';
+
+/**
+ * Which feature flag requirement a `'disabled'` denial failed.
+ * - `'required'`: required flags are off for the user
+ * - `'variant'`: required flags are on, but the user is assigned another variant
+ * - `'excluded'`: flags listed in `none` are on for the user
+ * - `'expression'`: a `FeatureFlag.when` expression evaluates to false
+ */
+export type FeatureFlagDenialKind = 'required' | 'variant' | 'excluded' | 'expression';
+
+/**
+ * Details of a denied request, passed to custom `onDenied` handlers.
+ *
+ * @interface FeatureFlagDenial
+ * @property {FeatureFlagDenialReason} reason - Why the request was denied
+ * @property {string[]} flags - The flags that caused the denial (every guarding flag when unidentified,
+ *   none when the route declares no flags)
+ * @property {FeatureFlagDenialKind} [kind] - The failed requirement, when a `'disabled'` denial has
+ *   a single one (undefined when several kinds of requirements failed)
+ * @property {ExecutionContext} context - The NestJS execution context
+ */
+export interface FeatureFlagDenial {
+  reason: FeatureFlagDenialReason;
+  flags: string[];
+  kind?: FeatureFlagDenialKind;
+  context: ExecutionContext;
+}
+
+/**
+ * How the FeatureGuard responds to a denied request.
+ * - A `FeatureFlagDeniedBehavior` value (FORBIDDEN, NOT_FOUND, EXCEPTION)
+ * - `{ redirect, statusCode? }` to redirect HTTP requests (302 by default)
+ * - A function receiving the denial: a returned error is thrown, otherwise the guard returns `false`
+ *
+ * @example
+ * ```typescript
+ * // Mask the route
+ * onDenied: FeatureFlagDeniedBehavior.NOT_FOUND
+ *
+ * // Redirect to the stable page
+ * onDenied: { redirect: '/dashboard' }
+ *
+ * // Custom exception
+ * onDenied: ({ reason, flags }) =>
+ *   reason === 'unidentified' ? new UnauthorizedException() : new PaymentRequiredException(flags)
+ * ```
+ */
+export type FeatureFlagDeniedHandler =
+  | FeatureFlagDeniedBehavior
+  | { redirect: string; statusCode?: number }
+  | ((denial: FeatureFlagDenial) => Error | void);
 
 /**
  * Configuration options for feature flag decorators.
  *
  * This interface defines the optional configuration that can be passed to the @FeatureFlag decorator
- * to customize its behavior. Currently supports scope configuration to determine how the guard
- * behaves when a feature flag is disabled.
+ * to customize its behavior. Supports scope configuration to determine how the guard behaves
+ * when a feature flag is disabled, and the strategy used to combine controller-level and
+ * handler-level decorators.
  *
  * @interface FeatureFlagOptions
  * @property {FeatureFlagScope} [scope] - The scope determining guard behavior (CONTROLLER or SERVICE)
+ * @property {FeatureFlagMode} [mode] - Whether all ('all', default) or any ('any') of the flags of this decorator are required
+ * @property {string[]} [none] - Flags that must be disabled for the user (negated flags)
+ * @property {FeatureFlagMergeStrategy} [mergeStrategy] - How controller and handler metadata are combined (MERGE or OVERRIDE)
+ * @property {FeatureFlagDeniedHandler} [onDenied] - How denied requests are answered (overrides the module default)
+ * @property {string} [variant] - Only users assigned this variant of the flags of this decorator are granted access
  *
  * @example
  * ```typescript
@@ -27,8 +111,98 @@ import { FeatureFlagScope } from './feature-flag.constants';
  *   }
  *   return this.getBasicProducts();
  * }
+ *
+ * // ANY mode - access if at least one flag is enabled
+ * @FeatureFlag(['beta_users', 'internal_staff'], { mode: 'any' })
+ *
+ * // Negated flags - only accessible while legacy_checkout is OFF
+ * @FeatureFlag([], { none: ['legacy_checkout'] })
+ *
+ * // OVERRIDE strategy - handler flags replace the controller flags instead of adding to them
+ * @FeatureFlag('legacy_export', { mergeStrategy: FeatureFlagMergeStrategy.OVERRIDE })
+ *
+ * // Mask unreleased endpoints with a 404
+ * @FeatureFlag('api_v3', { onDenied: FeatureFlagDeniedBehavior.NOT_FOUND })
+ *
+ * // Variant gating - only users in arm B of the checkout experiment
+ * @FeatureFlag('checkout', { variant: 'B' })
  * ```
  */
 export interface FeatureFlagOptions {
   scope?: FeatureFlagScope;
+  mode?: FeatureFlagMode;
+  none?: string[];
+  mergeStrategy?: FeatureFlagMergeStrategy;
+  onDenied?: FeatureFlagDeniedHandler;
+  variant?: string;
+}
+
+/**
+ * Configuration options for `FeatureGuardModule.forRoot()`.
+ *
+ * @interface FeatureGuardModuleOptions
+ * @property {FeatureGuardStore} store - The feature flag store implementation used by the guard
+ * @property {boolean} [isGlobal] - Registers the module globally so feature modules don't need to import it
+ * @property {FeatureFlagDeniedHandler} [onDenied] - Default denial behavior for every guarded route
+ * @property {FeatureContextResolver} [contextResolver] - Extracts the user identity (defaults to DefaultFeatureContextResolver)
+ * @property {FeatureExposureListener} [exposureListener] - Notified of every flag evaluated for a user
+ *
+ * @example
+ * ```typescript
+ * @Module({
+ *   imports: [
+ *     FeatureGuardModule.forRoot({
+ *       store: new RedisFeatureFlagCache(redis),
+ *       isGlobal: true,
+ *     }),
+ *   ],
+ * })
+ * export class AppModule {}
+ * ```
+ */
+export interface FeatureGuardModuleOptions {
+  store: FeatureGuardStore;
+  isGlobal?: boolean;
+  onDenied?: FeatureFlagDeniedHandler;
+  contextResolver?: FeatureContextResolver;
+  exposureListener?: FeatureExposureListener;
+}
+
+/**
+ * Configuration options for `FeatureGuardModule.forRootAsync()`.
+ *
+ * The factory resolves the module options at bootstrap, which allows the store to be built
+ * from other providers (e.g. a Redis client exposed by a config or Redis module).
+ * `isGlobal` is declared here rather than returned by the factory because module scope
+ * must be known before any provider is resolved.
+ *
+ * @interface FeatureGuardModuleAsyncOptions
+ * @property {Function} useFactory - Factory returning the module options (sync or async)
+ * @property {Array} [inject] - Providers injected into the factory
+ * @property {Array} [imports] - Modules exporting the providers listed in `inject`
+ * @property {boolean} [isGlobal] - Registers the module globally so feature modules don't need to import it
+ *
+ * @example
+ * ```typescript
+ * @Module({
+ *   imports: [
+ *     FeatureGuardModule.forRootAsync({
+ *       imports: [RedisModule],
+ *       inject: [REDIS_CLIENT],
+ *       useFactory: (redis: Redis) => ({
+ *         store: new RedisFeatureFlagCache(redis, 'myapp:features'),
+ *       }),
+ *       isGlobal: true,
+ *     }),
+ *   ],
+ * })
+ * export class AppModule {}
+ * ```
+ */
+export interface FeatureGuardModuleAsyncOptions extends Pick<ModuleMetadata, 'imports'> {
+  useFactory: (
+    ...args: any[]
+  ) => Omit<FeatureGuardModuleOptions, 'isGlobal'> | Promise<Omit<FeatureGuardModuleOptions, 'isGlobal'>>;
+  inject?: Array<InjectionToken | OptionalFactoryDependency>;
+  isGlobal?: boolean;
 }
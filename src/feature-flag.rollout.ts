@@ -0,0 +1,59 @@
+import { createHash } from 'crypto';
+
+/**
+ * Computes the rollout bucket of a user for a feature flag.
+ *
+ * The bucket is derived from a SHA-256 hash of `flag:userId`, so it is stable across processes
+ * and stores, and independent between flags (a user in the first 5% of one flag is not
+ * necessarily in the first 5% of another).
+ *
+ * @param {string} flag - The feature flag identifier
+ * @param {string} userId - The user identifier
+ * @returns {number} A bucket in the range [0, 100)
+ *
+ * @example
+ * ```typescript
+ * getRolloutBucket('new_checkout', 'user123'); // e.g. 42.17...
+ * ```
+ */
+export function getRolloutBucket(flag: string, userId: string): number {
+  const hash = createHash('sha256').update(`${flag}:${userId}`).digest();
+  return (hash.readUInt32BE(0) / 0x100000000) * 100;
+}
+
+/**
+ * Checks whether a user falls within the rollout percentage of a feature flag.
+ *
+ * Raising the percentage only adds users: everyone enrolled at 5% stays enrolled at 20%.
+ *
+ * @param {string} flag - The feature flag identifier
+ * @param {string} userId - The user identifier
+ * @param {number} percentage - The rollout percentage (0–100, fractional allowed)
+ * @returns {boolean} True if the user's bucket is below the percentage
+ *
+ * @example
+ * ```typescript
+ * if (isInRollout('new_checkout', userId, 5)) {
+ *   // user is part of the 5% rollout
+ * }
+ * ```
+ */
+export function isInRollout(flag: string, userId: string, percentage: number): boolean {
+  return getRolloutBucket(flag, userId) < percentage;
+}
+
+/**
+ * Validates a rollout percentage before it is stored.
+ *
+ * @param {number | undefined} percentage - The rollout percentage to validate
+ *
+ * @throws {Error} If the percentage is not a finite number between 0 and 100
+ */
+export function validateRolloutPercentage(percentage: number | undefined): void {
+  if (percentage === undefined) return;
+
+  // Also rejects NaN, which fails both comparisons
+  if (typeof percentage !== 'number' || !(percentage >= 0 && percentage <= 100)) {
+    throw new Error(`rolloutPercentage must be a number between 0 and 100, got ${percentage}`);
+  }
+}
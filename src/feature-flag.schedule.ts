@@ -0,0 +1,101 @@
+/**
+ * Source of the current time used by stores to evaluate flag schedules.
+ *
+ * Inject a fixed or controllable clock in tests instead of mocking `Date`.
+ *
+ * @interface FeatureFlagClock
+ *
+ * @example
+ * ```typescript
+ * let now = Date.parse('2025-01-01T00:00:00Z');
+ * const clock: FeatureFlagClock = { now: () => now };
+ * const store = new RedisFeatureFlagCache(redis, undefined, { clock });
+ * ```
+ */
+export interface FeatureFlagClock {
+  /**
+   * Returns the current time.
+   *
+   * @returns {number} Milliseconds since the Unix epoch
+   */
+  now(): number;
+}
+
+/**
+ * Clock reading the system time.
+ */
+export const systemClock: FeatureFlagClock = {
+  now: () => Date.now(),
+};
+
+/**
+ * Activation window of a feature flag. Both bounds are optional.
+ *
+ * @interface FeatureFlagSchedule
+ * @property {Date | number} [enableAt] - The flag is off before this time (inclusive start)
+ * @property {Date | number} [disableAt] - The flag is off from this time on (exclusive end)
+ */
+export interface FeatureFlagSchedule {
+  enableAt?: Date | number;
+  disableAt?: Date | number;
+}
+
+/**
+ * Converts a schedule bound to milliseconds since the Unix epoch.
+ *
+ * @param {Date | number | undefined} value - The bound
+ * @returns {number | undefined} The timestamp, `NaN` for invalid dates
+ */
+export function toScheduleTimestamp(value: Date | number | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  return value instanceof Date ? value.getTime() : value;
+}
+
+/**
+ * Checks whether a time falls within a flag schedule.
+ *
+ * Invalid bounds (`NaN`) never match, so a corrupted schedule keeps the flag off.
+ *
+ * @param {FeatureFlagSchedule} schedule - The activation window
+ * @param {number} now - The time to check, in milliseconds since the Unix epoch
+ * @returns {boolean} True if `now` is at or after `enableAt` and before `disableAt`
+ *
+ * @example
+ * ```typescript
+ * isWithinSchedule({ enableAt: launch, disableAt: promoEnd }, clock.now());
+ * ```
+ */
+export function isWithinSchedule(schedule: FeatureFlagSchedule, now: number): boolean {
+  const enableAt = toScheduleTimestamp(schedule.enableAt);
+  const disableAt = toScheduleTimestamp(schedule.disableAt);
+
+  if (enableAt !== undefined && !(now >= enableAt)) return false;
+  if (disableAt !== undefined && !(now < disableAt)) return false;
+
+  return true;
+}
+
+/**
+ * Validates a flag schedule before it is stored.
+ *
+ * @param {FeatureFlagSchedule} schedule - The activation window to validate
+ *
+ * @throws {Error} If a bound is not a valid date or timestamp, or `disableAt` is not after `enableAt`
+ */
+export function validateSchedule(schedule: FeatureFlagSchedule): void {
+  const enableAt = toScheduleTimestamp(schedule.enableAt);
+  const disableAt = toScheduleTimestamp(schedule.disableAt);
+
+  for (const [name, value] of [
+    ['enableAt', enableAt],
+    ['disableAt', disableAt],
+  ] as const) {
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value))) {
+      throw new Error(`${name} must be a valid Date or timestamp`);
+    }
+  }
+
+  if (enableAt !== undefined && disableAt !== undefined && disableAt <= enableAt) {
+    throw new Error('disableAt must be after enableAt');
+  }
+}
@@ -0,0 +1,80 @@
+import { FeatureFlagSegment } from './feature-flag-cache.interface';
+import { evaluateTargetingRules, validateTargetingRules } from './feature-flag.targeting';
+
+/**
+ * Checks whether a user belongs to a segment.
+ *
+ * @param {FeatureFlagSegment} segment - The segment definition
+ * @param {string} userId - The user identifier
+ * @param {Record<string, unknown>} [attributes] - The user attributes tested by the segment rules
+ * @returns {boolean} True if the user is listed, or the first matching segment rule grants access
+ *
+ * @example
+ * ```typescript
+ * isInSegment(staff, 'user123', { email: 'jane@ourco.com' });
+ * ```
+ */
+export function isInSegment(
+  segment: FeatureFlagSegment,
+  userId: string,
+  attributes?: Record<string, unknown>,
+): boolean {
+  if (segment.userIds?.includes(userId)) return true;
+  return evaluateTargetingRules(segment.rules ?? [], attributes) === true;
+}
+
+/**
+ * Validates a segment name, as used in segment definitions and flag references.
+ *
+ * @param {unknown} name - The segment name to validate
+ *
+ * @throws {Error} If the name is not a non-empty string
+ */
+export function validateSegmentName(name: unknown): void {
+  if (typeof name !== 'string' || name.trim().length === 0) {
+    throw new Error('Segment name must be a non-empty string');
+  }
+}
+
+/**
+ * Validates a segment definition before it is stored.
+ *
+ * @param {FeatureFlagSegment} segment - The segment to validate
+ *
+ * @throws {Error} If the name is empty, `userIds` is not an array of strings, or a rule is invalid
+ */
+export function validateSegment(segment: FeatureFlagSegment): void {
+  validateSegmentName(segment?.name);
+
+  const { userIds } = segment;
+  if (
+    userIds !== undefined &&
+    (!Array.isArray(userIds) || !userIds.every((userId) => typeof userId === 'string'))
+  ) {
+    throw new Error(`Segment "${segment.name}" userIds must be an array of strings`);
+  }
+
+  validateTargetingRules(segment.rules);
+}
+
+/**
+ * Validates the segments referenced by a feature flag before they are stored.
+ *
+ * Referenced segments don't need to exist yet: a missing segment has no members.
+ *
+ * @param {string[] | undefined} segments - The segment names to validate
+ * @param {string} [option='segments'] - The flag option holding the names, for error messages
+ *
+ * @throws {Error} If the list is not an array or a name is not a non-empty string
+ */
+export function validateSegmentReferences(
+  segments: string[] | undefined,
+  option = 'segments',
+): void {
+  if (segments === undefined) return;
+
+  if (!Array.isArray(segments)) {
+    throw new Error(`${option} must be an array of segment names`);
+  }
+  segments.forEach(validateSegmentName);
+}
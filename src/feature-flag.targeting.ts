@@ -0,0 +1,250 @@
+import {
+  FeatureFlagRuleOperator,
+  FeatureFlagTargetingRule,
+} from './feature-flag-cache.interface';
+
+const EQUALITY_OPERATORS: FeatureFlagRuleOperator[] = ['==', '!='];
+const LIST_OPERATORS: FeatureFlagRuleOperator[] = ['in', 'notIn'];
+const NUMERIC_OPERATORS: FeatureFlagRuleOperator[] = ['<', '<=', '>', '>='];
+const STRING_OPERATORS: FeatureFlagRuleOperator[] = ['startsWith', 'endsWith', 'contains'];
+const SEMVER_OPERATORS: FeatureFlagRuleOperator[] = [
+  'semver==',
+  'semver<',
+  'semver<=',
+  'semver>',
+  'semver>=',
+];
+
+const SEMVER_PATTERN = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+/**
+ * Parsed semantic version. Missing minor and patch numbers default to 0.
+ */
+interface SemVer {
+  numbers: [number, number, number];
+  prerelease: string[];
+}
+
+/**
+ * Parses a semantic version such as `5.2.0`, `v5.2` or `5.2.0-beta.1`.
+ *
+ * @param {unknown} value - The value to parse
+ * @returns {SemVer | undefined} The version, or `undefined` if the value is not a version string
+ */
+function parseSemver(value: unknown): SemVer | undefined {
+  if (typeof value !== 'string') return undefined;
+
+  const match = SEMVER_PATTERN.exec(value.trim());
+  if (!match) return undefined;
+
+  return {
+    numbers: [Number(match[1]), Number(match[2] ?? 0), Number(match[3] ?? 0)],
+    prerelease: match[4]?.split('.') ?? [],
+  };
+}
+
+/**
+ * Compares two semantic versions following the semver precedence rules.
+ *
+ * @param {SemVer} a - The first version
+ * @param {SemVer} b - The second version
+ * @returns {number} A negative number if `a` precedes `b`, a positive number if it follows, else 0
+ */
+function compareSemver(a: SemVer, b: SemVer): number {
+  for (let i = 0; i < 3; i++) {
+    if (a.numbers[i] !== b.numbers[i]) return a.numbers[i] - b.numbers[i];
+  }
+
+  // A pre-release precedes the release itself: 5.2.0-beta < 5.2.0
+  if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+    return b.prerelease.length - a.prerelease.length;
+  }
+
+  for (let i = 0; i < Math.min(a.prerelease.length, b.prerelease.length); i++) {
+    const left = a.prerelease[i];
+    const right = b.prerelease[i];
+    if (left === right) continue;
+
+    const leftNumeric = /^\d+$/.test(left);
+    const rightNumeric = /^\d+$/.test(right);
+    if (leftNumeric && rightNumeric) return Number(left) - Number(right);
+    if (leftNumeric !== rightNumeric) return leftNumeric ? -1 : 1;
+    return left < right ? -1 : 1;
+  }
+
+  return a.prerelease.length - b.prerelease.length;
+}
+
+/**
+ * Applies a comparison operator to the result of a three-way comparison.
+ *
+ * @param {string} operator - One of `==`, `<`, `<=`, `>`, `>=`
+ * @param {number} difference - Negative, zero or positive
+ * @returns {boolean} The outcome of the comparison
+ */
+function compare(operator: string, difference: number): boolean {
+  switch (operator) {
+    case '<':
+      return difference < 0;
+    case '<=':
+      return difference <= 0;
+    case '>':
+      return difference > 0;
+    case '>=':
+      return difference >= 0;
+    default:
+      return difference === 0;
+  }
+}
+
+/**
+ * Converts an attribute to a number for numeric operators, accepting numeric strings.
+ *
+ * @param {unknown} value - The attribute value
+ * @returns {number} The number, or `NaN` if the value is not numeric
+ */
+function toNumber(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return NaN;
+}
+
+/**
+ * Checks whether a user matches a targeting rule.
+ *
+ * A rule never matches a missing (`undefined` or `null`) attribute, nor an attribute of the wrong
+ * type for its operator.
+ *
+ * @param {FeatureFlagTargetingRule} rule - The rule to test
+ * @param {Record<string, unknown>} attributes - The user attributes
+ * @returns {boolean} True if the attribute satisfies the rule
+ *
+ * @example
+ * ```typescript
+ * matchesTargetingRule({ attribute: 'email', operator: 'endsWith', value: '@ourco.com' }, user);
+ * ```
+ */
+export function matchesTargetingRule(
+  rule: FeatureFlagTargetingRule,
+  attributes: Record<string, unknown>,
+): boolean {
+  const attribute = attributes[rule.attribute];
+  if (attribute === undefined || attribute === null) return false;
+
+  const { operator, value } = rule;
+
+  switch (operator) {
+    case '==':
+      return attribute === value;
+    case '!=':
+      return attribute !== value;
+    case 'in':
+    case 'notIn': {
+      const included = Array.isArray(value) && value.some((item) => item === attribute);
+      return operator === 'in' ? included : !included;
+    }
+    case '<':
+    case '<=':
+    case '>':
+    case '>=': {
+      const left = toNumber(attribute);
+      const right = toNumber(value);
+      if (!Number.isFinite(left) || !Number.isFinite(right)) return false;
+      return compare(operator, left - right);
+    }
+    case 'startsWith':
+      return typeof attribute === 'string' && attribute.startsWith(String(value));
+    case 'endsWith':
+      return typeof attribute === 'string' && attribute.endsWith(String(value));
+    case 'contains':
+      return typeof attribute === 'string' && attribute.includes(String(value));
+    default: {
+      if (!SEMVER_OPERATORS.includes(operator)) return false;
+
+      const left = parseSemver(attribute);
+      const right = parseSemver(value);
+      if (!left || !right) return false;
+      return compare(operator.slice('semver'.length), compareSemver(left, right));
+    }
+  }
+}
+
+/**
+ * Evaluates ordered targeting rules against the user attributes.
+ *
+ * @param {FeatureFlagTargetingRule[]} rules - The rules, in evaluation order
+ * @param {Record<string, unknown>} [attributes] - The user attributes
+ * @returns {boolean | undefined} The `grant` of the first matching rule, or `undefined` if no rule
+ *   matches (the caller then falls through to the rest of the flag configuration)
+ *
+ * @example
+ * ```typescript
+ * evaluateTargetingRules(
+ *   [
+ *     { attribute: 'country', operator: '==', value: 'DE', grant: false },
+ *     { attribute: 'plan', operator: 'in', value: ['pro', 'enterprise'] },
+ *   ],
+ *   { plan: 'pro', country: 'NG' },
+ * ); // true
+ * ```
+ */
+export function evaluateTargetingRules(
+  rules: FeatureFlagTargetingRule[],
+  attributes: Record<string, unknown> = {},
+): boolean | undefined {
+  const rule = rules.find((candidate) => matchesTargetingRule(candidate, attributes));
+  return rule ? rule.grant !== false : undefined;
+}
+
+/**
+ * Validates targeting rules before they are stored.
+ *
+ * @param {FeatureFlagTargetingRule[] | undefined} rules - The rules to validate
+ *
+ * @throws {Error} If the rules are not an array, a rule has no attribute, an unknown operator, a
+ *   value of the wrong type for its operator, or a non-boolean `grant`
+ */
+export function validateTargetingRules(rules: FeatureFlagTargetingRule[] | undefined): void {
+  if (rules === undefined) return;
+
+  if (!Array.isArray(rules)) {
+    throw new Error('rules must be an array');
+  }
+
+  for (const rule of rules) {
+    if (typeof rule?.attribute !== 'string' || rule.attribute.length === 0) {
+      throw new Error('Each rule must have a non-empty attribute');
+    }
+
+    const { attribute, operator, value } = rule;
+    const isPrimitive = (item: unknown) => ['string', 'number', 'boolean'].includes(typeof item);
+
+    if (EQUALITY_OPERATORS.includes(operator)) {
+      if (!isPrimitive(value)) {
+        throw new Error(`Rule on "${attribute}" requires a string, number or boolean value`);
+      }
+    } else if (LIST_OPERATORS.includes(operator)) {
+      if (!Array.isArray(value) || value.length === 0 || !value.every(isPrimitive)) {
+        throw new Error(`Rule on "${attribute}" requires a non-empty list of values`);
+      }
+    } else if (NUMERIC_OPERATORS.includes(operator)) {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new Error(`Rule on "${attribute}" requires a finite number value`);
+      }
+    } else if (STRING_OPERATORS.includes(operator)) {
+      if (typeof value !== 'string') {
+        throw new Error(`Rule on "${attribute}" requires a string value`);
+      }
+    } else if (SEMVER_OPERATORS.includes(operator)) {
+      if (!parseSemver(value)) {
+        throw new Error(`Rule on "${attribute}" requires a valid semantic version value`);
+      }
+    } else {
+      throw new Error(`Rule on "${attribute}" has unknown operator "${operator}"`);
+    }
+
+    if (rule.grant !== undefined && typeof rule.grant !== 'boolean') {
+      throw new Error(`Rule on "${attribute}" grant must be a boolean`);
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { FeatureFlagVariant } from './feature-flag-cache.interface';
+import { getRolloutBucket } from './feature-flag.rollout';
+
+/**
+ * Selects the variant of a multivariate feature flag for a user.
+ *
+ * Users are assigned by a stable hash of the flag and user ID, proportionally to the variant
+ * weights. The hash is salted differently from the rollout bucket, so the users enrolled by a
+ * percentage rollout are spread over every variant instead of landing in the first one.
+ *
+ * @param {string} flag - The feature flag identifier
+ * @param {string} userId - The user identifier
+ * @param {FeatureFlagVariant<T>[]} variants - The flag variants
+ * @returns {FeatureFlagVariant<T> | null} The assigned variant, or null if no variant has weight
+ *
+ * @example
+ * ```typescript
+ * const variant = selectVariant('pricing', 'user123', [
+ *   { name: 'control', weight: 50 },
+ *   { name: 'A', weight: 25, payload: { price: 9 } },
+ *   { name: 'B', weight: 25, payload: { price: 12 } },
+ * ]);
+ * ```
+ */
+export function selectVariant<T = unknown>(
+  flag: string,
+  userId: string,
+  variants: FeatureFlagVariant<T>[],
+): FeatureFlagVariant<T> | null {
+  const totalWeight = variants.reduce((total, variant) => total + variant.weight, 0);
+  if (totalWeight <= 0) return null;
+
+  const target = (getRolloutBucket(`${flag}:variant`, userId) / 100) * totalWeight;
+
+  let cumulative = 0;
+  for (const variant of variants) {
+    cumulative += variant.weight;
+    if (target < cumulative) return variant;
+  }
+
+  // Floating point rounding can leave the target at the very end of the range
+  return [...variants].reverse().find((variant) => variant.weight > 0) ?? null;
+}
+
+/**
+ * Validates the variants of a multivariate feature flag before they are stored.
+ *
+ * @param {FeatureFlagVariant[] | undefined} variants - The variants to validate
+ *
+ * @throws {Error} If the list is empty, a name is missing or duplicated, a weight is negative or
+ *   not finite, all weights are zero, or a payload cannot be serialized to JSON
+ */
+export function validateVariants(variants: FeatureFlagVariant[] | undefined): void {
+  if (variants === undefined) return;
+
+  if (!Array.isArray(variants) || variants.length === 0) {
+    throw new Error('variants must be a non-empty array');
+  }
+
+  const names = new Set<string>();
+  for (const variant of variants) {
+    if (typeof variant?.name !== 'string' || variant.name.length === 0) {
+      throw new Error('Each variant must have a non-empty name');
+    }
+    if (names.has(variant.name)) {
+      throw new Error(`Duplicate variant "${variant.name}"`);
+    }
+    names.add(variant.name);
+
+    if (!Number.isFinite(variant.weight) || variant.weight < 0) {
+      throw new Error(`Variant "${variant.name}" must have a finite, non-negative weight`);
+    }
+
+    try {
+      JSON.stringify(variant.payload);
+    } catch {
+      throw new Error(`Variant "${variant.name}" payload must be serializable to JSON`);
+    }
+  }
+
+  if (variants.every((variant) => variant.weight === 0)) {
+    throw new Error('At least one variant must have a positive weight');
+  }
+}
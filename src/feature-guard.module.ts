@@ -0,0 +1,205 @@
+import { DynamicModule, Module, Provider } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { DefaultFeatureContextResolver } from './feature-context-resolvers';
+import { FeatureGuardStore } from './feature-flag-cache.interface';
+import {
+  FEATURE_CONTEXT_RESOLVER,
+  FEATURE_EXPOSURE_LISTENER,
+  FEATURE_GUARD_OPTIONS,
+  FEATURE_GUARD_REFLECTOR,
+  FEATURE_GUARD_STORE,
+  FeatureFlagDeniedBehavior,
+} from './feature-flag.constants';
+import {
+  FeatureGuardModuleAsyncOptions,
+  FeatureGuardModuleOptions,
+} from './feature-flag.interfaces';
+import { FeatureGuard } from './feature-guard';
+
+/**
+ * Methods every store passed to the module must implement.
+ */
+const REQUIRED_STORE_METHODS: Array<keyof FeatureGuardStore> = [
+  'setFeatureFlag',
+  'getFeature',
+  'hasFeatureFlag',
+];
+
+/**
+ * Validates module options and fails fast at bootstrap instead of at the first guarded request.
+ *
+ * @param {FeatureGuardModuleOptions} options - The options to validate
+ * @returns {FeatureGuardModuleOptions} The same options when valid
+ *
+ * @throws {Error} If the options or the store are missing, the store is incomplete, or `onDenied`,
+ *   `contextResolver` or `exposureListener` is invalid
+ */
+function validateOptions<T extends Partial<FeatureGuardModuleOptions>>(options: T): T {
+  if (!options || typeof options !== 'object') {
+    throw new Error('FeatureGuardModule: options must be an object');
+  }
+
+  const { store } = options;
+  if (!store || typeof store !== 'object') {
+    throw new Error('FeatureGuardModule: a "store" implementing FeatureGuardStore is required');
+  }
+
+  const missing = REQUIRED_STORE_METHODS.filter(
+    (method) => typeof (store as unknown as Record<string, unknown>)[method] !== 'function',
+  );
+  if (missing.length > 0) {
+    throw new Error(
+      `FeatureGuardModule: "store" does not implement FeatureGuardStore (missing: ${missing.join(
+        ', ',
+      )})`,
+    );
+  }
+
+  const { onDenied } = options;
+  const isValidOnDenied =
+    onDenied === undefined ||
+    typeof onDenied === 'function' ||
+    Object.values(FeatureFlagDeniedBehavior).includes(onDenied as FeatureFlagDeniedBehavior) ||
+    (typeof onDenied === 'object' && typeof onDenied?.redirect === 'string');
+  if (!isValidOnDenied) {
+    throw new Error(
+      'FeatureGuardModule: "onDenied" must be a FeatureFlagDeniedBehavior, a { redirect } object or a function',
+    );
+  }
+
+  const { contextResolver } = options;
+  if (contextResolver !== undefined && typeof contextResolver?.resolve !== 'function') {
+    throw new Error('FeatureGuardModule: "contextResolver" must implement FeatureContextResolver');
+  }
+
+  const { exposureListener } = options;
+  if (exposureListener !== undefined && typeof exposureListener?.onExposure !== 'function') {
+    throw new Error(
+      'FeatureGuardModule: "exposureListener" must implement FeatureExposureListener',
+    );
+  }
+
+  return options;
+}
+
+/**
+ * Providers shared by `forRoot` and `forRootAsync`, all derived from the options token.
+ */
+const featureGuardProviders: Provider[] = [
+  {
+    provide: FEATURE_GUARD_STORE,
+    useFactory: (options: FeatureGuardModuleOptions) => options.store,
+    inject: [FEATURE_GUARD_OPTIONS],
+  },
+  {
+    provide: FEATURE_CONTEXT_RESOLVER,
+    useFactory: (options: FeatureGuardModuleOptions) =>
+      options.contextResolver ?? new DefaultFeatureContextResolver(),
+    inject: [FEATURE_GUARD_OPTIONS],
+  },
+  {
+    provide: FEATURE_EXPOSURE_LISTENER,
+    useFactory: (options: FeatureGuardModuleOptions) => options.exposureListener ?? null,
+    inject: [FEATURE_GUARD_OPTIONS],
+  },
+  {
+    provide: FEATURE_GUARD_REFLECTOR,
+    useExisting: Reflector,
+  },
+  FeatureGuard,
+];
+
+const featureGuardExports = [
+  FEATURE_GUARD_OPTIONS,
+  FEATURE_GUARD_STORE,
+  FEATURE_CONTEXT_RESOLVER,
+  FEATURE_EXPOSURE_LISTENER,
+  FEATURE_GUARD_REFLECTOR,
+  FeatureGuard,
+];
+
+/**
+ * Dynamic module wiring the FeatureGuard, its store, the context resolver, the exposure listener
+ * and the reflector alias.
+ *
+ * Replaces the hand-written provider block every consumer used to maintain. Both registration
+ * methods validate the options when the application bootstraps.
+ *
+ * @class FeatureGuardModule
+ *
+ * @example
+ * ```typescript
+ * // Static configuration
+ * @Module({
+ *   imports: [FeatureGuardModule.forRoot({ store: new RedisFeatureFlagCache(redis), isGlobal: true })],
+ * })
+ * export class AppModule {}
+ *
+ * // Configuration resolved from other providers
+ * @Module({
+ *   imports: [
+ *     FeatureGuardModule.forRootAsync({
+ *       imports: [ConfigModule],
+ *       inject: [ConfigService],
+ *       useFactory: (config: ConfigService) => ({
+ *         store: new RedisFeatureFlagCache(new Redis(config.get('REDIS_URL'))),
+ *       }),
+ *     }),
+ *   ],
+ * })
+ * export class AppModule {}
+ * ```
+ */
+@Module({})
+export class FeatureGuardModule {
+  /**
+   * Registers the module with static options.
+   *
+   * @param {FeatureGuardModuleOptions} options - The module configuration
+   * @returns {DynamicModule} The configured module
+   *
+   * @throws {Error} If the options are invalid
+   */
+  static forRoot(options: FeatureGuardModuleOptions): DynamicModule {
+    validateOptions(options);
+
+    return {
+      module: FeatureGuardModule,
+      global: options.isGlobal === true,
+      providers: [{ provide: FEATURE_GUARD_OPTIONS, useValue: options }, ...featureGuardProviders],
+      exports: featureGuardExports,
+    };
+  }
+
+  /**
+   * Registers the module with options resolved by a factory at bootstrap.
+   *
+   * @param {FeatureGuardModuleAsyncOptions} options - The async module configuration
+   * @returns {DynamicModule} The configured module
+   *
+   * @throws {Error} If `useFactory` is missing, or (at bootstrap) if the resolved options are invalid
+   */
+  static forRootAsync(options: FeatureGuardModuleAsyncOptions): DynamicModule {
+    if (typeof options?.useFactory !== 'function') {
+      throw new Error('FeatureGuardModule: forRootAsync requires a "useFactory" function');
+    }
+
+    return {
+      module: FeatureGuardModule,
+      global: options.isGlobal === true,
+      imports: options.imports ?? [],
+      providers: [
+        {
+          provide: FEATURE_GUARD_OPTIONS,
+          useFactory: async (...args: unknown[]) => ({
+            ...validateOptions(await options.useFactory(...args)),
+            isGlobal: options.isGlobal,
+          }),
+          inject: options.inject ?? [],
+        },
+        ...featureGuardProviders,
+      ],
+      exports: featureGuardExports,
+    };
+  }
+}
@@ -2,43 +2,173 @@ import {
   applyDecorators,
   CanActivate,
   ExecutionContext,
+  HttpException,
   Inject,
   Injectable,
+  Logger,
+  NotFoundException,
+  Optional,
   SetMetadata,
   UseGuards,
 } from '@nestjs/common';
+import { loadPackage } from '@nestjs/common/utils/load-package.util';
 import { Reflector } from '@nestjs/core';
-import { FeatureGuardStore } from './feature-flag-cache.interface';
 import {
+  FeatureFlagEvaluation,
+  FeatureFlagVariant,
+  FeatureGuardStore,
+} from './feature-flag-cache.interface';
+import { FeatureContextResolver } from './feature-context-resolver.interface';
+import { FeatureExposure, FeatureExposureListener } from './feature-exposure-listener.interface';
+import { DefaultFeatureContextResolver } from './feature-context-resolvers';
+import { getFeatureFlagsHolder } from './feature-execution-context';
+import {
+  FEATURE_CONTEXT_RESOLVER,
+  FEATURE_EXPOSURE_LISTENER,
+  FEATURE_FLAG_EXPRESSION_KEY,
   FEATURE_FLAG_KEY,
   FEATURE_FLAG_OPTIONS_KEY,
+  FEATURE_GUARD_OPTIONS,
   FEATURE_GUARD_REFLECTOR,
   FEATURE_GUARD_STORE,
+  FeatureFlagDeniedBehavior,
+  FeatureFlagMergeStrategy,
   FeatureFlagScope,
 } from './feature-flag.constants';
-import { FeatureFlagOptions } from './feature-flag.interfaces';
+import {
+  FeatureDisabledException,
+  FeatureRedirectException,
+  FeatureUserMissingException,
+} from './feature-flag.exceptions';
+import {
+  evaluateFeatureFlagExpression,
+  FeatureFlagExpression,
+  parseFeatureFlagExpression,
+} from './feature-flag.expression';
+import {
+  FeatureFlagDenial,
+  FeatureFlagDenialKind,
+  FeatureFlagDeniedHandler,
+  FeatureFlagOptions,
+  FeatureGuardModuleOptions,
+} from './feature-flag.interfaces';
 
 /**
  * Interface representing the request object with feature flag capabilities.
  * This interface extends the standard HTTP request to include feature flag context.
  *
+ * The `__user_id`, `__tenant_id`, `__is_admin` and `__user_attributes` fields are read by the
+ * DefaultFeatureContextResolver; provide another FeatureContextResolver to read the identity
+ * from elsewhere (e.g. `req.user`). `__feature_flags` is always populated by the FeatureGuard;
+ * in GraphQL resolvers it is written onto the GraphQL context object instead of the request.
+ *
  * @interface FeatureGuardRequest
  * @property {string} [__user_id] - Optional user identifier for feature flag evaluation
+ * @property {string} [__tenant_id] - Optional tenant (customer account) identifier for tenant-targeted flags
  * @property {boolean} [__is_admin] - Optional flag indicating if the user has admin privileges (bypasses all feature flags)
+ * @property {Record<string, unknown>} [__user_attributes] - Optional user attributes tested by flag targeting rules
  * @property {Record<string, boolean>} [__feature_flags] - Optional map of feature flags and their evaluated states for the current request
+ * @property {Record<string, FeatureFlagVariant>} [__feature_variants] - Optional map of multivariate flags and the variants assigned for the current request
  *
  * @example
  * ```typescript
  * // In your middleware or auth guard
  * req.__user_id = user.id;
+ * req.__tenant_id = user.accountId;
  * req.__is_admin = user.isAdmin;
  * req.__feature_flags = {}; // Will be populated by FeatureGuard
  * ```
  */
 export interface FeatureGuardRequest {
   __user_id?: string;
+  __tenant_id?: string;
   __is_admin?: boolean;
+  __user_attributes?: Record<string, unknown>;
   __feature_flags?: Record<string, boolean>;
+  __feature_variants?: Record<string, FeatureFlagVariant>;
+}
+
+/**
+ * Flags, expression and options declared by the @FeatureFlag decorator of one level (controller
+ * or handler). The `scope`, `mode`, `none` and `variant` options only apply to the flags of the
+ * level declaring them.
+ */
+interface FeatureFlagRequirement {
+  flags: string[];
+  expression?: FeatureFlagExpression;
+  options?: FeatureFlagOptions;
+}
+
+/**
+ * Feature flag metadata that applies to a handler once controller and handler levels are combined.
+ *
+ * @property {FeatureFlagRequirement[]} requirements - The levels to check, each on its own
+ * @property {FeatureFlagOptions} [options] - The options answering a denial (`onDenied`), handler
+ *   options taking precedence over controller options
+ */
+interface FeatureFlagMetadata {
+  requirements: FeatureFlagRequirement[];
+  options?: FeatureFlagOptions;
+}
+
+/**
+ * Key of the access decisions recorded on the flags holder, per handler. A symbol, so that a
+ * message payload can never carry a decision of its own.
+ */
+const FEATURE_DECISIONS = Symbol('featureDecisions');
+
+/**
+ * Returns every flag a requirement references: required flags, `none` flags and the flags of its
+ * expression.
+ *
+ * @param {FeatureFlagRequirement} requirement - The requirement
+ * @returns {string[]} The referenced flags
+ */
+function getReferencedFlags({ flags, expression, options }: FeatureFlagRequirement): string[] {
+  return [...flags, ...(options?.none ?? []), ...(expression?.flags ?? [])];
+}
+
+/**
+ * Returns the access decisions recorded on a flags holder, keyed by handler so that the resolvers
+ * sharing a GraphQL context each get their own.
+ *
+ * @param {object} holder - The object holding the request's flag states
+ * @returns {Map<Function, Promise<boolean>>} The decisions, created on first use
+ */
+function getFeatureDecisions(holder: object): Map<Function, Promise<boolean>> {
+  const recorded = holder as { [FEATURE_DECISIONS]?: Map<Function, Promise<boolean>> };
+
+  // Not enumerable, so that copies of the request (e.g. `{ ...request }`) don't share decisions
+  if (!recorded[FEATURE_DECISIONS]) {
+    Object.defineProperty(holder, FEATURE_DECISIONS, { value: new Map() });
+  }
+  return recorded[FEATURE_DECISIONS]!;
+}
+
+/**
+ * Creates the exception reporting a denial to a WebSocket client or a microservice caller.
+ *
+ * The transport packages are loaded lazily so that HTTP-only applications don't need them.
+ *
+ * @param {'ws' | 'rpc'} type - The execution context type
+ * @param {string | object} error - The error payload sent to the peer
+ * @returns {Error} A `WsException` or an `RpcException`
+ */
+function createMessageDenialException(
+  type: 'ws' | 'rpc',
+  error: string | object = 'Forbidden',
+): Error {
+  if (type === 'ws') {
+    const { WsException } = loadPackage('@nestjs/websockets', 'FeatureGuard', () =>
+      require('@nestjs/websockets'),
+    );
+    return new WsException(error);
+  }
+
+  const { RpcException } = loadPackage('@nestjs/microservices', 'FeatureGuard', () =>
+    require('@nestjs/microservices'),
+  );
+  return new RpcException(error);
 }
 
 /**
@@ -72,11 +202,22 @@ export interface FeatureGuardRequest {
  */
 @Injectable()
 export class FeatureGuard implements CanActivate {
+  private readonly logger = new Logger(FeatureGuard.name);
+
+  /**
+   * Flags already reported to the exposure listener, per request (or GraphQL context, or message).
+   * The guard runs once per `@FeatureFlag` decorator, so a flag can be evaluated several times.
+   */
+  private readonly exposedFlags = new WeakMap<object, Set<string>>();
+
   /**
    * Creates an instance of FeatureGuard.
    *
    * @param {FeatureGuardStore} store - The feature flag store implementation (Redis, Database, etc.)
    * @param {Reflector} reflector - NestJS reflector for metadata access
+   * @param {FeatureGuardModuleOptions} [moduleOptions] - Module-level defaults (e.g. `onDenied`), provided by FeatureGuardModule
+   * @param {FeatureContextResolver} [contextResolver] - Extracts the user identity (defaults to the `__user_id` / `__is_admin` request fields)
+   * @param {FeatureExposureListener} [exposureListener] - Notified of every flag evaluated for a user
    *
    * @example
    * ```typescript
@@ -87,23 +228,39 @@ export class FeatureGuard implements CanActivate {
   constructor(
     @Inject(FEATURE_GUARD_STORE) private readonly store: FeatureGuardStore,
     @Inject(FEATURE_GUARD_REFLECTOR) private readonly reflector: Reflector,
+    @Optional()
+    @Inject(FEATURE_GUARD_OPTIONS)
+    private readonly moduleOptions?: Pick<FeatureGuardModuleOptions, 'onDenied'>,
+    @Optional()
+    @Inject(FEATURE_CONTEXT_RESOLVER)
+    private readonly contextResolver: FeatureContextResolver = new DefaultFeatureContextResolver(),
+    @Optional()
+    @Inject(FEATURE_EXPOSURE_LISTENER)
+    private readonly exposureListener?: FeatureExposureListener | null,
   ) {}
 
   /**
    * Determines if a request can proceed based on feature flag configuration.
    *
    * This method implements the core feature flag evaluation logic:
-   * 1. Extracts user context from the request
+   * 1. Resolves the user context through the FeatureContextResolver
    * 2. Checks if user is admin (grants full access)
    * 3. Retrieves feature flag metadata from decorator
    * 4. Evaluates feature flag state from store
    * 5. Sets feature flag state on request object
-   * 6. Returns access decision based on scope and flag state
+   * 6. Returns access decision based on scope, mode and flag state, applying the `onDenied`
+   *    behavior (route option, then module default) when access is denied
+   *
+   * In CONTROLLER scope, `mode: 'all'` (default) requires every flag while `mode: 'any'` requires
+   * at least one; every flag listed in `none` must be off for the user. When both the controller
+   * and the handler are decorated, each level is checked against its own options, and a
+   * CONTROLLER-scope level denies whatever the other level declares.
    *
    * @param {ExecutionContext} context - The NestJS execution context
    * @returns {Promise<boolean>} True if the request can proceed, false otherwise
    *
    * @throws {Error} If the store implementation fails or throws an error
+   * @throws {HttpException} If access is denied and `onDenied` is configured to throw
    *
    * @example
    * ```typescript
@@ -117,55 +274,401 @@ export class FeatureGuard implements CanActivate {
    * @FeatureFlag('my_feature') // scope defaults to CONTROLLER
    * ```
    */
-  async canActivate(context: ExecutionContext): Promise<boolean> {
-    const request = context.switchToHttp().getRequest<FeatureGuardRequest>();
-    const userId = request.__user_id;
-    const isAdmin = request.__is_admin;
+  canActivate(context: ExecutionContext): Promise<boolean> {
+    // @FeatureFlag on both a controller and its handler, or a global FeatureGuard next to a
+    // decorated route, runs the guard several times per call: the later runs reuse the decision
+    // recorded on the request (or GraphQL context, or message) instead of evaluating flags again
+    const decisions = getFeatureDecisions(getFeatureFlagsHolder(context));
+    const handler = context.getHandler();
 
-    // Deny access if no user identification is provided
-    if (userId === undefined && isAdmin !== true) {
-      return false;
+    let decision = decisions.get(handler);
+    if (!decision) {
+      decision = this.decide(context);
+      decisions.set(handler, decision);
     }
+    return decision;
+  }
+
+  /**
+   * Evaluates the feature flags of the current handler and decides on access (see `canActivate`).
+   *
+   * @param {ExecutionContext} context - The NestJS execution context
+   * @returns {Promise<boolean>} True if the request can proceed, false otherwise
+   */
+  private async decide(context: ExecutionContext): Promise<boolean> {
+    const { userId, tenantId, isAdmin, attributes } = await this.contextResolver.resolve(context);
 
     // Grant full access to admin users (admin bypass) - must be strictly boolean true
     if (isAdmin === true) {
       return true;
     }
 
-    const flags = this.reflector.get<string[]>(FEATURE_FLAG_KEY, context.getHandler());
-    const options = this.reflector.get<FeatureFlagOptions | undefined>(
-      FEATURE_FLAG_OPTIONS_KEY,
-      context.getHandler(),
-    );
+    const { requirements, options } = this.getFeatureFlagMetadata(context);
+
+    // Every referenced flag, including those only used by expressions or `none`, deduplicated so
+    // a flag declared on both levels is evaluated once
+    const referencedFlags = [...new Set(requirements.flatMap(getReferencedFlags))];
+
+    // Deny access if no user identification is provided
+    if (userId === undefined) {
+      return this.deny({ reason: 'unidentified', flags: referencedFlags, context }, options);
+    }
+
+    // A route without flags grants nothing
+    if (referencedFlags.length === 0) {
+      return this.deny({ reason: 'disabled', flags: [], context }, options);
+    }
+
+    // Prefetch every referenced flag in one batch
+    const evaluations = await this.evaluateFlags(referencedFlags, userId, attributes, tenantId);
+
+    const flagStates = Object.entries(evaluations).reduce((acc, [flag, { enabled }]) => {
+      acc[flag] = enabled;
+      return acc;
+    }, {} as Record<string, boolean>);
+
+    const flagVariants = Object.entries(evaluations).reduce((acc, [flag, { variant }]) => {
+      if (variant) acc[flag] = variant;
+      return acc;
+    }, {} as Record<string, FeatureFlagVariant>);
 
-    if (flags === undefined || flags.length === 0) return false;
+    // Always set the feature flag value on the request (or GraphQL context) for business logic use
+    const holder = getFeatureFlagsHolder<FeatureGuardRequest>(context);
+
+    // Message payloads are written by the sender: replace the flag states they carry, never merge
+    const type = context.getType<string>();
+    const isMessageContext = type === 'ws' || type === 'rpc';
+    const previous: Partial<FeatureGuardRequest> = isMessageContext ? {} : holder;
+
+    holder.__feature_flags = {
+      ...previous.__feature_flags,
+      ...flagStates,
+    };
+
+    if (isMessageContext || Object.keys(flagVariants).length > 0) {
+      holder.__feature_variants = {
+        ...previous.__feature_variants,
+        ...flagVariants,
+      };
+    }
+
+    this.reportExposures(context, holder, userId, flagStates, flagVariants);
+
+    // SERVICE-scope levels only record flag states; every other level must be satisfied
+    const failures = requirements
+      .filter((requirement) => requirement.options?.scope !== FeatureFlagScope.SERVICE)
+      .flatMap((requirement) => this.getFailures(requirement, flagStates, flagVariants));
+
+    if (failures.length > 0) {
+      const kinds = new Set(failures.map((failure) => failure.kind));
+      return this.deny(
+        {
+          reason: 'disabled',
+          flags: [...new Set(failures.flatMap((failure) => failure.flags))],
+          kind: kinds.size === 1 ? failures[0].kind : undefined,
+          context,
+        },
+        options,
+      );
+    }
+
+    return true;
+  }
 
-    const featureFlags = await Promise.all(
+  /**
+   * Checks one level of @FeatureFlag metadata against the evaluated flags.
+   *
+   * @param {FeatureFlagRequirement} requirement - The flags, expression and options of the level
+   * @param {Record<string, boolean>} flagStates - The evaluated flag states
+   * @param {Record<string, FeatureFlagVariant>} flagVariants - The assigned variants
+   * @returns The failed requirements with the flags causing them, empty if the level is satisfied
+   */
+  private getFailures(
+    { flags, expression, options }: FeatureFlagRequirement,
+    flagStates: Record<string, boolean>,
+    flagVariants: Record<string, FeatureFlagVariant>,
+  ): { kind: FeatureFlagDenialKind; flags: string[] }[] {
+    // With the variant option, required flags also need the user to be assigned that variant
+    const isGranted = (flag: string) =>
+      flagStates[flag] &&
+      (options?.variant === undefined || flagVariants[flag]?.name === options.variant);
+
+    const requiredSatisfied =
+      flags.length === 0 ||
+      (options?.mode === 'any' ? flags.some(isGranted) : flags.every(isGranted));
+    const failures: { kind: FeatureFlagDenialKind; flags: string[] }[] = [];
+
+    if (!requiredSatisfied) {
+      const deniedFlags = flags.filter((flag) => !isGranted(flag));
+      // Enabled flags only fail on the variant option
+      const kind = deniedFlags.every((flag) => flagStates[flag]) ? 'variant' : 'required';
+      failures.push({ kind, flags: deniedFlags });
+    }
+
+    const enabledExcludedFlags = (options?.none ?? []).filter((flag) => flagStates[flag]);
+    if (enabledExcludedFlags.length > 0) {
+      failures.push({ kind: 'excluded', flags: enabledExcludedFlags });
+    }
+
+    if (expression && !evaluateFeatureFlagExpression(expression.ast, flagStates)) {
+      failures.push({ kind: 'expression', flags: expression.flags });
+    }
+
+    return failures;
+  }
+
+  /**
+   * Evaluates the referenced flags for a user.
+   *
+   * Uses the store's `evaluateFlags` batch method when available; otherwise falls back to
+   * `getFeature`, `hasFeatureFlag` and `getFeatureVariant` for each flag.
+   *
+   * @param {string[]} flags - The feature flag identifiers
+   * @param {string} userId - The user identifier
+   * @param {Record<string, unknown>} [attributes] - The user attributes tested by targeting rules
+   * @param {string} [tenantId] - The tenant the user belongs to
+   * @returns {Promise<Record<string, FeatureFlagEvaluation>>} The evaluation of every flag
+   */
+  private async evaluateFlags(
+    flags: string[],
+    userId: string,
+    attributes?: Record<string, unknown>,
+    tenantId?: string,
+  ): Promise<Record<string, FeatureFlagEvaluation>> {
+    if (typeof this.store.evaluateFlags === 'function') {
+      const evaluations = await this.store.evaluateFlags(flags, { userId, attributes, tenantId });
+
+      // Flags a store leaves out are treated as disabled
+      return Object.fromEntries(
+        flags.map((flag) => [flag, evaluations?.[flag] ?? { enabled: false, variant: null }]),
+      );
+    }
+
+    const evaluations = await Promise.all(
       flags.map(async (flag) => {
         const feature = await this.store.getFeature(flag);
-        const hasFlag =
-          userId !== undefined ? await this.store.hasFeatureFlag(flag, userId) : false;
-        return { flag, feature, hasFlag };
+        const hasFlag = await this.store.hasFeatureFlag(flag, userId, attributes, tenantId);
+        const enabled = feature?.enabled === true && hasFlag;
+
+        // Only multivariate flags the user has access to get an assigned variant
+        const variant =
+          enabled && feature.variants?.length && typeof this.store.getFeatureVariant === 'function'
+            ? await this.store.getFeatureVariant(flag, userId, attributes, tenantId)
+            : null;
+
+        return [flag, { enabled, variant }] as const;
       }),
     );
 
-    // Always set the feature flag value on the request object for business logic use
-    request.__feature_flags = {
-      ...request.__feature_flags,
-      ...featureFlags.reduce((acc, { flag, feature, hasFlag }) => {
-        acc[flag] = feature?.enabled === true && hasFlag;
-        return acc;
-      }, {} as Record<string, boolean>),
-    };
+    return Object.fromEntries(evaluations);
+  }
 
-    // If not SERVICE scope, also check access (CONTROLLER scope blocks access)
-    if (options?.scope !== FeatureFlagScope.SERVICE) {
-      if (featureFlags.some(({ feature, hasFlag }) => !feature?.enabled || !hasFlag)) {
-        return false;
+  /**
+   * Reports the flags evaluated for a user to the exposure listener, once per flag and request.
+   *
+   * The listener is not awaited and its errors are logged, so it never delays or fails a request.
+   *
+   * @param {ExecutionContext} context - The NestJS execution context
+   * @param {object} holder - The object holding the request's flag states, used to de-duplicate
+   * @param {string} userId - The user the flags were evaluated for
+   * @param {Record<string, boolean>} flagStates - The evaluated flag states
+   * @param {Record<string, FeatureFlagVariant>} flagVariants - The assigned variants
+   */
+  private reportExposures(
+    context: ExecutionContext,
+    holder: object,
+    userId: string,
+    flagStates: Record<string, boolean>,
+    flagVariants: Record<string, FeatureFlagVariant>,
+  ): void {
+    const listener = this.exposureListener;
+    if (!listener) return;
+
+    let exposed = this.exposedFlags.get(holder);
+    if (!exposed) {
+      exposed = new Set();
+      this.exposedFlags.set(holder, exposed);
+    }
+
+    const route = [context.getClass()?.name, context.getHandler()?.name].filter(Boolean).join('.');
+    const timestamp = new Date();
+
+    for (const [flag, enabled] of Object.entries(flagStates)) {
+      if (exposed.has(flag)) continue;
+      exposed.add(flag);
+
+      const exposure: FeatureExposure = {
+        flag,
+        userId,
+        enabled,
+        variant: flagVariants[flag]?.name,
+        route,
+        timestamp,
+      };
+
+      Promise.resolve()
+        .then(() => listener.onExposure(exposure))
+        .catch((error) => this.logger.error(`Exposure listener failed for "${flag}": ${error}`));
+    }
+  }
+
+  /**
+   * Applies the configured denial behavior to a denied request.
+   *
+   * The route-level `onDenied` option takes precedence over the module-level default. Without
+   * either, the guard returns `false` and NestJS answers with a generic 403.
+   *
+   * In WebSocket gateways and microservice handlers the denial is always thrown, as a
+   * `WsException` or `RpcException` carrying the body of the HTTP exception the behavior maps to.
+   *
+   * @param {FeatureFlagDenial} denial - Why and on which flags the request was denied
+   * @param {FeatureFlagOptions} [options] - The effective decorator options
+   * @returns {boolean} Always `false` when the behavior doesn't throw
+   *
+   * @throws {NotFoundException} With the NOT_FOUND behavior
+   * @throws {FeatureDisabledException} With the EXCEPTION behavior when flags are not satisfied
+   * @throws {FeatureUserMissingException} With the EXCEPTION behavior when the user is not identified
+   * @throws {FeatureRedirectException} With the redirect behavior
+   * @throws {WsException} In `ws` contexts, unless a function behavior returns nothing
+   * @throws {RpcException} In `rpc` contexts, unless a function behavior returns nothing
+   */
+  private deny(denial: FeatureFlagDenial, options?: FeatureFlagOptions): false {
+    const onDenied: FeatureFlagDeniedHandler =
+      options?.onDenied ?? this.moduleOptions?.onDenied ?? FeatureFlagDeniedBehavior.FORBIDDEN;
+
+    if (typeof onDenied === 'function') {
+      const error = onDenied(denial);
+      if (error instanceof Error) throw error;
+      return false;
+    }
+
+    const type = denial.context.getType<string>();
+    const isMessageContext = type === 'ws' || type === 'rpc';
+
+    // Gateways and message handlers have no status code to fall back on, so FORBIDDEN reports
+    // the denied flags like EXCEPTION does
+    const exception = this.createDenialException(
+      denial,
+      isMessageContext && onDenied === FeatureFlagDeniedBehavior.FORBIDDEN
+        ? FeatureFlagDeniedBehavior.EXCEPTION
+        : onDenied,
+    );
+
+    if (isMessageContext) {
+      throw createMessageDenialException(type, exception?.getResponse());
+    }
+
+    if (exception instanceof FeatureRedirectException) {
+      const response = denial.context.switchToHttp().getResponse();
+
+      // Express exposes both header() and setHeader(), Fastify replies only header()
+      if (typeof response?.header === 'function') {
+        response.header('Location', exception.url);
+      } else if (typeof response?.setHeader === 'function') {
+        response.setHeader('Location', exception.url);
       }
     }
 
-    return true;
+    if (exception) throw exception;
+    return false;
+  }
+
+  /**
+   * Creates the HTTP exception matching a non-function denial behavior.
+   *
+   * @param {FeatureFlagDenial} denial - Why and on which flags the request was denied
+   * @param {FeatureFlagDeniedHandler} onDenied - The denial behavior
+   * @returns {HttpException | undefined} The exception, or `undefined` for the FORBIDDEN behavior
+   */
+  private createDenialException(
+    denial: FeatureFlagDenial,
+    onDenied: Exclude<FeatureFlagDeniedHandler, Function>,
+  ): HttpException | undefined {
+    if (typeof onDenied === 'object') {
+      return new FeatureRedirectException(onDenied.redirect, onDenied.statusCode);
+    }
+
+    switch (onDenied) {
+      case FeatureFlagDeniedBehavior.NOT_FOUND:
+        return new NotFoundException();
+      case FeatureFlagDeniedBehavior.EXCEPTION:
+        return denial.reason === 'unidentified'
+          ? new FeatureUserMissingException(denial.flags)
+          : new FeatureDisabledException(denial.flags, denial.kind);
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Resolves the feature flags, expressions and options that apply to the current handler.
+   *
+   * Metadata is read from both the handler and its controller class and combined according to
+   * the `mergeStrategy` option (handler options are consulted first, then controller options):
+   * - MERGE (default): both levels apply, each checked against its own options, so a handler
+   *   option (e.g. `scope` or `mode`) never loosens the controller requirement
+   * - OVERRIDE: the handler metadata is used when present, otherwise the controller metadata
+   *
+   * @param {ExecutionContext} context - The NestJS execution context
+   * @returns {FeatureFlagMetadata} The requirements to check and the options answering denials
+   */
+  private getFeatureFlagMetadata(context: ExecutionContext): FeatureFlagMetadata {
+    const handler = this.readFeatureFlagMetadata(context.getHandler());
+    const controller = this.readFeatureFlagMetadata(context.getClass());
+
+    const mergeStrategy =
+      handler.options?.mergeStrategy ??
+      controller.options?.mergeStrategy ??
+      FeatureFlagMergeStrategy.MERGE;
+
+    const isDeclared = (level: ReturnType<FeatureGuard['readFeatureFlagMetadata']>) =>
+      level.flags !== undefined || level.expression !== undefined;
+    const toRequirement = ({
+      flags,
+      expression,
+      options,
+    }: ReturnType<FeatureGuard['readFeatureFlagMetadata']>): FeatureFlagRequirement => ({
+      flags: flags ?? [],
+      expression,
+      options,
+    });
+
+    if (mergeStrategy === FeatureFlagMergeStrategy.OVERRIDE) {
+      const source = isDeclared(handler) ? handler : controller;
+      return { requirements: [toRequirement(source)], options: source.options };
+    }
+
+    return {
+      requirements: [controller, handler].filter(isDeclared).map(toRequirement),
+      options:
+        controller.options || handler.options
+          ? { ...controller.options, ...handler.options }
+          : undefined,
+    };
+  }
+
+  /**
+   * Reads the raw @FeatureFlag metadata declared on a single handler or controller.
+   *
+   * @param {Function} target - The handler or controller class
+   * @returns The declared flags, expression and options (each undefined when not declared)
+   */
+  private readFeatureFlagMetadata(target: Function): {
+    flags?: string[];
+    expression?: FeatureFlagExpression;
+    options?: FeatureFlagOptions;
+  } {
+    const expression = this.reflector.get<FeatureFlagExpression | undefined>(
+      FEATURE_FLAG_EXPRESSION_KEY,
+      target,
+    );
+
+    return {
+      flags: this.reflector.get<string[] | undefined>(FEATURE_FLAG_KEY, target),
+      // Only metadata produced by @FeatureFlag.when carries a parsed syntax tree
+      expression: expression?.ast !== undefined ? expression : undefined,
+      options: this.reflector.get<FeatureFlagOptions | undefined>(FEATURE_FLAG_OPTIONS_KEY, target),
+    };
   }
 
   /**
@@ -174,8 +677,9 @@ export class FeatureGuard implements CanActivate {
    * This static method provides a convenient way to check feature flag states
    * within your services, controllers, or other business logic components.
    * The feature flag state must have been previously set by the FeatureGuard.
+   * In GraphQL resolvers, pass the GraphQL context (`@Context()`) instead of the request.
    *
-   * @param {FeatureGuardRequest} request - The request object containing feature flags
+   * @param {FeatureGuardRequest} request - The request object (or GraphQL context) containing feature flags
    * @param {string} flag - The feature flag identifier to check
    * @returns {boolean} True if the feature is enabled for the current request, false otherwise
    *
@@ -219,21 +723,57 @@ export class FeatureGuard implements CanActivate {
   static isFeatureEnabled(request: FeatureGuardRequest, flag: string): boolean {
     return request.__feature_flags?.[flag] === true;
   }
+
+  /**
+   * Utility method to read the variant of a multivariate feature flag in business logic.
+   *
+   * The variant must have been previously assigned by the FeatureGuard, which happens for every
+   * multivariate flag the route references and the user has access to.
+   *
+   * @template T - The payload type
+   * @param {FeatureGuardRequest} request - The request object (or GraphQL context) containing feature variants
+   * @param {string} flag - The feature flag identifier
+   * @returns {FeatureFlagVariant<T> | undefined} The assigned variant, or undefined if none
+   *
+   * @example
+   * ```typescript
+   * @Get('pricing')
+   * @FeatureFlag('pricing', { scope: FeatureFlagScope.SERVICE })
+   * getPricing(@Req() request: FeatureGuardRequest) {
+   *   const variant = FeatureGuard.getFeatureVariant<{ price: number }>(request, 'pricing');
+   *   return { price: variant?.payload?.price ?? DEFAULT_PRICE };
+   * }
+   * ```
+   */
+  static getFeatureVariant<T = unknown>(
+    request: FeatureGuardRequest,
+    flag: string,
+  ): FeatureFlagVariant<T> | undefined {
+    return request.__feature_variants?.[flag] as FeatureFlagVariant<T> | undefined;
+  }
 }
 
 /**
- * Decorator for enabling feature flag protection on routes or methods.
+ * Decorator for enabling feature flag protection on controllers, routes or methods.
  *
- * This decorator applies the FeatureGuard to a method and configures it with
+ * This decorator applies the FeatureGuard to a controller class or a method and configures it with
  * the specified feature flag(s) and options. It supports two main scopes:
  *
- * - **CONTROLLER** (default): Blocks access if any feature is disabled
+ * - **CONTROLLER** (default): Blocks access if any feature is disabled (or, with `mode: 'any'`,
+ *   if all of them are), or if any feature listed in `options.none` is enabled
  * - **SERVICE**: Always allows access but sets feature flag state for business logic
  *
+ * When used on both a controller and one of its handlers, the metadata is combined according to
+ * `options.mergeStrategy` (MERGE by default: the handler requires the controller flags too, and
+ * each decorator's options only apply to its own flags).
+ *
  * @param {string | string[]} flags - The feature flag identifier(s)
  * @param {FeatureFlagOptions} [options] - Optional configuration for the feature flag
  * @param {FeatureFlagScope} [options.scope] - The scope of the feature flag (CONTROLLER or SERVICE)
- * @returns {MethodDecorator} A method decorator that applies the feature guard
+ * @param {FeatureFlagMode} [options.mode] - Whether all ('all', default) or any ('any') of the flags are required
+ * @param {string[]} [options.none] - Flags that must be disabled for the user
+ * @param {FeatureFlagMergeStrategy} [options.mergeStrategy] - How controller and handler metadata are combined
+ * @returns {ClassDecorator & MethodDecorator} A decorator that applies the feature guard
  *
  * @example
  * ```typescript
@@ -246,6 +786,18 @@ export class FeatureGuard implements CanActivate {
  *     return { message: 'Welcome to beta dashboard!' };
  *   }
  *
+ *   @Get('search')
+ *   @FeatureFlag(['beta_access', 'search_preview'], { mode: 'any' }) // Either flag grants access
+ *   search() {
+ *     return { message: 'Search results' };
+ *   }
+ *
+ *   @Get('checkout')
+ *   @FeatureFlag([], { none: ['new_checkout'] }) // Only while new_checkout is OFF
+ *   legacyCheckout() {
+ *     return { message: 'Legacy checkout' };
+ *   }
+ *
  *   @Post('feedback')
  *   @FeatureFlag(['beta_access', 'feedback_system']) // Multiple flags in single decorator
  *   submitFeedback(@Body() feedback: any) {
@@ -261,6 +813,18 @@ export class FeatureGuard implements CanActivate {
  *   }
  * }
  *
+ * // Gate an entire controller once
+ * @Controller('beta-v2')
+ * @FeatureFlag('beta_access')
+ * export class BetaV2Controller {
+ *   @Get('dashboard') // requires beta_access
+ *   getDashboard() {}
+ *
+ *   @Get('reports')
+ *   @FeatureFlag('beta_reports') // requires beta_access AND beta_reports
+ *   getReports() {}
+ * }
+ *
  * // Service-level feature detection
  * @Controller('products')
  * export class ProductController {
@@ -321,7 +885,7 @@ export class FeatureGuard implements CanActivate {
 export function FeatureFlag(
   flags: string | string[],
   options?: FeatureFlagOptions,
-): MethodDecorator {
+): ClassDecorator & MethodDecorator {
   // Normalize to array for consistent handling
   const flagArray = Array.isArray(flags) ? flags : [flags];
 
@@ -331,3 +895,41 @@ export function FeatureFlag(
     UseGuards(FeatureGuard),
   );
 }
+
+/**
+ * Decorator gating a controller or route on a boolean feature flag expression.
+ *
+ * The expression is parsed when the decorator is applied, so a malformed expression throws while
+ * the application modules load instead of on the first request. Every flag it references is
+ * evaluated in one batch by the guard and reported in `request.__feature_flags`.
+ *
+ * Supported syntax: flag names, `!` (not), `&&` (and), `||` (or) and parentheses.
+ *
+ * @param {string} expression - The boolean expression, e.g. `new_ui && (beta_users || !region_eu_block)`
+ * @param {FeatureFlagOptions} [options] - Optional configuration (scope, mergeStrategy)
+ * @returns {ClassDecorator & MethodDecorator} A decorator that applies the feature guard
+ *
+ * @throws {FeatureFlagExpressionError} If the expression cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * @Controller('checkout')
+ * export class CheckoutController {
+ *   @Get()
+ *   @FeatureFlag.when('new_ui && (beta_users || !region_eu_block)')
+ *   getCheckout() {
+ *     return { message: 'New checkout' };
+ *   }
+ * }
+ * ```
+ */
+FeatureFlag.when = function when(
+  expression: string,
+  options?: FeatureFlagOptions,
+): ClassDecorator & MethodDecorator {
+  return applyDecorators(
+    SetMetadata(FEATURE_FLAG_EXPRESSION_KEY, parseFeatureFlagExpression(expression)),
+    SetMetadata(FEATURE_FLAG_OPTIONS_KEY, options),
+    UseGuards(FeatureGuard),
+  );
+};
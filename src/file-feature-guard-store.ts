@@ -0,0 +1,459 @@
+import { Logger, OnApplicationShutdown, OnModuleInit } from '@nestjs/common';
+import { loadPackage } from '@nestjs/common/utils/load-package.util';
+import { Stats, unwatchFile, watchFile } from 'fs';
+import { readFile } from 'fs/promises';
+import { extname } from 'path';
+import {
+  FeatureFlagEvaluation,
+  FeatureFlagEvaluationContext,
+  FeatureFlagInfo,
+  FeatureFlagSegment,
+  FeatureFlagTargetingRule,
+  FeatureFlagVariant,
+  FeatureGuardStore,
+  SetFeatureFlagOptions,
+} from './feature-flag-cache.interface';
+import { FeatureFlagClock } from './feature-flag.schedule';
+import { InMemoryFeatureGuardStore } from './in-memory-feature-guard-store';
+
+/**
+ * Feature flag as defined in a flag file. Schedule bounds are ISO 8601 dates or epoch
+ * milliseconds.
+ *
+ * @interface FeatureFlagFileDefinition
+ */
+export interface FeatureFlagFileDefinition
+  extends Omit<SetFeatureFlagOptions, 'flag' | 'enableAt' | 'disableAt'> {
+  enableAt?: string | number;
+  disableAt?: string | number;
+}
+
+/**
+ * User segment as defined in a flag file.
+ *
+ * @interface FeatureFlagFileSegment
+ */
+export interface FeatureFlagFileSegment {
+  userIds?: string[];
+  rules?: FeatureFlagTargetingRule[];
+}
+
+/**
+ * Contents of a flag file: flags and segments keyed by name.
+ *
+ * @interface FeatureFlagFile
+ * @property {Record<string, FeatureFlagFileDefinition>} [flags] - The feature flags
+ * @property {Record<string, FeatureFlagFileSegment>} [segments] - The user segments
+ */
+export interface FeatureFlagFile {
+  flags?: Record<string, FeatureFlagFileDefinition>;
+  segments?: Record<string, FeatureFlagFileSegment>;
+}
+
+/**
+ * Options for the file-backed feature flag store.
+ *
+ * @interface FileFeatureGuardStoreOptions
+ * @property {'json' | 'yaml'} [format] - The file format (default: from the file extension,
+ *   `.yaml` and `.yml` for YAML, JSON otherwise)
+ * @property {boolean} [watch=false] - Whether to reload the file when it changes
+ * @property {number} [watchInterval=1000] - How often the file is checked for changes, in
+ *   milliseconds
+ * @property {FeatureFlagClock} [clock] - Time source for flag schedules (default: system clock)
+ */
+export interface FileFeatureGuardStoreOptions {
+  format?: 'json' | 'yaml';
+  watch?: boolean;
+  watchInterval?: number;
+  clock?: FeatureFlagClock;
+}
+
+/**
+ * Error thrown when a flag file cannot be read, parsed or validated.
+ *
+ * @class FeatureFlagFileError
+ * @property {string} filePath - The path of the flag file
+ */
+export class FeatureFlagFileError extends Error {
+  constructor(
+    message: string,
+    readonly filePath: string,
+  ) {
+    super(`Invalid feature flag file "${filePath}": ${message}`);
+    this.name = 'FeatureFlagFileError';
+  }
+}
+
+const FLAG_FIELDS = new Set([
+  'enabled',
+  'userIds',
+  'tenantIds',
+  'rolloutPercentage',
+  'enableAt',
+  'disableAt',
+  'variants',
+  'rules',
+  'segments',
+  'excludedUserIds',
+  'excludedTenantIds',
+  'excludedSegments',
+]);
+
+const FLAG_ID_LIST_FIELDS = ['userIds', 'tenantIds', 'excludedUserIds', 'excludedTenantIds'];
+
+const SEGMENT_FIELDS = new Set(['userIds', 'rules']);
+
+/**
+ * Read-only FeatureGuardStore serving flags and segments defined in a JSON or YAML file, for
+ * deployments without Redis.
+ *
+ * The file is loaded on module init (or by calling `load()`): a missing or invalid file fails
+ * startup. With `watch`, the file is reloaded whenever it changes; the new definitions are
+ * validated in full before they replace the previous ones in a single swap, so a check never sees
+ * half a file, and an invalid file is logged and ignored, keeping the last good configuration.
+ *
+ * Flags are evaluated by an InMemoryFeatureGuardStore, with the same semantics as the Redis store.
+ * Change flags by editing the file: `setFeatureFlag` throws.
+ *
+ * YAML files require the `yaml` package.
+ *
+ * @class FileFeatureGuardStore
+ * @implements {FeatureGuardStore}
+ *
+ * @example
+ * ```yaml
+ * # feature-flags.yaml
+ * flags:
+ *   beta_dashboard:
+ *     enabled: true
+ *     userIds: [user123, user456]
+ *   new_editor:
+ *     enabled: true
+ *     segments: [internal_staff]
+ *     disableAt: 2026-01-01T00:00:00Z
+ * segments:
+ *   internal_staff:
+ *     rules:
+ *       - { attribute: email, operator: endsWith, value: '@ourco.com' }
+ * ```
+ *
+ * ```typescript
+ * FeatureGuardModule.forRoot({
+ *   store: new FileFeatureGuardStore('/etc/myapp/feature-flags.yaml', { watch: true }),
+ * });
+ * ```
+ */
+export class FileFeatureGuardStore
+  implements FeatureGuardStore, OnModuleInit, OnApplicationShutdown
+{
+  private readonly logger = new Logger(FileFeatureGuardStore.name);
+  private readonly format: 'json' | 'yaml';
+  private readonly watchInterval: number;
+  private readonly clock?: FeatureFlagClock;
+  private store: InMemoryFeatureGuardStore;
+  private watching = false;
+  private loads = 0;
+  private appliedLoad = 0;
+
+  /**
+   * Creates a new file-backed feature flag store. Until the file is loaded, every flag is
+   * missing.
+   *
+   * @param {string} filePath - The path of the JSON or YAML flag file
+   * @param {FileFeatureGuardStoreOptions} [options] - Format, watch mode and clock options
+   */
+  constructor(
+    private readonly filePath: string,
+    private readonly options: FileFeatureGuardStoreOptions = {},
+  ) {
+    const extension = extname(filePath).toLowerCase();
+    this.format =
+      options.format ?? (extension === '.yaml' || extension === '.yml' ? 'yaml' : 'json');
+    this.watchInterval = options.watchInterval ?? 1000;
+    this.clock = options.clock;
+    this.store = new InMemoryFeatureGuardStore({ clock: this.clock });
+  }
+
+  async onModuleInit(): Promise<void> {
+    await this.load();
+    if (this.options.watch) this.watch();
+  }
+
+  onApplicationShutdown(): void {
+    this.unwatch();
+  }
+
+  /**
+   * Reads, validates and applies the flag file.
+   *
+   * @returns {Promise<void>} Promise that resolves once the new definitions are served
+   *
+   * @throws {FeatureFlagFileError} If the file cannot be read, parsed or validated; the previous
+   *   definitions are then kept
+   */
+  async load(): Promise<void> {
+    const load = ++this.loads;
+
+    let next: InMemoryFeatureGuardStore;
+    try {
+      const content = await readFile(this.filePath, 'utf8');
+      next = await this.createStore(this.parse(content));
+    } catch (error) {
+      throw new FeatureFlagFileError((error as Error).message, this.filePath);
+    }
+
+    // A slower, older load never replaces the definitions of a newer one
+    if (load > this.appliedLoad) {
+      this.appliedLoad = load;
+      this.store = next;
+    }
+  }
+
+  /**
+   * Starts reloading the file when it changes. Calling it again while watching has no effect.
+   */
+  watch(): void {
+    if (this.watching) return;
+    this.watching = true;
+
+    // Polling survives editors and deployment tools replacing the file instead of writing to it
+    watchFile(this.filePath, { interval: this.watchInterval, persistent: false }, this.onChange);
+  }
+
+  /**
+   * Stops reloading the file.
+   */
+  unwatch(): void {
+    if (!this.watching) return;
+    this.watching = false;
+
+    unwatchFile(this.filePath, this.onChange);
+  }
+
+  /**
+   * Always rejects: the flags are defined by the file.
+   *
+   * @param {SetFeatureFlagOptions} options - The feature flag configuration
+   * @returns {Promise<void>} A rejected promise
+   *
+   * @throws {Error} Always
+   */
+  async setFeatureFlag({ flag }: SetFeatureFlagOptions): Promise<void> {
+    throw new Error(
+      `FileFeatureGuardStore is read-only: define feature flag "${flag}" in "${this.filePath}"`,
+    );
+  }
+
+  async getFeature(flag: string): Promise<FeatureFlagInfo | null> {
+    return this.store.getFeature(flag);
+  }
+
+  async hasFeatureFlag(
+    flag: string,
+    userId: string,
+    attributes?: Record<string, unknown>,
+    tenantId?: string,
+  ): Promise<boolean> {
+    return this.store.hasFeatureFlag(flag, userId, attributes, tenantId);
+  }
+
+  async getFeatureVariant(
+    flag: string,
+    userId: string,
+    attributes?: Record<string, unknown>,
+    tenantId?: string,
+  ): Promise<FeatureFlagVariant | null> {
+    return this.store.getFeatureVariant(flag, userId, attributes, tenantId);
+  }
+
+  async evaluateFlags(
+    flags: string[],
+    context: FeatureFlagEvaluationContext,
+  ): Promise<Record<string, FeatureFlagEvaluation>> {
+    return this.store.evaluateFlags(flags, context);
+  }
+
+  async getSegment(name: string): Promise<FeatureFlagSegment | null> {
+    return this.store.getSegment(name);
+  }
+
+  private readonly onChange = (current: Stats, previous: Stats): void => {
+    if (current.mtimeMs === previous.mtimeMs && current.size === previous.size) return;
+
+    this.load().catch((error: Error) => {
+      this.logger.error(`${error.message}. Keeping the previous feature flags`);
+    });
+  };
+
+  /**
+   * Parses the file contents in the configured format.
+   *
+   * @param {string} content - The file contents
+   * @returns {unknown} The parsed document
+   *
+   * @throws {Error} If the contents are not valid JSON or YAML
+   */
+  private parse(content: string): unknown {
+    if (this.format === 'json') return JSON.parse(content);
+
+    const { parse } = loadPackage('yaml', 'FileFeatureGuardStore', () => require('yaml'));
+    return parse(content);
+  }
+
+  /**
+   * Builds the store serving a flag file, validating every definition.
+   *
+   * @param {unknown} document - The parsed flag file
+   * @returns {Promise<InMemoryFeatureGuardStore>} The store holding the flags and segments
+   *
+   * @throws {Error} If the document doesn't match the flag file schema, naming the invalid entry
+   */
+  private async createStore(document: unknown): Promise<InMemoryFeatureGuardStore> {
+    const { flags = {}, segments = {} } = validateFeatureFlagFile(document);
+    const store = new InMemoryFeatureGuardStore({ clock: this.clock });
+
+    for (const [name, segment] of Object.entries(segments)) {
+      await withLocation(`segments.${name}`, () => store.setSegment({ name, ...segment }));
+    }
+
+    for (const [flag, { enableAt, disableAt, ...definition }] of Object.entries(flags)) {
+      await withLocation(`flags.${flag}`, () =>
+        store.setFeatureFlag({
+          flag,
+          ...definition,
+          enableAt: toScheduleBound(enableAt),
+          disableAt: toScheduleBound(disableAt),
+        }),
+      );
+    }
+
+    return store;
+  }
+}
+
+/**
+ * Checks the structure of a parsed flag file. The flag and segment settings themselves are
+ * validated when they are stored, by the same validators as every store.
+ *
+ * @param {unknown} document - The parsed flag file
+ * @returns {FeatureFlagFile} The document, typed
+ *
+ * @throws {Error} If a section, flag or segment is not an object, a field is unknown, `enabled`
+ *   is not a boolean, a user or tenant list is not an array of strings, or a schedule bound is
+ *   neither a date string nor a number
+ */
+function validateFeatureFlagFile(document: unknown): FeatureFlagFile {
+  assertObject(document, 'the document');
+  assertFields(document, new Set(['flags', 'segments']), 'the document');
+
+  const { flags, segments } = document;
+  if (flags !== undefined) {
+    assertObject(flags, 'flags');
+    for (const [flag, definition] of Object.entries(flags)) {
+      const location = `flags.${flag}`;
+
+      assertObject(definition, location);
+      assertFields(definition, FLAG_FIELDS, location);
+      if (typeof definition.enabled !== 'boolean') {
+        throw new Error(`${location}: enabled must be a boolean`);
+      }
+      for (const field of FLAG_ID_LIST_FIELDS) {
+        assertStringList(definition[field], `${location}: ${field}`);
+      }
+      for (const field of ['enableAt', 'disableAt']) {
+        const value = definition[field];
+        if (value !== undefined && typeof value !== 'string' && typeof value !== 'number') {
+          throw new Error(`${location}: ${field} must be an ISO 8601 date or a timestamp`);
+        }
+      }
+    }
+  }
+
+  if (segments !== undefined) {
+    assertObject(segments, 'segments');
+    for (const [name, segment] of Object.entries(segments)) {
+      assertObject(segment, `segments.${name}`);
+      assertFields(segment, SEGMENT_FIELDS, `segments.${name}`);
+    }
+  }
+
+  return document as FeatureFlagFile;
+}
+
+/**
+ * Checks that an entry of the flag file is a plain object.
+ *
+ * @param {unknown} value - The entry
+ * @param {string} location - The entry, for the error message (e.g. `flags.beta_dashboard`)
+ *
+ * @throws {Error} `{location} must be an object`, reported as `Invalid feature flag file
+ *   "{path}": flags.beta_dashboard must be an object`
+ */
+function assertObject(value: unknown, location: string): asserts value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`${location} must be an object`);
+  }
+}
+
+/**
+ * Checks that an entry of the flag file only has known fields, so that typos are not ignored.
+ *
+ * @param {Record<string, unknown>} value - The entry
+ * @param {Set<string>} fields - The fields the entry may have
+ * @param {string} location - The entry, for the error message (e.g. `flags.beta_dashboard`)
+ *
+ * @throws {Error} `{location}: unknown field "{field}"`, reported as `Invalid feature flag file
+ *   "{path}": flags.beta_dashboard: unknown field "userId"`
+ */
+function assertFields(value: Record<string, unknown>, fields: Set<string>, location: string): void {
+  const unknown = Object.keys(value).find((field) => !fields.has(field));
+  if (unknown !== undefined) {
+    throw new Error(`${location}: unknown field "${unknown}"`);
+  }
+}
+
+/**
+ * Checks that an optional field of the flag file is an array of strings.
+ *
+ * @param {unknown} value - The field value
+ * @param {string} location - The field, for the error message (e.g. `flags.beta: userIds`)
+ *
+ * @throws {Error} `{location} must be an array of strings`, reported as `Invalid feature flag file
+ *   "{path}": flags.beta_dashboard: userIds must be an array of strings`
+ */
+function assertStringList(value: unknown, location: string): void {
+  if (
+    value !== undefined &&
+    (!Array.isArray(value) || !value.every((item) => typeof item === 'string'))
+  ) {
+    throw new Error(`${location} must be an array of strings`);
+  }
+}
+
+/**
+ * Runs a validation step, prefixing its error with the location of the entry in the file.
+ *
+ * @param {string} location - The entry being validated, e.g. `flags.beta_dashboard`
+ * @param {() => Promise<void>} step - The validation step
+ * @returns {Promise<void>} Promise that resolves if the entry is valid
+ *
+ * @throws {Error} If the entry is invalid
+ */
+async function withLocation(location: string, step: () => Promise<void>): Promise<void> {
+  try {
+    await step();
+  } catch (error) {
+    throw new Error(`${location}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Converts a schedule bound read from a file; invalid date strings become invalid dates, which the
+ * schedule validation rejects.
+ *
+ * @param {string | number | undefined} value - The ISO 8601 date or timestamp
+ * @returns {Date | number | undefined} The bound
+ */
+function toScheduleBound(value: string | number | undefined): Date | number | undefined {
+  return typeof value === 'string' ? new Date(value) : value;
+}
@@ -0,0 +1,413 @@
+import {
+  FeatureFlagEvaluation,
+  FeatureFlagEvaluationContext,
+  FeatureFlagInfo,
+  FeatureFlagSegment,
+  FeatureFlagTargetingRule,
+  FeatureFlagVariant,
+  FeatureGuardStore,
+  SetFeatureFlagOptions,
+} from './feature-flag-cache.interface';
+import {
+  evaluateFeatureAccess,
+  FeatureFlagAccessState,
+  validateUserIds,
+} from './feature-flag.access';
+import { validateRolloutPercentage } from './feature-flag.rollout';
+import {
+  FeatureFlagClock,
+  isWithinSchedule,
+  systemClock,
+  toScheduleTimestamp,
+  validateSchedule,
+} from './feature-flag.schedule';
+import { isInSegment, validateSegment, validateSegmentReferences } from './feature-flag.segments';
+import { validateTargetingRules } from './feature-flag.targeting';
+import { selectVariant, validateVariants } from './feature-flag.variants';
+
+/**
+ * Additional options for the in-memory feature flag store.
+ *
+ * @interface InMemoryFeatureGuardStoreOptions
+ * @property {FeatureFlagClock} [clock] - Time source for flag schedules (default: system clock)
+ */
+export interface InMemoryFeatureGuardStoreOptions {
+  clock?: FeatureFlagClock;
+}
+
+/**
+ * Feature flag as held by the in-memory store.
+ *
+ * @interface StoredFeatureFlag
+ */
+interface StoredFeatureFlag {
+  enabled: boolean;
+  userIds: Set<string>;
+  // Set once the flag has a user list, kept when every listed user is removed
+  userTargeted: boolean;
+  tenantIds: Set<string>;
+  rolloutPercentage?: number;
+  enableAt?: number;
+  disableAt?: number;
+  variants?: FeatureFlagVariant[];
+  rules?: FeatureFlagTargetingRule[];
+  segments?: string[];
+  excludedUserIds: Set<string>;
+  excludedTenantIds: Set<string>;
+  excludedSegments?: string[];
+}
+
+/**
+ * In-memory implementation of the FeatureGuardStore interface.
+ *
+ * Applies exactly the same access logic, validation and reporting as the RedisFeatureFlagCache,
+ * so flags behave the same whichever store is configured. State lives in the process and is lost
+ * on restart, and every instance has its own: use it for development, tests and single-process
+ * deployments.
+ *
+ * Values are copied in and out of the store, so callers mutating a flag definition they passed
+ * or received never change the stored flag.
+ *
+ * @class InMemoryFeatureGuardStore
+ * @implements {FeatureGuardStore}
+ *
+ * @example
+ * ```typescript
+ * import { FeatureGuardModule, InMemoryFeatureGuardStore } from 'nest-feature-guard';
+ *
+ * const store = new InMemoryFeatureGuardStore();
+ * await store.setFeatureFlag({ flag: 'beta_dashboard', enabled: true, userIds: ['user123'] });
+ *
+ * @Module({
+ *   imports: [FeatureGuardModule.forRoot({ store })],
+ * })
+ * export class AppModule {}
+ * ```
+ */
+export class InMemoryFeatureGuardStore implements FeatureGuardStore {
+  private readonly flags = new Map<string, StoredFeatureFlag>();
+  private readonly segments = new Map<string, FeatureFlagSegment>();
+  private readonly clock: FeatureFlagClock;
+
+  /**
+   * Creates a new in-memory feature flag store instance.
+   *
+   * @param {InMemoryFeatureGuardStoreOptions} [options] - Additional options (e.g. a clock for
+   *   tests)
+   */
+  constructor(options: InMemoryFeatureGuardStoreOptions = {}) {
+    this.clock = options.clock ?? systemClock;
+  }
+
+  /**
+   * Sets or replaces a feature flag.
+   *
+   * @param {SetFeatureFlagOptions} options - The feature flag configuration
+   * @returns {Promise<void>} Promise that resolves when the flag is stored
+   *
+   * @throws {Error} If `rolloutPercentage`, the schedule, the variants, the rules or the segment
+   *   names are invalid
+   */
+  async setFeatureFlag({
+    flag,
+    enabled,
+    userIds,
+    tenantIds,
+    rolloutPercentage,
+    enableAt,
+    disableAt,
+    variants,
+    rules,
+    segments,
+    excludedUserIds,
+    excludedTenantIds,
+    excludedSegments,
+  }: SetFeatureFlagOptions): Promise<void> {
+    validateRolloutPercentage(rolloutPercentage);
+    validateSchedule({ enableAt, disableAt });
+    validateVariants(variants);
+    validateTargetingRules(rules);
+    validateSegmentReferences(segments);
+    validateSegmentReferences(excludedSegments, 'excludedSegments');
+
+    this.flags.set(flag, {
+      enabled,
+      userIds: new Set(userIds),
+      userTargeted: userIds !== undefined && userIds.length > 0,
+      tenantIds: new Set(tenantIds),
+      rolloutPercentage,
+      enableAt: toScheduleTimestamp(enableAt),
+      disableAt: toScheduleTimestamp(disableAt),
+      variants: variants && copy(variants),
+      rules: rules && rules.length > 0 ? copy(rules) : undefined,
+      segments: segments && segments.length > 0 ? [...segments] : undefined,
+      excludedUserIds: new Set(excludedUserIds),
+      excludedTenantIds: new Set(excludedTenantIds),
+      excludedSegments:
+        excludedSegments && excludedSegments.length > 0 ? [...excludedSegments] : undefined,
+    });
+  }
+
+  /**
+   * Retrieves feature flag metadata.
+   *
+   * @param {string} flag - The feature flag identifier
+   * @returns {Promise<FeatureFlagInfo | null>} Feature metadata, with `enabled` false outside the
+   *   schedule, or null if the flag doesn't exist
+   */
+  async getFeature(flag: string): Promise<FeatureFlagInfo | null> {
+    const feature = this.flags.get(flag);
+    if (!feature) return null;
+
+    const { enableAt, disableAt } = feature;
+    const enabled = feature.enabled && isWithinSchedule({ enableAt, disableAt }, this.clock.now());
+
+    return {
+      enabled,
+      userIds: feature.userTargeted ? [...feature.userIds] : undefined,
+      ...(feature.tenantIds.size > 0 && { tenantIds: [...feature.tenantIds] }),
+      ...(feature.rolloutPercentage !== undefined && {
+        rolloutPercentage: feature.rolloutPercentage,
+      }),
+      ...(enableAt !== undefined && { enableAt: new Date(enableAt) }),
+      ...(disableAt !== undefined && { disableAt: new Date(disableAt) }),
+      ...(feature.variants && { variants: copy(feature.variants) }),
+      ...(feature.rules && { rules: copy(feature.rules) }),
+      ...(feature.segments && { segments: [...feature.segments] }),
+      ...(feature.excludedUserIds.size > 0 && { excludedUserIds: [...feature.excludedUserIds] }),
+      ...(feature.excludedTenantIds.size > 0 && {
+        excludedTenantIds: [...feature.excludedTenantIds],
+      }),
+      ...(feature.excludedSegments && { excludedSegments: [...feature.excludedSegments] }),
+    };
+  }
+
+  /**
+   * Checks if a specific user has access to a feature flag, with the access logic of
+   * `evaluateFeatureAccess` shared by every store.
+   *
+   * @param {string} flag - The feature flag identifier
+   * @param {string} userId - The user identifier to check
+   * @param {Record<string, unknown>} [attributes] - The user attributes tested by targeting rules
+   * @param {string} [tenantId] - The tenant the user belongs to, tested against the tenant list
+   * @returns {Promise<boolean>} True if the user has access, false otherwise
+   */
+  async hasFeatureFlag(
+    flag: string,
+    userId: string,
+    attributes?: Record<string, unknown>,
+    tenantId?: string,
+  ): Promise<boolean> {
+    const feature = this.flags.get(flag);
+    if (!feature) return false;
+
+    const state: FeatureFlagAccessState = {
+      enabled: feature.enabled,
+      enableAt: feature.enableAt,
+      disableAt: feature.disableAt,
+      rolloutPercentage: feature.rolloutPercentage,
+      rules: feature.rules,
+      segments: feature.segments,
+      excludedSegments: feature.excludedSegments,
+      userTargeted: feature.userTargeted,
+      tenantTargeted: feature.tenantIds.size > 0,
+      listedUser: feature.userIds.has(userId),
+      listedTenant: tenantId !== undefined && feature.tenantIds.has(tenantId),
+      excludedUser: feature.excludedUserIds.has(userId),
+      excludedTenant: tenantId !== undefined && feature.excludedTenantIds.has(tenantId),
+    };
+
+    return evaluateFeatureAccess(flag, userId, state, {
+      attributes,
+      now: this.clock.now(),
+      isInAnySegment: (segments) => this.isInAnySegment(segments, userId, attributes),
+    });
+  }
+
+  /**
+   * Resolves the variant of a multivariate feature flag for a user.
+   *
+   * @param {string} flag - The feature flag identifier
+   * @param {string} userId - The user identifier
+   * @param {Record<string, unknown>} [attributes] - The user attributes tested by targeting rules
+   * @param {string} [tenantId] - The tenant the user belongs to
+   * @returns {Promise<FeatureFlagVariant | null>} The assigned variant, or null if the user has no
+   *   access or the flag defines no variants
+   */
+  async getFeatureVariant(
+    flag: string,
+    userId: string,
+    attributes?: Record<string, unknown>,
+    tenantId?: string,
+  ): Promise<FeatureFlagVariant | null> {
+    if (!(await this.hasFeatureFlag(flag, userId, attributes, tenantId))) return null;
+
+    const variants = this.flags.get(flag)?.variants;
+    if (!variants) return null;
+
+    return copy(selectVariant(flag, userId, variants));
+  }
+
+  /**
+   * Evaluates several feature flags for a user in one call.
+   *
+   * @param {string[]} flags - The feature flag identifiers
+   * @param {FeatureFlagEvaluationContext} context - The user to evaluate the flags for
+   * @returns {Promise<Record<string, FeatureFlagEvaluation>>} The evaluation of every flag
+   */
+  async evaluateFlags(
+    flags: string[],
+    { userId, attributes, tenantId }: FeatureFlagEvaluationContext,
+  ): Promise<Record<string, FeatureFlagEvaluation>> {
+    const evaluations = await Promise.all(
+      [...new Set(flags)].map(async (flag) => {
+        const enabled = await this.hasFeatureFlag(flag, userId, attributes, tenantId);
+        const variant = enabled
+          ? await this.getFeatureVariant(flag, userId, attributes, tenantId)
+          : null;
+
+        return [flag, { enabled, variant }];
+      }),
+    );
+
+    return Object.fromEntries(evaluations);
+  }
+
+  /**
+   * Grants users access to a targeted feature flag. Adding users to a flag without a user list
+   * makes it a targeted flag.
+   *
+   * @param {string} flag - The feature flag identifier
+   * @param {string[]} userIds - The user IDs to add
+   * @returns {Promise<void>} Promise that resolves when the users are added
+   *
+   * @throws {Error} If the user IDs are not an array of strings, or the feature flag doesn't exist
+   */
+  async addUsersToFeature(flag: string, userIds: string[]): Promise<void> {
+    validateUserIds(userIds);
+    const feature = this.getExistingFeature(flag);
+
+    userIds.forEach((userId) => feature.userIds.add(userId));
+    if (userIds.length > 0) feature.userTargeted = true;
+  }
+
+  /**
+   * Revokes the access of users listed on a feature flag. Removing users from a missing flag is a
+   * no-op.
+   *
+   * Removing the last listed user never makes the flag global: it stays targeted, at no one
+   * unless other targeting remains, until `setFeatureFlag` replaces it.
+   *
+   * @param {string} flag - The feature flag identifier
+   * @param {string[]} userIds - The user IDs to remove
+   * @returns {Promise<void>} Promise that resolves when the users are removed
+   *
+   * @throws {Error} If the user IDs are not an array of strings
+   */
+  async removeUsersFromFeature(flag: string, userIds: string[]): Promise<void> {
+    validateUserIds(userIds);
+    const feature = this.flags.get(flag);
+
+    userIds.forEach((userId) => feature?.userIds.delete(userId));
+  }
+
+  /**
+   * Turns a feature flag on or off, keeping its users, rules, schedule and other settings.
+   *
+   * @param {string} flag - The feature flag identifier
+   * @param {boolean} enabled - Whether the feature is enabled
+   * @returns {Promise<void>} Promise that resolves when the flag is updated
+   *
+   * @throws {Error} If the feature flag doesn't exist
+   */
+  async setFeatureEnabled(flag: string, enabled: boolean): Promise<void> {
+    this.getExistingFeature(flag).enabled = enabled;
+  }
+
+  /**
+   * Creates or replaces a user segment.
+   *
+   * @param {FeatureFlagSegment} segment - The segment definition
+   * @returns {Promise<void>} Promise that resolves when the segment is stored
+   *
+   * @throws {Error} If the segment name, user IDs or rules are invalid
+   */
+  async setSegment({ name, userIds, rules }: FeatureFlagSegment): Promise<void> {
+    validateSegment({ name, userIds, rules });
+
+    this.segments.set(name, {
+      name,
+      ...(userIds && userIds.length > 0 && { userIds: [...new Set(userIds)] }),
+      ...(rules && rules.length > 0 && { rules: copy(rules) }),
+    });
+  }
+
+  /**
+   * Retrieves a user segment.
+   *
+   * @param {string} name - The segment name
+   * @returns {Promise<FeatureFlagSegment | null>} The segment, or null if it doesn't exist
+   */
+  async getSegment(name: string): Promise<FeatureFlagSegment | null> {
+    const segment = this.segments.get(name);
+    return segment ? copy(segment) : null;
+  }
+
+  /**
+   * Deletes a user segment. Flags still referencing it no longer grant access through it, but
+   * keep denying access to everyone else.
+   *
+   * @param {string} name - The segment name
+   * @returns {Promise<void>} Promise that resolves when the segment is deleted
+   */
+  async deleteSegment(name: string): Promise<void> {
+    this.segments.delete(name);
+  }
+
+  /**
+   * Checks whether a user belongs to any of the given segments. Missing segments have no members.
+   *
+   * @param {string[]} names - The segment names
+   * @param {string} userId - The user identifier
+   * @param {Record<string, unknown>} [attributes] - The user attributes tested by segment rules
+   * @returns {boolean} True if the user is a member of at least one segment
+   */
+  private isInAnySegment(
+    names: string[],
+    userId: string,
+    attributes?: Record<string, unknown>,
+  ): boolean {
+    return names.some((name) => {
+      const segment = this.segments.get(name);
+      return segment !== undefined && isInSegment(segment, userId, attributes);
+    });
+  }
+
+  /**
+   * Returns a feature flag about to be updated incrementally, so that an update never creates a
+   * partial flag.
+   *
+   * @param {string} flag - The feature flag identifier
+   * @returns {StoredFeatureFlag} The stored flag
+   *
+   * @throws {Error} If the feature flag doesn't exist
+   */
+  private getExistingFeature(flag: string): StoredFeatureFlag {
+    const feature = this.flags.get(flag);
+    if (!feature) {
+      throw new Error(`Feature flag "${flag}" does not exist`);
+    }
+    return feature;
+  }
+}
+
+/**
+ * Deep-copies a value through JSON, the way the Redis store serializes it, so that both stores
+ * hand out equal values.
+ *
+ * @param {T} value - The value to copy
+ * @returns {T} The copy
+ */
+function copy<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
@@ -1,5 +1,24 @@
+export * from './cached-feature-guard-store';
+export * from './feature-context-resolver.interface';
+export * from './feature-context-resolvers';
+export * from './feature-execution-context';
+export * from './feature-exposure-listener.interface';
+export * from './feature-exposure-listeners';
 export * from './feature-flag-cache.interface';
+export * from './feature-flag.access';
 export * from './feature-flag.constants';
+export * from './feature-flag.exceptions';
+export * from './feature-flag.expression';
 export * from './feature-flag.interfaces';
+export * from './feature-flag.rollout';
+export * from './feature-flag.schedule';
+export * from './feature-flag.segments';
+export * from './feature-flag.targeting';
+export * from './feature-flag.variants';
 export * from './feature-guard';
+export * from './feature-guard.module';
+export * from './file-feature-guard-store';
+export * from './in-memory-feature-guard-store';
 export * from './redis-feature-flag-cache';
+export * from './redis-feature-flag-change-subscriber';
+export * from './sql-feature-guard-store';
@@ -1,5 +1,32 @@
-import Redis from 'ioredis';
-import { FeatureGuardStore } from './feature-flag-cache.interface';
+import { randomUUID } from 'crypto';
+import Redis, { ChainableCommander } from 'ioredis';
+import {
+  FeatureFlagEvaluation,
+  FeatureFlagEvaluationContext,
+  FeatureFlagInfo,
+  FeatureFlagSegment,
+  FeatureFlagTargetingRule,
+  FeatureFlagVariant,
+  FeatureGuardStore,
+} from './feature-flag-cache.interface';
+import {
+  evaluateFeatureAccess,
+  FeatureFlagAccessState,
+  parseJsonList,
+  validateUserIds,
+} from './feature-flag.access';
+import { DEFAULT_REDIS_KEY_PREFIX } from './feature-flag.constants';
+import { validateRolloutPercentage } from './feature-flag.rollout';
+import {
+  FeatureFlagClock,
+  isWithinSchedule,
+  systemClock,
+  toScheduleTimestamp,
+  validateSchedule,
+} from './feature-flag.schedule';
+import { isInSegment, validateSegment, validateSegmentReferences } from './feature-flag.segments';
+import { validateTargetingRules } from './feature-flag.targeting';
+import { selectVariant, validateVariants } from './feature-flag.variants';
 
 /**
  * Options for setting a feature flag in the Redis store.
@@ -11,6 +38,79 @@ interface SetFeatureFlagOptions {
   flag: string;
   enabled: boolean;
   userIds?: string[];
+  tenantIds?: string[];
+  rolloutPercentage?: number;
+  enableAt?: Date | number;
+  disableAt?: Date | number;
+  variants?: FeatureFlagVariant[];
+  rules?: FeatureFlagTargetingRule[];
+  segments?: string[];
+  excludedUserIds?: string[];
+  excludedTenantIds?: string[];
+  excludedSegments?: string[];
+}
+
+/**
+ * Additional options for the Redis feature flag store.
+ *
+ * @interface RedisFeatureFlagCacheOptions
+ * @property {FeatureFlagClock} [clock] - Time source for flag schedules (default: system clock)
+ */
+export interface RedisFeatureFlagCacheOptions {
+  clock?: FeatureFlagClock;
+}
+
+/**
+ * Change event published by the Redis store after every write, so that instances caching flags
+ * locally can evict them (see RedisFeatureFlagChangeSubscriber).
+ *
+ * @interface FeatureFlagChange
+ * @property {string} [flag] - The feature flag that changed
+ * @property {string} [segment] - The user segment that changed, affecting every flag referencing it
+ */
+export interface FeatureFlagChange {
+  flag?: string;
+  segment?: string;
+}
+
+/**
+ * Returns the channel the Redis store publishes feature flag changes on.
+ *
+ * @param {string} [featureKeyPrefix] - The key prefix of the store
+ * @returns {string} The channel name, `{prefix}:changes`
+ */
+export function getFeatureFlagChangeChannel(
+  featureKeyPrefix: string = DEFAULT_REDIS_KEY_PREFIX,
+): string {
+  return `${featureKeyPrefix}:changes`;
+}
+
+/**
+ * Time to live of the temporary sets a write is staged in, so that the sets of an interrupted
+ * write don't linger. Renaming a staged set into place removes its expiry.
+ */
+const STAGING_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * What `hasFeatureFlag` and `evaluateFlags` read about a user for a flag.
+ *
+ * @interface FeatureAccessState
+ * @property {Record<string, string>} info - The feature info hash, empty for a missing flag
+ * @property {boolean} excludedUser - Whether the user is in the excluded users
+ * @property {boolean} excludedTenant - Whether the tenant is in the excluded tenants
+ * @property {boolean} listedUser - Whether the user is in the user list
+ * @property {boolean} hasUsers - Whether the flag has a user list
+ * @property {boolean} listedTenant - Whether the tenant is in the tenant list
+ * @property {boolean} hasTenants - Whether the flag has a tenant list
+ */
+interface FeatureAccessState {
+  info: Record<string, string>;
+  excludedUser: boolean;
+  excludedTenant: boolean;
+  listedUser: boolean;
+  hasUsers: boolean;
+  listedTenant: boolean;
+  hasTenants: boolean;
 }
 
 /**
@@ -18,18 +118,34 @@ interface SetFeatureFlagOptions {
  *
  * This class provides a high-performance Redis-based store for storing and retrieving
  * feature flag data. It uses Redis data structures optimally:
- * - Hash for feature metadata (enabled state)
- * - Set for user access lists (efficient membership testing)
+ * - Hash for feature metadata (enabled state, rollout percentage, schedule, and variants, rules
+ *   and segment names as JSON)
+ * - Sets for user and tenant access and exclusion lists (efficient membership testing)
+ * - Hash and set per user segment, shared by every flag referencing it
  *
  * Key Features:
  * - Configurable key prefix for namespace isolation
- * - Atomic operations for data consistency
- * - Efficient user membership testing with Redis sets
+ * - Atomic writes: a flag or segment is replaced in a single MULTI/EXEC transaction
+ * - Change events published on `{prefix}:changes` after every write, for cross-instance cache
+ *   invalidation
+ * - Constant-time access checks: one MULTI/EXEC round trip using `SISMEMBER`/`EXISTS`, never
+ *   loading user or tenant lists
  * - Support for both global and user-specific feature flags
  *
  * Redis Key Structure:
- * - `{prefix}:{flag}:info` - Hash containing feature metadata
+ * - `{prefix}:{flag}:info` - Hash containing feature metadata (`userTargeted` marks flags given a
+ *   user list, which stay targeted once every listed user is removed)
  * - `{prefix}:{flag}:users` - Set containing user IDs with access
+ * - `{prefix}:{flag}:tenants` - Set containing tenant IDs whose users have access
+ * - `{prefix}:{flag}:excluded-users` - Set containing user IDs denied access
+ * - `{prefix}:{flag}:excluded-tenants` - Set containing tenant IDs whose users are denied access
+ * - `{prefix}:segment:{name}:info` - Hash containing the segment rules
+ * - `{prefix}:segment:{name}:users` - Set containing the segment user IDs
+ *
+ * Flag names starting with `segment:` are rejected, as their keys would overwrite segment keys.
+ *
+ * In Redis Cluster, use a hash-tagged prefix (e.g. `{features}`) so that the keys written
+ * together by a transaction share a slot.
  *
  * @class RedisFeatureFlagCache
  * @implements {FeatureGuardStore}
@@ -65,12 +181,15 @@ interface SetFeatureFlagOptions {
 export class RedisFeatureFlagCache implements FeatureGuardStore {
   private readonly redis: Redis;
   private readonly featureKeyPrefix: string;
+  private readonly changeChannel: string;
+  private readonly clock: FeatureFlagClock;
 
   /**
    * Creates a new Redis feature flag store instance.
    *
    * @param {Redis} redis - The Redis client instance
    * @param {string} [featureKeyPrefix='crudmates:feature-guard'] - The key prefix for Redis keys
+   * @param {RedisFeatureFlagCacheOptions} [options] - Additional options (e.g. a clock for tests)
    *
    * @example
    * ```typescript
@@ -81,11 +200,20 @@ export class RedisFeatureFlagCache implements FeatureGuardStore {
    * // Custom prefix
    * const store = new RedisFeatureFlagCache(redis, 'myapp:flags');
    * // Keys will be: myapp:flags:my_feature:info
+   *
+   * // Controllable clock for schedule tests
+   * const store = new RedisFeatureFlagCache(redis, undefined, { clock: { now: () => fixedTime } });
    * ```
    */
-  constructor(redis: Redis, featureKeyPrefix = 'crudmates:feature-guard') {
+  constructor(
+    redis: Redis,
+    featureKeyPrefix = DEFAULT_REDIS_KEY_PREFIX,
+    options: RedisFeatureFlagCacheOptions = {},
+  ) {
     this.redis = redis;
     this.featureKeyPrefix = featureKeyPrefix;
+    this.changeChannel = getFeatureFlagChangeChannel(featureKeyPrefix);
+    this.clock = options.clock ?? systemClock;
   }
 
   /**
@@ -96,15 +224,29 @@ export class RedisFeatureFlagCache implements FeatureGuardStore {
    * feature flags efficiently.
    *
    * The operation is atomic - either both the feature info and user list are updated,
-   * or neither is changed if an error occurs.
+   * or neither is changed if an error occurs. User and tenant lists are first written to
+   * temporary sets, then the info hash is replaced and the sets are renamed into place in a
+   * single MULTI/EXEC transaction, so a flag is never observed with its new info and an empty or
+   * partial user list.
    *
    * @param {SetFeatureFlagOptions} options - The feature flag configuration
    * @param {string} options.flag - The feature flag identifier
    * @param {boolean} options.enabled - Whether the feature is enabled
    * @param {string[]} [options.userIds] - Optional array of user IDs for targeted access
+   * @param {string[]} [options.tenantIds] - Optional array of tenant IDs for tenant-wide access
+   * @param {number} [options.rolloutPercentage] - Optional percentage of users granted access
+   * @param {Date | number} [options.enableAt] - Optional activation time
+   * @param {Date | number} [options.disableAt] - Optional expiry time
+   * @param {FeatureFlagVariant[]} [options.variants] - Optional weighted variants
+   * @param {FeatureFlagTargetingRule[]} [options.rules] - Optional ordered attribute targeting rules
+   * @param {string[]} [options.segments] - Optional names of the user segments granted access
+   * @param {string[]} [options.excludedUserIds] - Optional array of user IDs denied access
+   * @param {string[]} [options.excludedTenantIds] - Optional array of tenant IDs denied access
+   * @param {string[]} [options.excludedSegments] - Optional names of the user segments denied access
    * @returns {Promise<void>} Promise that resolves when the operation completes
    *
-   * @throws {Error} If the Redis operation fails
+   * @throws {Error} If the flag name starts with `segment:`, if `rolloutPercentage`, the schedule,
+   *   the variants, the rules or the segment names are invalid, or the Redis operation fails
    *
    * @example
    * ```typescript
@@ -115,12 +257,55 @@ export class RedisFeatureFlagCache implements FeatureGuardStore {
    *   userIds: ['user123', 'user456', 'user789']
    * });
    *
+   * // Enable feature for every user of specific customer accounts
+   * await store.setFeatureFlag({
+   *   flag: 'sso_login',
+   *   enabled: true,
+   *   tenantIds: ['acme', 'globex']
+   * });
+   *
    * // Enable feature globally (no user restrictions)
    * await store.setFeatureFlag({
    *   flag: 'new_ui',
    *   enabled: true
    * });
    *
+   * // Roll out to 5% of users
+   * await store.setFeatureFlag({
+   *   flag: 'new_checkout',
+   *   enabled: true,
+   *   rolloutPercentage: 5
+   * });
+   *
+   * // Turn on at launch time, off when the promo ends
+   * await store.setFeatureFlag({
+   *   flag: 'black_friday',
+   *   enabled: true,
+   *   enableAt: new Date('2025-11-28T00:00:00Z'),
+   *   disableAt: new Date('2025-12-01T00:00:00Z')
+   * });
+   *
+   * // Pro and enterprise customers only
+   * await store.setFeatureFlag({
+   *   flag: 'advanced_reports',
+   *   enabled: true,
+   *   rules: [{ attribute: 'plan', operator: 'in', value: ['pro', 'enterprise'] }]
+   * });
+   *
+   * // Members of shared segments (see setSegment)
+   * await store.setFeatureFlag({
+   *   flag: 'new_editor',
+   *   enabled: true,
+   *   segments: ['internal_staff', 'design_partners']
+   * });
+   *
+   * // Enable feature globally, except for a customer hitting a bug
+   * await store.setFeatureFlag({
+   *   flag: 'new_invoicing',
+   *   enabled: true,
+   *   excludedTenantIds: ['initech']
+   * });
+   *
    * // Disable feature globally (userIds ignored)
    * await store.setFeatureFlag({
    *   flag: 'experimental_feature',
@@ -128,27 +313,61 @@ export class RedisFeatureFlagCache implements FeatureGuardStore {
    * });
    * ```
    */
-  async setFeatureFlag({ flag, enabled, userIds }: SetFeatureFlagOptions): Promise<void> {
+  async setFeatureFlag({
+    flag,
+    enabled,
+    userIds,
+    tenantIds,
+    rolloutPercentage,
+    enableAt,
+    disableAt,
+    variants,
+    rules,
+    segments,
+    excludedUserIds,
+    excludedTenantIds,
+    excludedSegments,
+  }: SetFeatureFlagOptions): Promise<void> {
+    validateFlagName(flag);
+    validateRolloutPercentage(rolloutPercentage);
+    validateSchedule({ enableAt, disableAt });
+    validateVariants(variants);
+    validateTargetingRules(rules);
+    validateSegmentReferences(segments);
+    validateSegmentReferences(excludedSegments, 'excludedSegments');
+
     const featureInfoKey = `${this.featureKeyPrefix}:${flag}:info`;
     const featureUsersKey = `${this.featureKeyPrefix}:${flag}:users`;
+    const featureTenantsKey = `${this.featureKeyPrefix}:${flag}:tenants`;
+    const featureExcludedUsersKey = `${this.featureKeyPrefix}:${flag}:excluded-users`;
+    const featureExcludedTenantsKey = `${this.featureKeyPrefix}:${flag}:excluded-tenants`;
 
-    // Store feature enabled state as string for Redis compatibility
-    await this.redis.hmset(featureInfoKey, { enabled: enabled ? 'true' : 'false' });
-
-    if (userIds && userIds.length > 0) {
-      // Clear existing users first
-      await this.redis.del(featureUsersKey);
-      
-      // Add users to the set in batches to avoid stack overflow
-      const batchSize = 1000;
-      for (let i = 0; i < userIds.length; i += batchSize) {
-        const batch = userIds.slice(i, i + batchSize);
-        await this.redis.sadd(featureUsersKey, ...batch);
-      }
-    } else {
-      // No user list means global feature - remove any existing user set
-      await this.redis.del(featureUsersKey);
+    // Store every value as a string for Redis compatibility, schedule bounds as epoch milliseconds
+    const info: Record<string, string> = { enabled: enabled ? 'true' : 'false' };
+    if (rolloutPercentage !== undefined) info.rolloutPercentage = String(rolloutPercentage);
+    if (enableAt !== undefined) info.enableAt = String(toScheduleTimestamp(enableAt));
+    if (disableAt !== undefined) info.disableAt = String(toScheduleTimestamp(disableAt));
+    if (variants !== undefined) info.variants = JSON.stringify(variants);
+    if (rules !== undefined && rules.length > 0) info.rules = JSON.stringify(rules);
+    if (segments !== undefined && segments.length > 0) info.segments = JSON.stringify(segments);
+    if (excludedSegments !== undefined && excludedSegments.length > 0) {
+      info.excludedSegments = JSON.stringify(excludedSegments);
     }
+    // Kept by incremental updates, so removing every listed user never makes the flag global
+    if (userIds !== undefined && userIds.length > 0) info.userTargeted = 'true';
+
+    // No user or tenant list means global feature - replacing with nothing removes the sets
+    await this.replaceAtomically(
+      featureInfoKey,
+      info,
+      [
+        [featureUsersKey, userIds],
+        [featureTenantsKey, tenantIds],
+        [featureExcludedUsersKey, excludedUserIds],
+        [featureExcludedTenantsKey, excludedTenantIds],
+      ],
+      { flag },
+    );
   }
 
   /**
@@ -158,7 +377,7 @@ export class RedisFeatureFlagCache implements FeatureGuardStore {
    * associated user access list. It returns null if the feature doesn't exist.
    *
    * @param {string} flag - The feature flag identifier
-   * @returns {Promise<{ enabled: boolean; userIds?: string[] } | null>} Feature metadata or null
+   * @returns {Promise<FeatureFlagInfo | null>} Feature metadata or null
    *
    * @example
    * ```typescript
@@ -179,23 +398,51 @@ export class RedisFeatureFlagCache implements FeatureGuardStore {
    *
    * // Possible return values:
    * // { enabled: true, userIds: ['user1', 'user2'] } - Targeted feature
+   * // { enabled: true, tenantIds: ['acme'] } - Tenant-targeted feature
    * // { enabled: true } - Global feature
+   * // { enabled: true, rolloutPercentage: 5 } - Percentage rollout
+   * // { enabled: false, enableAt: Date, disableAt: Date } - Scheduled, outside its window
+   * // { enabled: true, rules: [{ attribute: 'plan', operator: 'in', value: ['pro'] }] } - Targeted
+   * // { enabled: true, segments: ['internal_staff'] } - Segment targeting
+   * // { enabled: true, excludedUserIds: ['user789'] } - Global feature except for user789
    * // null - Feature doesn't exist
    * ```
    */
-  async getFeature(flag: string): Promise<{ enabled: boolean; userIds?: string[] } | null> {
+  async getFeature(flag: string): Promise<FeatureFlagInfo | null> {
     const featureInfoKey = `${this.featureKeyPrefix}:${flag}:info`;
     const featureUsersKey = `${this.featureKeyPrefix}:${flag}:users`;
+    const featureTenantsKey = `${this.featureKeyPrefix}:${flag}:tenants`;
+    const featureExcludedUsersKey = `${this.featureKeyPrefix}:${flag}:excluded-users`;
+    const featureExcludedTenantsKey = `${this.featureKeyPrefix}:${flag}:excluded-tenants`;
 
     const info = await this.redis.hgetall(featureInfoKey);
     if (!info || !('enabled' in info)) return null;
 
-    const enabled = info.enabled === 'true';
+    const schedule = parseSchedule(info);
+    const enabled = info.enabled === 'true' && isWithinSchedule(schedule, this.clock.now());
     const userIds = await this.redis.smembers(featureUsersKey);
+    const tenantIds = await this.redis.smembers(featureTenantsKey);
+    const rolloutPercentage = parseRolloutPercentage(info.rolloutPercentage);
+    const variants = parseVariants(info.variants);
+    const rules = parseJsonList<FeatureFlagTargetingRule>(info.rules);
+    const segments = parseJsonList<string>(info.segments);
+    const excludedUserIds = await this.redis.smembers(featureExcludedUsersKey);
+    const excludedTenantIds = await this.redis.smembers(featureExcludedTenantsKey);
+    const excludedSegments = parseJsonList<string>(info.excludedSegments);
 
     return {
       enabled,
-      userIds: userIds.length > 0 ? userIds : undefined,
+      userIds: userIds.length > 0 || info.userTargeted === 'true' ? userIds : undefined,
+      ...(tenantIds.length > 0 && { tenantIds }),
+      ...(rolloutPercentage !== undefined && { rolloutPercentage }),
+      ...(schedule.enableAt !== undefined && { enableAt: new Date(schedule.enableAt) }),
+      ...(schedule.disableAt !== undefined && { disableAt: new Date(schedule.disableAt) }),
+      ...(variants !== undefined && { variants }),
+      ...(rules && { rules }),
+      ...(segments && { segments }),
+      ...(excludedUserIds.length > 0 && { excludedUserIds }),
+      ...(excludedTenantIds.length > 0 && { excludedTenantIds }),
+      ...(excludedSegments && { excludedSegments }),
     };
   }
 
@@ -203,17 +450,28 @@ export class RedisFeatureFlagCache implements FeatureGuardStore {
    * Checks if a specific user has access to a feature flag.
    *
    * This method implements the core access control logic by evaluating the feature
-   * configuration against the provided user ID. It uses Redis set membership testing
-   * for efficient user lookup.
+   * configuration against the provided user ID and attributes. The flag info and the user and
+   * tenant memberships are read in a single MULTI/EXEC round trip with `SISMEMBER` and `EXISTS`,
+   * so the cost of a check doesn't depend on the size of the lists. Flags referencing segments
+   * take one more round trip per segment checked.
    *
    * Access Logic:
    * 1. If feature doesn't exist: return false
-   * 2. If feature is disabled: return false (disabled means disabled for everyone)
-   * 3. If feature is enabled and no user list exists (global feature): return true
-   * 4. If feature is enabled and user list exists: return true only if user is in the list
+   * 2. If feature is disabled, or outside its schedule: return false (disabled means disabled for everyone)
+   * 3. If user or tenant is excluded, or the user is a member of an excluded segment: return false
+   * 4. If user or tenant is in its list, or the user is a member of one of the flag segments:
+   *    return true
+   * 5. If a targeting rule matches the attributes: the first matching rule grants or denies access
+   * 6. If feature is enabled with a rollout percentage: return true if the user's stable bucket
+   *    falls below the percentage
+   * 7. If feature is enabled with a user or tenant list, segments or granting rules (targeted
+   *    feature): return false
+   * 8. If feature is enabled without any of them (global feature): return true
    *
    * @param {string} flag - The feature flag identifier
    * @param {string} userId - The user identifier to check
+   * @param {Record<string, unknown>} [attributes] - The user attributes tested by targeting rules
+   * @param {string} [tenantId] - The tenant the user belongs to, tested against the tenant list
    * @returns {Promise<boolean>} True if the user has access, false otherwise
    *
    * @example
@@ -242,32 +500,615 @@ export class RedisFeatureFlagCache implements FeatureGuardStore {
    *
    * // Global deny: { enabled: false, userIds: [] }
    * await store.hasFeatureFlag('disabled', 'anyone'); // false (globally disabled)
+   *
+   * // Percentage rollout: { enabled: true, rolloutPercentage: 20 }
+   * await store.hasFeatureFlag('rollout', 'anyone'); // true for ~20% of users, always the same ones
+   *
+   * // Attribute targeting: { enabled: true, rules: [{ attribute: 'plan', operator: '==', ... }] }
+   * await store.hasFeatureFlag('reports', 'user123', { plan: 'pro' }); // true (rule matches)
+   * await store.hasFeatureFlag('reports', 'user123', { plan: 'free' }); // false (no rule matches)
+   *
+   * // Tenant access: { enabled: true, tenantIds: ['acme'] }
+   * await store.hasFeatureFlag('sso', 'user123', undefined, 'acme'); // true (tenant targeted)
+   * await store.hasFeatureFlag('sso', 'user123', undefined, 'globex'); // false (tenant not targeted)
+   *
+   * // Global access with exclusions: { enabled: true, excludedUserIds: ['user789'] }
+   * await store.hasFeatureFlag('invoicing', 'user123'); // true (global access)
+   * await store.hasFeatureFlag('invoicing', 'user789'); // false (excluded)
    * ```
    */
-  async hasFeatureFlag(flag: string, userId: string): Promise<boolean> {
+  async hasFeatureFlag(
+    flag: string,
+    userId: string,
+    attributes?: Record<string, unknown>,
+    tenantId?: string,
+  ): Promise<boolean> {
+    const [state] = await this.readAccessStates([flag], userId, tenantId);
+    return this.evaluateAccess(flag, userId, state, attributes);
+  }
+
+  /**
+   * Resolves the variant of a multivariate feature flag for a user.
+   *
+   * The user must have access to the flag (see `hasFeatureFlag`); the variant is then chosen by
+   * `selectVariant`, so the assignment is stable and proportional to the variant weights.
+   *
+   * @param {string} flag - The feature flag identifier
+   * @param {string} userId - The user identifier
+   * @param {Record<string, unknown>} [attributes] - The user attributes tested by targeting rules
+   * @param {string} [tenantId] - The tenant the user belongs to
+   * @returns {Promise<FeatureFlagVariant | null>} The assigned variant, or null if the user has no
+   *   access or the flag defines no variants
+   *
+   * @example
+   * ```typescript
+   * await store.setFeatureFlag({
+   *   flag: 'pricing',
+   *   enabled: true,
+   *   variants: [
+   *     { name: 'control', weight: 50 },
+   *     { name: 'B', weight: 50, payload: { price: 12 } }
+   *   ]
+   * });
+   *
+   * const variant = await store.getFeatureVariant('pricing', 'user123');
+   * // { name: 'B', weight: 50, payload: { price: 12 } } - always the same arm for user123
+   * ```
+   */
+  async getFeatureVariant(
+    flag: string,
+    userId: string,
+    attributes?: Record<string, unknown>,
+    tenantId?: string,
+  ): Promise<FeatureFlagVariant | null> {
     const featureInfoKey = `${this.featureKeyPrefix}:${flag}:info`;
+
+    if (!(await this.hasFeatureFlag(flag, userId, attributes, tenantId))) return null;
+
+    const variants = parseVariants(await this.redis.hget(featureInfoKey, 'variants'));
+    if (!variants) return null;
+
+    return selectVariant(flag, userId, variants);
+  }
+
+  /**
+   * Evaluates several feature flags for a user in one call.
+   *
+   * The info and memberships of every flag are read in a single MULTI/EXEC round trip, instead of
+   * the `getFeature`, `hasFeatureFlag` and `getFeatureVariant` calls per flag the FeatureGuard
+   * makes otherwise. Flags referencing segments take one more round trip per segment checked.
+   *
+   * @param {string[]} flags - The feature flag identifiers
+   * @param {FeatureFlagEvaluationContext} context - The user to evaluate the flags for
+   * @returns {Promise<Record<string, FeatureFlagEvaluation>>} The evaluation of every flag
+   *
+   * @throws {Error} If a Redis operation fails
+   *
+   * @example
+   * ```typescript
+   * const evaluations = await store.evaluateFlags(['beta_dashboard', 'pricing'], {
+   *   userId: 'user123',
+   * });
+   * // {
+   * //   beta_dashboard: { enabled: true, variant: null },
+   * //   pricing: { enabled: true, variant: { name: 'B', weight: 50, payload: { price: 12 } } }
+   * // }
+   * ```
+   */
+  async evaluateFlags(
+    flags: string[],
+    { userId, attributes, tenantId }: FeatureFlagEvaluationContext,
+  ): Promise<Record<string, FeatureFlagEvaluation>> {
+    const uniqueFlags = [...new Set(flags)];
+    if (uniqueFlags.length === 0) return {};
+
+    const states = await this.readAccessStates(uniqueFlags, userId, tenantId);
+
+    const evaluations = await Promise.all(
+      uniqueFlags.map(async (flag, index) => {
+        const enabled = await this.evaluateAccess(flag, userId, states[index], attributes);
+        const variants = enabled ? parseVariants(states[index].info.variants) : undefined;
+        const variant = variants ? selectVariant(flag, userId, variants) : null;
+
+        return [flag, { enabled, variant }];
+      }),
+    );
+
+    return Object.fromEntries(evaluations);
+  }
+
+  /**
+   * Grants users access to a targeted feature flag with `SADD`, without rewriting the user list.
+   * Adding users to a flag without a user list makes it a targeted flag. The members, the marker
+   * and the change event are written in one `MULTI`/`EXEC` transaction.
+   *
+   * @param {string} flag - The feature flag identifier
+   * @param {string[]} userIds - The user IDs to add
+   * @returns {Promise<void>} Promise that resolves when the users are added
+   *
+   * @throws {Error} If the user IDs are not an array of strings, the feature flag doesn't exist,
+   *   or the Redis operation fails
+   *
+   * @example
+   * ```typescript
+   * // Grant one more beta user without reading or rewriting the 50k-member set
+   * await store.addUsersToFeature('beta_dashboard', ['user789']);
+   * ```
+   */
+  async addUsersToFeature(flag: string, userIds: string[]): Promise<void> {
+    validateUserIds(userIds);
+    await this.assertFeatureExists(flag);
+
     const featureUsersKey = `${this.featureKeyPrefix}:${flag}:users`;
+    const transaction = this.redis.multi();
+    if (userIds.length > 0) {
+      transaction.hset(`${this.featureKeyPrefix}:${flag}:info`, 'userTargeted', 'true');
+    }
 
-    const info = await this.redis.hgetall(featureInfoKey);
-    if (!info || !('enabled' in info)) return false;
+    // Add users in batches to avoid stack overflow
+    const batchSize = 1000;
+    for (let i = 0; i < userIds.length; i += batchSize) {
+      transaction.sadd(featureUsersKey, ...userIds.slice(i, i + batchSize));
+    }
+    await this.commitWithChange(transaction, { flag });
+  }
 
-    const enabled = info.enabled === 'true';
+  /**
+   * Revokes the access of users listed on a feature flag with `SREM`, without rewriting the user
+   * list, in one `MULTI`/`EXEC` transaction with the change event. Removing users from a missing
+   * flag is a no-op.
+   *
+   * Removing the last listed user never makes the flag global: the `userTargeted` field of the
+   * info hash keeps it targeted (at no one unless other targeting remains) until `setFeatureFlag`
+   * replaces it.
+   *
+   * @param {string} flag - The feature flag identifier
+   * @param {string[]} userIds - The user IDs to remove
+   * @returns {Promise<void>} Promise that resolves when the users are removed
+   *
+   * @throws {Error} If the user IDs are not an array of strings, or the Redis operation fails
+   *
+   * @example
+   * ```typescript
+   * await store.removeUsersFromFeature('beta_dashboard', ['user456']);
+   * ```
+   */
+  async removeUsersFromFeature(flag: string, userIds: string[]): Promise<void> {
+    validateUserIds(userIds);
 
-    // If feature is disabled, no one has access
-    if (!enabled) {
-      return false;
+    const featureUsersKey = `${this.featureKeyPrefix}:${flag}:users`;
+
+    const transaction = this.redis.multi();
+
+    // Remove users in batches to avoid stack overflow
+    const batchSize = 1000;
+    for (let i = 0; i < userIds.length; i += batchSize) {
+      transaction.srem(featureUsersKey, ...userIds.slice(i, i + batchSize));
     }
+    await this.commitWithChange(transaction, { flag });
+  }
 
-    const userIds = await this.redis.smembers(featureUsersKey);
-    const hasUsers = userIds.length > 0;
+  /**
+   * Turns a feature flag on or off with `HSET`, keeping its users, rules, schedule and other
+   * settings. The change event is published from the same `MULTI`/`EXEC` transaction.
+   *
+   * @param {string} flag - The feature flag identifier
+   * @param {boolean} enabled - Whether the feature is enabled
+   * @returns {Promise<void>} Promise that resolves when the flag is updated
+   *
+   * @throws {Error} If the feature flag doesn't exist, or the Redis operation fails
+   *
+   * @example
+   * ```typescript
+   * await store.setFeatureEnabled('new_checkout', false);
+   * ```
+   */
+  async setFeatureEnabled(flag: string, enabled: boolean): Promise<void> {
+    await this.assertFeatureExists(flag);
+
+    const transaction = this.redis
+      .multi()
+      .hset(`${this.featureKeyPrefix}:${flag}:info`, 'enabled', enabled ? 'true' : 'false');
+    await this.commitWithChange(transaction, { flag });
+  }
 
-    // For global features (no users list), everyone has access
-    if (!hasUsers) {
-      return true;
+  /**
+   * Creates or replaces a user segment.
+   *
+   * Segments are stored once and referenced by name from the `segments` option of any number of
+   * flags, so editing a segment updates every flag targeting it on the next evaluation.
+   *
+   * @param {FeatureFlagSegment} segment - The segment definition
+   * @returns {Promise<void>} Promise that resolves when the segment is stored
+   *
+   * @throws {Error} If the segment name, user IDs or rules are invalid, or the Redis operation fails
+   *
+   * @example
+   * ```typescript
+   * await store.setSegment({
+   *   name: 'internal_staff',
+   *   rules: [{ attribute: 'email', operator: 'endsWith', value: '@ourco.com' }]
+   * });
+   *
+   * await store.setSegment({ name: 'design_partners', userIds: ['user123', 'user456'] });
+   *
+   * await store.setFeatureFlag({
+   *   flag: 'new_editor',
+   *   enabled: true,
+   *   segments: ['internal_staff', 'design_partners']
+   * });
+   * ```
+   */
+  async setSegment({ name, userIds, rules }: FeatureFlagSegment): Promise<void> {
+    validateSegment({ name, userIds, rules });
+
+    const segmentInfoKey = `${this.featureKeyPrefix}:segment:${name}:info`;
+    const segmentUsersKey = `${this.featureKeyPrefix}:segment:${name}:users`;
+
+    // The rules field is always written, marking the segment as existing even without rules
+    await this.replaceAtomically(
+      segmentInfoKey,
+      { rules: JSON.stringify(rules ?? []) },
+      [[segmentUsersKey, userIds]],
+      { segment: name },
+    );
+  }
+
+  /**
+   * Retrieves a user segment from Redis.
+   *
+   * @param {string} name - The segment name
+   * @returns {Promise<FeatureFlagSegment | null>} The segment, or null if it doesn't exist
+   *
+   * @example
+   * ```typescript
+   * await store.getSegment('design_partners');
+   * // { name: 'design_partners', userIds: ['user123', 'user456'] }
+   * ```
+   */
+  async getSegment(name: string): Promise<FeatureFlagSegment | null> {
+    const segmentInfoKey = `${this.featureKeyPrefix}:segment:${name}:info`;
+    const segmentUsersKey = `${this.featureKeyPrefix}:segment:${name}:users`;
+
+    const info = await this.redis.hgetall(segmentInfoKey);
+    if (!info || !('rules' in info)) return null;
+
+    const userIds = await this.redis.smembers(segmentUsersKey);
+    const rules = parseJsonList<FeatureFlagTargetingRule>(info.rules);
+
+    return {
+      name,
+      ...(userIds.length > 0 && { userIds }),
+      ...(rules && rules.length > 0 && { rules }),
+    };
+  }
+
+  /**
+   * Deletes a user segment from Redis. Flags still referencing it no longer grant access through
+   * it, but keep denying access to everyone else.
+   *
+   * @param {string} name - The segment name
+   * @returns {Promise<void>} Promise that resolves when the segment is deleted
+   */
+  async deleteSegment(name: string): Promise<void> {
+    const transaction = this.redis
+      .multi()
+      .del(
+        `${this.featureKeyPrefix}:segment:${name}:info`,
+        `${this.featureKeyPrefix}:segment:${name}:users`,
+      );
+    await this.commitWithChange(transaction, { segment: name });
+  }
+
+  /**
+   * Publishes a change event from a write transaction and commits it, so that the event is only
+   * sent once the write is applied and other instances never reload a partial update.
+   *
+   * @param {ChainableCommander} transaction - The `MULTI` transaction holding the write
+   * @param {FeatureFlagChange} change - The flag or segment that changed
+   * @returns {Promise<void>} Promise that resolves when the transaction is committed
+   *
+   * @throws {Error} If the transaction is aborted or one of its commands fails
+   */
+  private async commitWithChange(
+    transaction: ChainableCommander,
+    change: FeatureFlagChange,
+  ): Promise<void> {
+    transaction.publish(this.changeChannel, JSON.stringify(change));
+
+    const results = await transaction.exec();
+    if (!results) throw new Error('Feature flag write transaction was aborted');
+    const failure = results.find(([error]) => error);
+    if (failure) throw failure[0];
+  }
+
+  /**
+   * Decides whether a user has access to a feature flag from its access state (see
+   * `hasFeatureFlag` for the access logic).
+   *
+   * @param {string} flag - The feature flag identifier
+   * @param {string} userId - The user identifier
+   * @param {FeatureAccessState} state - The flag info and memberships of the user
+   * @param {Record<string, unknown>} [attributes] - The user attributes tested by targeting rules
+   * @returns {Promise<boolean>} True if the user has access, false otherwise
+   */
+  private evaluateAccess(
+    flag: string,
+    userId: string,
+    state: FeatureAccessState,
+    attributes?: Record<string, unknown>,
+  ): Promise<boolean> {
+    return evaluateFeatureAccess(flag, userId, toAccessState(state), {
+      attributes,
+      now: this.clock.now(),
+      isInAnySegment: (segments) => this.isInAnySegment(segments, userId, attributes),
+    });
+  }
+
+  /**
+   * Checks whether a user belongs to any of the given segments.
+   *
+   * Listed users are found with a set membership test; the segment rules are only fetched when
+   * the user is not listed. Missing segments have no members, and malformed segment rules match
+   * no one.
+   *
+   * @param {string[]} segments - The segment names
+   * @param {string} userId - The user identifier
+   * @param {Record<string, unknown>} [attributes] - The user attributes tested by segment rules
+   * @returns {Promise<boolean>} True if the user is a member of at least one segment
+   */
+  private async isInAnySegment(
+    segments: string[],
+    userId: string,
+    attributes?: Record<string, unknown>,
+  ): Promise<boolean> {
+    for (const name of segments) {
+      const segmentInfoKey = `${this.featureKeyPrefix}:segment:${name}:info`;
+      const segmentUsersKey = `${this.featureKeyPrefix}:segment:${name}:users`;
+
+      if (await this.redis.sismember(segmentUsersKey, userId)) return true;
+
+      const rules = parseJsonList<FeatureFlagTargetingRule>(
+        await this.redis.hget(segmentInfoKey, 'rules'),
+      );
+      if (rules && isInSegment({ name, rules }, userId, attributes)) return true;
     }
 
-    // For targeted features, only users in the list have access
-    const isUserInList = userIds.includes(userId);
-    return isUserInList;
+    return false;
+  }
+
+  /**
+   * Reads the info and the user and tenant memberships of a user for several feature flags in one
+   * transaction.
+   *
+   * Only `SISMEMBER` and `EXISTS` are used on the sets, so the cost is constant whatever the size
+   * of the lists, and the transaction never observes a write half-applied.
+   *
+   * @param {string[]} flags - The feature flag identifiers
+   * @param {string} userId - The user identifier
+   * @param {string} [tenantId] - The tenant the user belongs to
+   * @returns {Promise<FeatureAccessState[]>} The access state of the user, in the order of `flags`
+   *
+   * @throws {Error} If a Redis command fails
+   */
+  private async readAccessStates(
+    flags: string[],
+    userId: string,
+    tenantId?: string,
+  ): Promise<FeatureAccessState[]> {
+    const transaction = this.redis.multi();
+
+    for (const flag of flags) {
+      const featureUsersKey = `${this.featureKeyPrefix}:${flag}:users`;
+      const featureTenantsKey = `${this.featureKeyPrefix}:${flag}:tenants`;
+
+      transaction
+        .hgetall(`${this.featureKeyPrefix}:${flag}:info`)
+        .sismember(`${this.featureKeyPrefix}:${flag}:excluded-users`, userId)
+        .sismember(featureUsersKey, userId)
+        // Redis removes empty sets, so an existing list has members
+        .exists(featureUsersKey)
+        .exists(featureTenantsKey);
+      if (tenantId !== undefined) {
+        transaction
+          .sismember(`${this.featureKeyPrefix}:${flag}:excluded-tenants`, tenantId)
+          .sismember(featureTenantsKey, tenantId);
+      }
+    }
+
+    const results = await transaction.exec();
+    if (!results) throw new Error('Feature access transaction was aborted');
+    const failure = results.find(([error]) => error);
+    if (failure) throw failure[0];
+
+    const commandsPerFlag = tenantId !== undefined ? 7 : 5;
+
+    return flags.map((_, index) => {
+      const [info, excludedUser, listedUser, hasUsers, hasTenants, excludedTenant, listedTenant] =
+        results
+          .slice(index * commandsPerFlag, (index + 1) * commandsPerFlag)
+          .map(([, value]) => value);
+
+      return {
+        info: (info as Record<string, string> | null) ?? {},
+        excludedUser: excludedUser === 1,
+        excludedTenant: excludedTenant === 1,
+        listedUser: listedUser === 1,
+        hasUsers: hasUsers === 1,
+        listedTenant: listedTenant === 1,
+        hasTenants: hasTenants === 1,
+      };
+    });
+  }
+
+  /**
+   * Replaces an info hash and its member sets in a single transaction.
+   *
+   * Non-empty sets are staged in temporary keys first (large lists take several `SADD` batches),
+   * then one MULTI/EXEC replaces the hash and renames the staged sets into place; sets without
+   * members are deleted. Readers see either the previous or the new state, never a mix. The change
+   * event is published by the same transaction, so it is only sent when the write is committed.
+   *
+   * @param {string} infoKey - The Redis key of the info hash
+   * @param {Record<string, string>} info - The new hash fields
+   * @param {[string, string[] | undefined][]} sets - The Redis keys of the sets and their members
+   * @param {FeatureFlagChange} change - The change event to publish
+   * @returns {Promise<void>} Promise that resolves when the transaction is committed
+   *
+   * @throws {Error} If a Redis command fails; staged sets are then removed and nothing is changed
+   */
+  private async replaceAtomically(
+    infoKey: string,
+    info: Record<string, string>,
+    sets: [string, string[] | undefined][],
+    change: FeatureFlagChange,
+  ): Promise<void> {
+    const staged = new Map<string, string>();
+
+    try {
+      for (const [key, ids] of sets) {
+        if (!ids || ids.length === 0) continue;
+
+        const stagingKey = `${key}:staging:${randomUUID()}`;
+        staged.set(key, stagingKey);
+        await this.addMembers(stagingKey, ids);
+        await this.redis.pexpire(stagingKey, STAGING_TTL_MS);
+      }
+
+      const transaction = this.redis.multi().del(infoKey).hmset(infoKey, info);
+      for (const [key] of sets) {
+        const stagingKey = staged.get(key);
+        if (stagingKey) {
+          transaction.rename(stagingKey, key).persist(key);
+        } else {
+          transaction.del(key);
+        }
+      }
+      await this.commitWithChange(transaction, change);
+    } catch (error) {
+      if (staged.size > 0) {
+        await this.redis.del(...staged.values()).catch(() => undefined);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Adds members to a user or tenant set.
+   *
+   * @param {string} key - The Redis key of the set
+   * @param {string[]} ids - The members to add
+   * @returns {Promise<void>} Promise that resolves when the members are added
+   */
+  private async addMembers(key: string, ids: string[]): Promise<void> {
+    // Add members to the set in batches to avoid stack overflow
+    const batchSize = 1000;
+    for (let i = 0; i < ids.length; i += batchSize) {
+      const batch = ids.slice(i, i + batchSize);
+      await this.redis.sadd(key, ...batch);
+    }
+  }
+
+  /**
+   * Ensures a feature flag exists before it is updated incrementally, so that an update never
+   * creates a partial flag.
+   *
+   * @param {string} flag - The feature flag identifier
+   * @returns {Promise<void>} Promise that resolves if the flag exists
+   *
+   * @throws {Error} If the feature flag doesn't exist
+   */
+  private async assertFeatureExists(flag: string): Promise<void> {
+    const exists = await this.redis.hexists(`${this.featureKeyPrefix}:${flag}:info`, 'enabled');
+    if (!exists) {
+      throw new Error(`Feature flag "${flag}" does not exist`);
+    }
+  }
+}
+
+/**
+ * Validates a flag name before its keys are written.
+ *
+ * @param {string} flag - The feature flag identifier
+ *
+ * @throws {Error} If the name starts with `segment:`, whose keys belong to segments
+ */
+function validateFlagName(flag: string): void {
+  if (flag.startsWith('segment:')) {
+    throw new Error(
+      `Feature flag "${flag}" is invalid: names starting with "segment:" are reserved`,
+    );
+  }
+}
+
+/**
+ * Normalizes the access state read from Redis for `evaluateFeatureAccess`.
+ *
+ * @param {FeatureAccessState} state - The flag info and memberships of the user
+ * @returns {FeatureFlagAccessState} The flag state, disabled for a missing flag
+ */
+function toAccessState(state: FeatureAccessState): FeatureFlagAccessState {
+  const { info } = state;
+
+  return {
+    enabled: info.enabled === 'true',
+    ...parseSchedule(info),
+    rolloutPercentage: parseRolloutPercentage(info.rolloutPercentage),
+    rules: parseJsonList<FeatureFlagTargetingRule>(info.rules),
+    segments: parseJsonList<string>(info.segments),
+    excludedSegments: parseJsonList<string>(info.excludedSegments),
+    // A flag whose listed users were all removed stays targeted
+    userTargeted: state.hasUsers || info.userTargeted === 'true',
+    tenantTargeted: state.hasTenants,
+    listedUser: state.listedUser,
+    listedTenant: state.listedTenant,
+    excludedUser: state.excludedUser,
+    excludedTenant: state.excludedTenant,
+  };
+}
+
+/**
+ * Parses the rollout percentage stored in the feature info hash.
+ *
+ * @param {string | undefined} value - The stored value
+ * @returns {number | undefined} The percentage, `undefined` if absent, or `0` if malformed so that a
+ *   corrupted value never turns a rollout into a global feature
+ */
+function parseRolloutPercentage(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+
+  const percentage = Number(value);
+  return Number.isFinite(percentage) ? percentage : 0;
+}
+
+/**
+ * Parses the schedule stored in the feature info hash.
+ *
+ * Malformed bounds parse to `NaN`, which `isWithinSchedule` never matches.
+ *
+ * @param {Record<string, string>} info - The feature info hash
+ * @returns {{ enableAt?: number; disableAt?: number }} The schedule bounds in epoch milliseconds
+ */
+function parseSchedule(info: Record<string, string>): { enableAt?: number; disableAt?: number } {
+  return {
+    enableAt: info.enableAt !== undefined ? Number(info.enableAt) : undefined,
+    disableAt: info.disableAt !== undefined ? Number(info.disableAt) : undefined,
+  };
+}
+
+/**
+ * Parses the variants stored as JSON in the feature info hash.
+ *
+ * @param {string | null | undefined} value - The stored value
+ * @returns {FeatureFlagVariant[] | undefined} The variants, or `undefined` if absent or malformed
+ */
+function parseVariants(value: string | null | undefined): FeatureFlagVariant[] | undefined {
+  if (value === undefined || value === null) return undefined;
+
+  try {
+    const variants = JSON.parse(value);
+    return Array.isArray(variants) ? variants : undefined;
+  } catch {
+    return undefined;
   }
 }
@@ -0,0 +1,131 @@
+import { Logger, OnApplicationShutdown, OnModuleInit } from '@nestjs/common';
+import Redis from 'ioredis';
+import { CachedFeatureGuardStore } from './cached-feature-guard-store';
+import { DEFAULT_REDIS_KEY_PREFIX } from './feature-flag.constants';
+import { FeatureFlagChange, getFeatureFlagChangeChannel } from './redis-feature-flag-cache';
+
+/**
+ * Evicts flags from a local cache when another instance changes them in Redis.
+ *
+ * Listens on the channel the RedisFeatureFlagCache publishes its change events on: a flag change
+ * invalidates that flag, a segment change invalidates every flag (any flag may reference the
+ * segment), and an unreadable event invalidates everything. Events published while the
+ * connection is down are lost, so the whole cache is invalidated again on every reconnect.
+ *
+ * The Redis client is put in subscriber mode and can't run other commands: give the subscriber a
+ * dedicated connection, e.g. `redis.duplicate()`.
+ *
+ * Registered as a NestJS provider, it subscribes on module init and unsubscribes on shutdown;
+ * otherwise call `subscribe()` and `unsubscribe()` yourself.
+ *
+ * @class RedisFeatureFlagChangeSubscriber
+ *
+ * @example
+ * ```typescript
+ * const store = new CachedFeatureGuardStore(new RedisFeatureFlagCache(redis, 'myapp:flags'));
+ *
+ * @Module({
+ *   imports: [FeatureGuardModule.forRoot({ store })],
+ *   providers: [
+ *     {
+ *       provide: RedisFeatureFlagChangeSubscriber,
+ *       useFactory: () =>
+ *         new RedisFeatureFlagChangeSubscriber(redis.duplicate(), store, 'myapp:flags'),
+ *     },
+ *   ],
+ * })
+ * export class AppModule {}
+ * ```
+ */
+export class RedisFeatureFlagChangeSubscriber implements OnModuleInit, OnApplicationShutdown {
+  private readonly logger = new Logger(RedisFeatureFlagChangeSubscriber.name);
+  private readonly channel: string;
+  private subscribed = false;
+
+  /**
+   * Creates a new change subscriber.
+   *
+   * @param {Redis} redis - A Redis connection dedicated to the subscription
+   * @param {Pick<CachedFeatureGuardStore, 'invalidate'>} cache - The local cache to invalidate
+   * @param {string} [featureKeyPrefix='crudmates:feature-guard'] - The key prefix of the Redis
+   *   store publishing the changes
+   */
+  constructor(
+    private readonly redis: Redis,
+    private readonly cache: Pick<CachedFeatureGuardStore, 'invalidate'>,
+    featureKeyPrefix = DEFAULT_REDIS_KEY_PREFIX,
+  ) {
+    this.channel = getFeatureFlagChangeChannel(featureKeyPrefix);
+  }
+
+  async onModuleInit(): Promise<void> {
+    await this.subscribe();
+  }
+
+  async onApplicationShutdown(): Promise<void> {
+    await this.unsubscribe();
+  }
+
+  /**
+   * Starts listening for changes. Calling it again while subscribed has no effect.
+   *
+   * @returns {Promise<void>} Promise that resolves once subscribed
+   */
+  async subscribe(): Promise<void> {
+    if (this.subscribed) return;
+    this.subscribed = true;
+
+    this.redis.on('message', this.onMessage);
+    this.redis.on('ready', this.onReconnect);
+
+    try {
+      await this.redis.subscribe(this.channel);
+    } catch (error) {
+      this.detach();
+      throw error;
+    }
+  }
+
+  /**
+   * Stops listening for changes.
+   *
+   * @returns {Promise<void>} Promise that resolves once unsubscribed
+   */
+  async unsubscribe(): Promise<void> {
+    if (!this.subscribed) return;
+
+    this.detach();
+    await this.redis.unsubscribe(this.channel);
+  }
+
+  /**
+   * Removes the event listeners, so that no message or reconnect reaches the cache anymore.
+   */
+  private detach(): void {
+    this.subscribed = false;
+    this.redis.off('message', this.onMessage);
+    this.redis.off('ready', this.onReconnect);
+  }
+
+  private readonly onMessage = (channel: string, message: string): void => {
+    if (channel !== this.channel) return;
+
+    let change: FeatureFlagChange | undefined;
+    try {
+      change = JSON.parse(message);
+    } catch {
+      this.logger.warn(`Ignoring malformed feature flag change "${message}", clearing the cache`);
+    }
+
+    if (typeof change?.flag === 'string') {
+      this.cache.invalidate(change.flag);
+    } else {
+      this.cache.invalidate();
+    }
+  };
+
+  // ioredis resubscribes by itself, but changes published in the meantime were missed
+  private readonly onReconnect = (): void => {
+    this.cache.invalidate();
+  };
+}
@@ -0,0 +1,1017 @@
+import { OnModuleInit } from '@nestjs/common';
+import {
+  FeatureFlagEvaluation,
+  FeatureFlagEvaluationContext,
+  FeatureFlagInfo,
+  FeatureFlagSegment,
+  FeatureFlagTargetingRule,
+  FeatureFlagVariant,
+  FeatureGuardStore,
+  SetFeatureFlagOptions,
+} from './feature-flag-cache.interface';
+import {
+  evaluateFeatureAccess,
+  FeatureFlagAccessState,
+  parseJsonList,
+  validateUserIds,
+} from './feature-flag.access';
+import { validateRolloutPercentage } from './feature-flag.rollout';
+import {
+  FeatureFlagClock,
+  isWithinSchedule,
+  systemClock,
+  toScheduleTimestamp,
+  validateSchedule,
+} from './feature-flag.schedule';
+import { isInSegment, validateSegment, validateSegmentReferences } from './feature-flag.segments';
+import { validateTargetingRules } from './feature-flag.targeting';
+import { selectVariant, validateVariants } from './feature-flag.variants';
+
+/**
+ * Default prefix of the tables of the SQL store: `feature_flags`, `feature_flag_users`, ...
+ */
+export const DEFAULT_SQL_TABLE_PREFIX = 'feature_';
+
+/**
+ * Minimal SQL client the SQL store runs its queries with, so that it works on top of the
+ * connection an application already has (TypeORM, Knex, node-postgres, ...) without depending
+ * on any of them.
+ *
+ * Every value is passed as a query parameter, never interpolated into the SQL text. Writes use
+ * `INSERT ... ON CONFLICT`, so the database must be PostgreSQL or SQLite.
+ *
+ * @interface SqlFeatureGuardClient
+ *
+ * @example
+ * ```typescript
+ * // TypeORM DataSource
+ * const typeOrmClient = (manager: EntityManager): SqlFeatureGuardClient => ({
+ *   query: (sql, parameters) => manager.query(sql, parameters),
+ *   transaction: (work) => manager.transaction((trx) => work(typeOrmClient(trx))),
+ * });
+ * const store = new SqlFeatureGuardStore(typeOrmClient(dataSource.manager));
+ *
+ * // Knex on PostgreSQL or SQLite (always `?` placeholders)
+ * const knexClient = (db: Knex | Knex.Transaction): SqlFeatureGuardClient => ({
+ *   query: async (sql, parameters) => {
+ *     const result = await db.raw(sql, parameters);
+ *     return result.rows ?? result;
+ *   },
+ *   transaction: (work) => db.transaction((trx) => work(knexClient(trx))),
+ * });
+ * const store = new SqlFeatureGuardStore(knexClient(knex), { placeholder: '?' });
+ * ```
+ */
+export interface SqlFeatureGuardClient {
+  /**
+   * Runs a parameterized SQL statement.
+   *
+   * @param {string} sql - The SQL text, with placeholders in the style of the store options
+   * @param {unknown[]} parameters - The values of the placeholders, in order
+   * @returns {Promise<Record<string, unknown>[]>} The rows returned, empty for writes
+   */
+  query(sql: string, parameters: unknown[]): Promise<Record<string, unknown>[]>;
+
+  /**
+   * Runs statements in a transaction, committed when `work` resolves and rolled back when it
+   * rejects.
+   *
+   * @param {Function} work - The statements, run with a client bound to the transaction
+   * @returns {Promise<T>} The result of `work`
+   */
+  transaction<T>(work: (client: SqlFeatureGuardClient) => Promise<T>): Promise<T>;
+}
+
+/**
+ * Additional options for the SQL feature flag store.
+ *
+ * @interface SqlFeatureGuardStoreOptions
+ * @property {string} [tablePrefix='feature_'] - Prefix of the table names; letters, digits and
+ *   underscores only
+ * @property {'$n' | '?'} [placeholder='$n'] - Placeholder style of the client: `$1, $2` for
+ *   PostgreSQL drivers, `?` for SQLite drivers and Knex
+ * @property {boolean} [migrate=false] - Apply pending migrations when the module initializes
+ * @property {FeatureFlagClock} [clock] - Time source for flag schedules (default: system clock)
+ */
+export interface SqlFeatureGuardStoreOptions {
+  tablePrefix?: string;
+  placeholder?: '$n' | '?';
+  migrate?: boolean;
+  clock?: FeatureFlagClock;
+}
+
+/**
+ * A versioned change to the schema of the SQL store.
+ *
+ * @interface SqlFeatureGuardMigration
+ * @property {number} version - The schema version the migration brings the tables to
+ * @property {string} name - A short description of the migration
+ * @property {string[]} statements - The DDL statements, run in order
+ */
+export interface SqlFeatureGuardMigration {
+  version: number;
+  name: string;
+  statements: string[];
+}
+
+/**
+ * Names of the tables of the SQL store.
+ *
+ * @interface SqlFeatureGuardTables
+ */
+interface SqlFeatureGuardTables {
+  flags: string;
+  users: string;
+  tenants: string;
+  excludedUsers: string;
+  excludedTenants: string;
+  segments: string;
+  segmentUsers: string;
+  migrations: string;
+}
+
+/**
+ * A table holding the user or tenant IDs of a flag list, and the column the IDs are stored in.
+ *
+ * @interface MemberTable
+ */
+interface MemberTable {
+  table: string;
+  column: 'user_id' | 'tenant_id';
+}
+
+/**
+ * Row read by `hasFeatureFlag` and `evaluateFlags`: the flag columns and the memberships of the
+ * user, computed by the database.
+ *
+ * Drivers return booleans as `true`/`false` (PostgreSQL) or `1`/`0` (SQLite), and `BIGINT`
+ * columns as strings (node-postgres), hence `unknown`.
+ *
+ * @interface FeatureAccessRow
+ */
+interface FeatureAccessRow {
+  flag: string;
+  enabled: unknown;
+  rollout_percentage: unknown;
+  enable_at: unknown;
+  disable_at: unknown;
+  variants: string | null;
+  rules: string | null;
+  segments: string | null;
+  excluded_segments: string | null;
+  user_targeted: unknown;
+  listed_user: unknown;
+  has_users: unknown;
+  listed_tenant: unknown;
+  has_tenants: unknown;
+  excluded_user: unknown;
+  excluded_tenant: unknown;
+}
+
+/**
+ * Maximum number of IDs written per statement, keeping statements under the default limit of
+ * 999 parameters of SQLite.
+ */
+const BATCH_SIZE = 400;
+
+/**
+ * Returns the schema migrations of the SQL store, in order.
+ *
+ * `SqlFeatureGuardStore.migrate()` applies them and records the applied versions in the
+ * `{prefix}migrations` table. Applications managing their schema with their own tool (TypeORM or
+ * Knex migrations, Flyway, ...) can run these statements from it instead.
+ *
+ * The schema uses portable types and runs unchanged on PostgreSQL and SQLite. Every ID list is a
+ * table keyed by `(flag, user_id)` or `(flag, tenant_id)`, which serves both the membership checks
+ * and the lookups of a whole list.
+ *
+ * @param {string} [tablePrefix='feature_'] - Prefix of the table names
+ * @returns {SqlFeatureGuardMigration[]} The migrations, by ascending version
+ *
+ * @throws {Error} If the table prefix is not a valid identifier prefix
+ *
+ * @example
+ * ```typescript
+ * // In a TypeORM migration
+ * export class FeatureFlags1732752000000 implements MigrationInterface {
+ *   async up(queryRunner: QueryRunner): Promise<void> {
+ *     for (const { statements } of getSqlFeatureGuardMigrations()) {
+ *       for (const statement of statements) await queryRunner.query(statement);
+ *     }
+ *   }
+ * }
+ * ```
+ */
+export function getSqlFeatureGuardMigrations(
+  tablePrefix: string = DEFAULT_SQL_TABLE_PREFIX,
+): SqlFeatureGuardMigration[] {
+  const tables = getTables(tablePrefix);
+  const memberTable = (table: string, column: string) =>
+    `CREATE TABLE ${table} (` +
+    `flag VARCHAR(255) NOT NULL REFERENCES ${tables.flags} (flag) ON DELETE CASCADE, ` +
+    `${column} VARCHAR(255) NOT NULL, ` +
+    `PRIMARY KEY (flag, ${column}))`;
+
+  return [
+    {
+      version: 1,
+      name: 'Create the feature flag and segment tables',
+      statements: [
+        `CREATE TABLE ${tables.flags} (` +
+          'flag VARCHAR(255) PRIMARY KEY, ' +
+          'enabled BOOLEAN NOT NULL, ' +
+          'rollout_percentage DOUBLE PRECISION, ' +
+          'enable_at BIGINT, ' +
+          'disable_at BIGINT, ' +
+          'variants TEXT, ' +
+          'rules TEXT, ' +
+          'segments TEXT, ' +
+          'excluded_segments TEXT, ' +
+          'user_targeted BOOLEAN NOT NULL DEFAULT FALSE)',
+        memberTable(tables.users, 'user_id'),
+        memberTable(tables.tenants, 'tenant_id'),
+        memberTable(tables.excludedUsers, 'user_id'),
+        memberTable(tables.excludedTenants, 'tenant_id'),
+        `CREATE TABLE ${tables.segments} (` +
+          'name VARCHAR(255) PRIMARY KEY, ' +
+          'rules TEXT NOT NULL)',
+        `CREATE TABLE ${tables.segmentUsers} (` +
+          `segment VARCHAR(255) NOT NULL REFERENCES ${tables.segments} (name) ON DELETE CASCADE, ` +
+          'user_id VARCHAR(255) NOT NULL, ' +
+          'PRIMARY KEY (segment, user_id))',
+      ],
+    },
+  ];
+}
+
+/**
+ * SQL implementation of the FeatureGuardStore interface, for teams whose relational database is
+ * the source of truth for entitlements.
+ *
+ * Applies exactly the same access logic, validation and reporting as the RedisFeatureFlagCache:
+ * a flag without users, tenants, segments or granting rules is global. Queries run through a
+ * minimal `SqlFeatureGuardClient`, so the store works with TypeORM, Knex or a plain driver, on
+ * PostgreSQL in production and SQLite in tests.
+ *
+ * Tables (see `getSqlFeatureGuardMigrations`):
+ * - `{prefix}flags` - One row per flag: enabled state, rollout percentage, schedule, variants,
+ *   rules and segment names as JSON, and `user_targeted`, which keeps a flag given a user list
+ *   targeted once every listed user is removed
+ * - `{prefix}flag_users`, `{prefix}flag_tenants` - User and tenant IDs with access
+ * - `{prefix}flag_excluded_users`, `{prefix}flag_excluded_tenants` - IDs denied access
+ * - `{prefix}segments`, `{prefix}segment_users` - User segments shared by flags
+ * - `{prefix}migrations` - Applied schema versions
+ *
+ * Key Features:
+ * - Atomic writes: a flag or segment is replaced in a single transaction
+ * - Access checks in one query: memberships are tested with `EXISTS` on the `(flag, user_id)`
+ *   keys, never loading user or tenant lists; flags referencing segments take one more query
+ * - Parameterized queries only; table names come from a validated prefix
+ *
+ * @class SqlFeatureGuardStore
+ * @implements {FeatureGuardStore}
+ * @implements {OnModuleInit}
+ *
+ * @example
+ * ```typescript
+ * import { FeatureGuardModule, SqlFeatureGuardStore } from 'nest-feature-guard';
+ *
+ * @Module({
+ *   imports: [
+ *     FeatureGuardModule.forRootAsync({
+ *       inject: [DataSource],
+ *       useFactory: (dataSource: DataSource) => ({
+ *         store: new SqlFeatureGuardStore(typeOrmClient(dataSource.manager), { migrate: true }),
+ *       }),
+ *     }),
+ *   ],
+ * })
+ * export class AppModule {}
+ * ```
+ */
+export class SqlFeatureGuardStore implements FeatureGuardStore, OnModuleInit {
+  private readonly client: SqlFeatureGuardClient;
+  private readonly tablePrefix: string;
+  private readonly tables: SqlFeatureGuardTables;
+  private readonly memberTables: Record<
+    'userIds' | 'tenantIds' | 'excludedUserIds' | 'excludedTenantIds',
+    MemberTable
+  >;
+  private readonly placeholder: '$n' | '?';
+  private readonly shouldMigrate: boolean;
+  private readonly clock: FeatureFlagClock;
+
+  /**
+   * Creates a new SQL feature flag store instance.
+   *
+   * @param {SqlFeatureGuardClient} client - The client running the queries
+   * @param {SqlFeatureGuardStoreOptions} [options] - Table prefix, placeholder style, migrations
+   *   and clock
+   *
+   * @throws {Error} If the table prefix is not a valid identifier prefix
+   */
+  constructor(client: SqlFeatureGuardClient, options: SqlFeatureGuardStoreOptions = {}) {
+    this.client = client;
+    this.tablePrefix = options.tablePrefix ?? DEFAULT_SQL_TABLE_PREFIX;
+    this.tables = getTables(this.tablePrefix);
+    this.memberTables = {
+      userIds: { table: this.tables.users, column: 'user_id' },
+      tenantIds: { table: this.tables.tenants, column: 'tenant_id' },
+      excludedUserIds: { table: this.tables.excludedUsers, column: 'user_id' },
+      excludedTenantIds: { table: this.tables.excludedTenants, column: 'tenant_id' },
+    };
+    this.placeholder = options.placeholder ?? '$n';
+    this.shouldMigrate = options.migrate ?? false;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  /**
+   * Applies pending migrations on application startup when the `migrate` option is set.
+   *
+   * @returns {Promise<void>} Promise that resolves when the schema is up to date
+   */
+  async onModuleInit(): Promise<void> {
+    if (this.shouldMigrate) await this.migrate();
+  }
+
+  /**
+   * Creates or upgrades the tables of the store.
+   *
+   * Each pending migration runs in its own transaction together with the insertion of its
+   * version in `{prefix}migrations`, so a failed migration is retried as a whole. Applied
+   * migrations are skipped, which makes the call safe on every startup.
+   *
+   * The version is inserted before the statements run: when several instances migrate at once,
+   * the database makes the others wait on its primary key until the first one commits, then
+   * their insertion fails and the migration is treated as applied.
+   *
+   * @returns {Promise<number[]>} The versions applied by this call
+   *
+   * @throws {Error} If a statement fails; the failed migration is rolled back
+   */
+  async migrate(): Promise<number[]> {
+    await this.query(
+      this.client,
+      `CREATE TABLE IF NOT EXISTS ${this.tables.migrations} (` +
+        'version INTEGER PRIMARY KEY, name VARCHAR(255) NOT NULL, applied_at BIGINT NOT NULL)',
+    );
+    const applied = await this.readAppliedVersions();
+
+    const pending = getSqlFeatureGuardMigrations(this.tablePrefix).filter(
+      ({ version }) => !applied.has(version),
+    );
+    const appliedNow: number[] = [];
+    for (const { version, name, statements } of pending) {
+      try {
+        await this.client.transaction(async (trx) => {
+          await this.query(
+            trx,
+            `INSERT INTO ${this.tables.migrations} (version, name, applied_at) VALUES (?, ?, ?)`,
+            [version, name, Date.now()],
+          );
+          for (const statement of statements) await this.query(trx, statement);
+        });
+        appliedNow.push(version);
+      } catch (error) {
+        // Applied meanwhile by another instance
+        if ((await this.readAppliedVersions()).has(version)) continue;
+        throw error;
+      }
+    }
+
+    return appliedNow;
+  }
+
+  /**
+   * Sets or replaces a feature flag.
+   *
+   * The flag row is upserted and its ID lists rewritten in a single transaction, so a flag is
+   * never observed with its new settings and a partial user list.
+   *
+   * @param {SetFeatureFlagOptions} options - The feature flag configuration
+   * @returns {Promise<void>} Promise that resolves when the transaction is committed
+   *
+   * @throws {Error} If `rolloutPercentage`, the schedule, the variants, the rules or the segment
+   *   names are invalid, or a query fails
+   */
+  async setFeatureFlag({
+    flag,
+    enabled,
+    userIds,
+    tenantIds,
+    rolloutPercentage,
+    enableAt,
+    disableAt,
+    variants,
+    rules,
+    segments,
+    excludedUserIds,
+    excludedTenantIds,
+    excludedSegments,
+  }: SetFeatureFlagOptions): Promise<void> {
+    validateRolloutPercentage(rolloutPercentage);
+    validateSchedule({ enableAt, disableAt });
+    validateVariants(variants);
+    validateTargetingRules(rules);
+    validateSegmentReferences(segments);
+    validateSegmentReferences(excludedSegments, 'excludedSegments');
+
+    const lists: [MemberTable, string[] | undefined][] = [
+      [this.memberTables.userIds, userIds],
+      [this.memberTables.tenantIds, tenantIds],
+      [this.memberTables.excludedUserIds, excludedUserIds],
+      [this.memberTables.excludedTenantIds, excludedTenantIds],
+    ];
+
+    await this.client.transaction(async (trx) => {
+      await this.query(
+        trx,
+        `INSERT INTO ${this.tables.flags} (flag, enabled, rollout_percentage, enable_at, ` +
+          'disable_at, variants, rules, segments, excluded_segments, user_targeted) ' +
+          'VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?) ' +
+          'ON CONFLICT (flag) DO UPDATE SET enabled = excluded.enabled, ' +
+          'rollout_percentage = excluded.rollout_percentage, enable_at = excluded.enable_at, ' +
+          'disable_at = excluded.disable_at, variants = excluded.variants, ' +
+          'rules = excluded.rules, segments = excluded.segments, ' +
+          'excluded_segments = excluded.excluded_segments, ' +
+          'user_targeted = excluded.user_targeted',
+        [
+          flag,
+          enabled,
+          rolloutPercentage ?? null,
+          toScheduleTimestamp(enableAt) ?? null,
+          toScheduleTimestamp(disableAt) ?? null,
+          variants ? JSON.stringify(variants) : null,
+          toJsonList(rules),
+          toJsonList(segments),
+          toJsonList(excludedSegments),
+          userIds !== undefined && userIds.length > 0,
+        ],
+      );
+
+      for (const [{ table, column }, ids] of lists) {
+        await this.query(trx, `DELETE FROM ${table} WHERE flag = ?`, [flag]);
+        await this.insertMembers(trx, table, 'flag', column, flag, ids);
+      }
+    });
+  }
+
+  /**
+   * Retrieves feature flag metadata.
+   *
+   * @param {string} flag - The feature flag identifier
+   * @returns {Promise<FeatureFlagInfo | null>} Feature metadata, with `enabled` false outside the
+   *   schedule, or null if the flag doesn't exist
+   *
+   * @throws {Error} If a query fails
+   */
+  async getFeature(flag: string): Promise<FeatureFlagInfo | null> {
+    const [row] = await this.query(
+      this.client,
+      `SELECT * FROM ${this.tables.flags} WHERE flag = ?`,
+      [flag],
+    );
+    if (!row) return null;
+
+    // Every ID list is read in one query, tagged with the list it belongs to
+    const members = await this.query(
+      this.client,
+      Object.entries(this.memberTables)
+        .map(
+          ([list, { table, column }]) =>
+            `SELECT '${list}' AS list, ${column} AS id FROM ${table} WHERE flag = ?`,
+        )
+        .join(' UNION ALL ') + ' ORDER BY id',
+      Object.keys(this.memberTables).map(() => flag),
+    );
+    const idsOf = (list: string) =>
+      members.filter((member) => member.list === list).map((member) => String(member.id));
+    const tenantIds = idsOf('tenantIds');
+    const excludedUserIds = idsOf('excludedUserIds');
+    const excludedTenantIds = idsOf('excludedTenantIds');
+    const userIds = idsOf('userIds');
+
+    const schedule = { enableAt: toNumber(row.enable_at), disableAt: toNumber(row.disable_at) };
+    const enabled = isTrue(row.enabled) && isWithinSchedule(schedule, this.clock.now());
+    const rolloutPercentage = toRolloutPercentage(row.rollout_percentage);
+    const variants = parseJsonList<FeatureFlagVariant>(row.variants as string | null) ?? undefined;
+    const rules = parseJsonList<FeatureFlagTargetingRule>(row.rules as string | null);
+    const segments = parseJsonList<string>(row.segments as string | null);
+    const excludedSegments = parseJsonList<string>(row.excluded_segments as string | null);
+
+    return {
+      enabled,
+      userIds: userIds.length > 0 || isTrue(row.user_targeted) ? userIds : undefined,
+      ...(tenantIds.length > 0 && { tenantIds }),
+      ...(rolloutPercentage !== undefined && { rolloutPercentage }),
+      ...(schedule.enableAt !== undefined && { enableAt: new Date(schedule.enableAt) }),
+      ...(schedule.disableAt !== undefined && { disableAt: new Date(schedule.disableAt) }),
+      ...(variants !== undefined && { variants }),
+      ...(rules && { rules }),
+      ...(segments && { segments }),
+      ...(excludedUserIds.length > 0 && { excludedUserIds }),
+      ...(excludedTenantIds.length > 0 && { excludedTenantIds }),
+      ...(excludedSegments && { excludedSegments }),
+    };
+  }
+
+  /**
+   * Checks if a specific user has access to a feature flag, with the access logic of
+   * `evaluateFeatureAccess` shared by every store.
+   *
+   * The flag row and the memberships of the user are read in a single query, so the cost of a
+   * check doesn't depend on the size of the lists.
+   *
+   * @param {string} flag - The feature flag identifier
+   * @param {string} userId - The user identifier to check
+   * @param {Record<string, unknown>} [attributes] - The user attributes tested by targeting rules
+   * @param {string} [tenantId] - The tenant the user belongs to, tested against the tenant list
+   * @returns {Promise<boolean>} True if the user has access, false otherwise
+   *
+   * @throws {Error} If a query fails
+   */
+  async hasFeatureFlag(
+    flag: string,
+    userId: string,
+    attributes?: Record<string, unknown>,
+    tenantId?: string,
+  ): Promise<boolean> {
+    const [row] = await this.readAccessRows([flag], userId, tenantId);
+    return row !== undefined && (await this.evaluateAccess(row, userId, attributes));
+  }
+
+  /**
+   * Resolves the variant of a multivariate feature flag for a user.
+   *
+   * @param {string} flag - The feature flag identifier
+   * @param {string} userId - The user identifier
+   * @param {Record<string, unknown>} [attributes] - The user attributes tested by targeting rules
+   * @param {string} [tenantId] - The tenant the user belongs to
+   * @returns {Promise<FeatureFlagVariant | null>} The assigned variant, or null if the user has no
+   *   access or the flag defines no variants
+   *
+   * @throws {Error} If a query fails
+   */
+  async getFeatureVariant(
+    flag: string,
+    userId: string,
+    attributes?: Record<string, unknown>,
+    tenantId?: string,
+  ): Promise<FeatureFlagVariant | null> {
+    const evaluations = await this.evaluateFlags([flag], { userId, attributes, tenantId });
+    return evaluations[flag].variant;
+  }
+
+  /**
+   * Evaluates several feature flags for a user in one call.
+   *
+   * The rows and memberships of every flag are read in a single query. Flags referencing
+   * segments take one more query per segment list checked.
+   *
+   * @param {string[]} flags - The feature flag identifiers
+   * @param {FeatureFlagEvaluationContext} context - The user to evaluate the flags for
+   * @returns {Promise<Record<string, FeatureFlagEvaluation>>} The evaluation of every flag
+   *
+   * @throws {Error} If a query fails
+   */
+  async evaluateFlags(
+    flags: string[],
+    { userId, attributes, tenantId }: FeatureFlagEvaluationContext,
+  ): Promise<Record<string, FeatureFlagEvaluation>> {
+    const uniqueFlags = [...new Set(flags)];
+    if (uniqueFlags.length === 0) return {};
+
+    const rows = await this.readAccessRows(uniqueFlags, userId, tenantId);
+    const rowsByFlag = new Map(rows.map((row) => [row.flag, row]));
+
+    const evaluations = await Promise.all(
+      uniqueFlags.map(async (flag) => {
+        const row = rowsByFlag.get(flag);
+        const enabled = row !== undefined && (await this.evaluateAccess(row, userId, attributes));
+        const variants = enabled ? parseJsonList<FeatureFlagVariant>(row!.variants) : undefined;
+        const variant = variants ? selectVariant(flag, userId, variants) : null;
+
+        return [flag, { enabled, variant }];
+      }),
+    );
+
+    return Object.fromEntries(evaluations);
+  }
+
+  /**
+   * Grants users access to a targeted feature flag, without rewriting the user list. Adding users
+   * to a flag without a user list makes it a targeted flag.
+   *
+   * @param {string} flag - The feature flag identifier
+   * @param {string[]} userIds - The user IDs to add
+   * @returns {Promise<void>} Promise that resolves when the users are added
+   *
+   * @throws {Error} If the user IDs are not an array of strings, the feature flag doesn't exist,
+   *   or a query fails
+   */
+  async addUsersToFeature(flag: string, userIds: string[]): Promise<void> {
+    validateUserIds(userIds);
+
+    await this.client.transaction(async (trx) => {
+      await this.assertFeatureExists(trx, flag);
+      if (userIds.length > 0) {
+        await this.query(trx, `UPDATE ${this.tables.flags} SET user_targeted = ? WHERE flag = ?`, [
+          true,
+          flag,
+        ]);
+      }
+      await this.insertMembers(trx, this.tables.users, 'flag', 'user_id', flag, userIds);
+    });
+  }
+
+  /**
+   * Revokes the access of users listed on a feature flag, without rewriting the user list.
+   * Removing users from a missing flag is a no-op.
+   *
+   * Removing the last listed user never makes the flag global: the `user_targeted` column keeps
+   * it targeted (at no one unless other targeting remains) until `setFeatureFlag` replaces it.
+   *
+   * @param {string} flag - The feature flag identifier
+   * @param {string[]} userIds - The user IDs to remove
+   * @returns {Promise<void>} Promise that resolves when the users are removed
+   *
+   * @throws {Error} If the user IDs are not an array of strings, or a query fails
+   */
+  async removeUsersFromFeature(flag: string, userIds: string[]): Promise<void> {
+    validateUserIds(userIds);
+
+    await this.client.transaction(async (trx) => {
+      for (let i = 0; i < userIds.length; i += BATCH_SIZE) {
+        const batch = userIds.slice(i, i + BATCH_SIZE);
+        await this.query(
+          trx,
+          `DELETE FROM ${this.tables.users} WHERE flag = ? AND user_id IN (${placeholders(batch)})`,
+          [flag, ...batch],
+        );
+      }
+    });
+  }
+
+  /**
+   * Turns a feature flag on or off, keeping its users, rules, schedule and other settings.
+   *
+   * @param {string} flag - The feature flag identifier
+   * @param {boolean} enabled - Whether the feature is enabled
+   * @returns {Promise<void>} Promise that resolves when the flag is updated
+   *
+   * @throws {Error} If the feature flag doesn't exist, or a query fails
+   */
+  async setFeatureEnabled(flag: string, enabled: boolean): Promise<void> {
+    await this.client.transaction(async (trx) => {
+      await this.assertFeatureExists(trx, flag);
+      await this.query(trx, `UPDATE ${this.tables.flags} SET enabled = ? WHERE flag = ?`, [
+        enabled,
+        flag,
+      ]);
+    });
+  }
+
+  /**
+   * Creates or replaces a user segment in a single transaction.
+   *
+   * @param {FeatureFlagSegment} segment - The segment definition
+   * @returns {Promise<void>} Promise that resolves when the transaction is committed
+   *
+   * @throws {Error} If the segment name, user IDs or rules are invalid, or a query fails
+   */
+  async setSegment({ name, userIds, rules }: FeatureFlagSegment): Promise<void> {
+    validateSegment({ name, userIds, rules });
+
+    await this.client.transaction(async (trx) => {
+      await this.query(
+        trx,
+        `INSERT INTO ${this.tables.segments} (name, rules) VALUES (?, ?) ` +
+          'ON CONFLICT (name) DO UPDATE SET rules = excluded.rules',
+        [name, JSON.stringify(rules ?? [])],
+      );
+      await this.query(trx, `DELETE FROM ${this.tables.segmentUsers} WHERE segment = ?`, [name]);
+      await this.insertMembers(trx, this.tables.segmentUsers, 'segment', 'user_id', name, userIds);
+    });
+  }
+
+  /**
+   * Retrieves a user segment.
+   *
+   * @param {string} name - The segment name
+   * @returns {Promise<FeatureFlagSegment | null>} The segment, or null if it doesn't exist
+   *
+   * @throws {Error} If a query fails
+   */
+  async getSegment(name: string): Promise<FeatureFlagSegment | null> {
+    const [row] = await this.query(
+      this.client,
+      `SELECT rules FROM ${this.tables.segments} WHERE name = ?`,
+      [name],
+    );
+    if (!row) return null;
+
+    const users = await this.query(
+      this.client,
+      `SELECT user_id FROM ${this.tables.segmentUsers} WHERE segment = ? ORDER BY user_id`,
+      [name],
+    );
+    const userIds = users.map((user) => String(user.user_id));
+    const rules = parseJsonList<FeatureFlagTargetingRule>(row.rules as string | null);
+
+    return {
+      name,
+      ...(userIds.length > 0 && { userIds }),
+      ...(rules && rules.length > 0 && { rules }),
+    };
+  }
+
+  /**
+   * Deletes a user segment. Flags still referencing it no longer grant access through it, but
+   * keep denying access to everyone else.
+   *
+   * @param {string} name - The segment name
+   * @returns {Promise<void>} Promise that resolves when the segment is deleted
+   *
+   * @throws {Error} If a query fails
+   */
+  async deleteSegment(name: string): Promise<void> {
+    await this.client.transaction(async (trx) => {
+      await this.query(trx, `DELETE FROM ${this.tables.segmentUsers} WHERE segment = ?`, [name]);
+      await this.query(trx, `DELETE FROM ${this.tables.segments} WHERE name = ?`, [name]);
+    });
+  }
+
+  /**
+   * Decides whether a user has access to a feature flag from its access row (see
+   * `evaluateFeatureAccess` for the access logic).
+   *
+   * @param {FeatureAccessRow} row - The flag columns and memberships of the user
+   * @param {string} userId - The user identifier
+   * @param {Record<string, unknown>} [attributes] - The user attributes tested by targeting rules
+   * @returns {Promise<boolean>} True if the user has access, false otherwise
+   */
+  private evaluateAccess(
+    row: FeatureAccessRow,
+    userId: string,
+    attributes?: Record<string, unknown>,
+  ): Promise<boolean> {
+    return evaluateFeatureAccess(row.flag, userId, toAccessState(row), {
+      attributes,
+      now: this.clock.now(),
+      isInAnySegment: (segments) => this.isInAnySegment(segments, userId, attributes),
+    });
+  }
+
+  /**
+   * Checks whether a user belongs to any of the given segments, in one query. Missing segments
+   * have no members, and malformed segment rules match no one.
+   *
+   * @param {string[]} names - The segment names
+   * @param {string} userId - The user identifier
+   * @param {Record<string, unknown>} [attributes] - The user attributes tested by segment rules
+   * @returns {Promise<boolean>} True if the user is a member of at least one segment
+   */
+  private async isInAnySegment(
+    names: string[],
+    userId: string,
+    attributes?: Record<string, unknown>,
+  ): Promise<boolean> {
+    if (names.length === 0) return false;
+
+    const rows = await this.query(
+      this.client,
+      `SELECT s.name, s.rules, EXISTS (SELECT 1 FROM ${this.tables.segmentUsers} m ` +
+        'WHERE m.segment = s.name AND m.user_id = ?) AS listed_user ' +
+        `FROM ${this.tables.segments} s WHERE s.name IN (${placeholders(names)})`,
+      [userId, ...names],
+    );
+
+    return rows.some((row) => {
+      if (isTrue(row.listed_user)) return true;
+
+      const rules = parseJsonList<FeatureFlagTargetingRule>(row.rules as string | null);
+      return rules !== null && isInSegment({ name: String(row.name), rules }, userId, attributes);
+    });
+  }
+
+  /**
+   * Reads the rows of several feature flags with the memberships of a user, in one query.
+   *
+   * Memberships are tested with `EXISTS` on the primary keys of the ID tables, so the cost is
+   * constant whatever the size of the lists. Missing flags have no row.
+   *
+   * @param {string[]} flags - The feature flag identifiers
+   * @param {string} userId - The user identifier
+   * @param {string} [tenantId] - The tenant the user belongs to
+   * @returns {Promise<FeatureAccessRow[]>} The rows of the existing flags
+   */
+  private async readAccessRows(
+    flags: string[],
+    userId: string,
+    tenantId?: string,
+  ): Promise<FeatureAccessRow[]> {
+    const { users, tenants, excludedUsers, excludedTenants } = this.tables;
+    const exists = (table: string, condition = '') =>
+      `EXISTS (SELECT 1 FROM ${table} m WHERE m.flag = f.flag${condition})`;
+
+    const rows = await this.query(
+      this.client,
+      'SELECT f.*, ' +
+        `${exists(users, ' AND m.user_id = ?')} AS listed_user, ` +
+        `${exists(users)} AS has_users, ` +
+        `${exists(tenants, ' AND m.tenant_id = ?')} AS listed_tenant, ` +
+        `${exists(tenants)} AS has_tenants, ` +
+        `${exists(excludedUsers, ' AND m.user_id = ?')} AS excluded_user, ` +
+        `${exists(excludedTenants, ' AND m.tenant_id = ?')} AS excluded_tenant ` +
+        `FROM ${this.tables.flags} f WHERE f.flag IN (${placeholders(flags)})`,
+      [userId, tenantId ?? null, userId, tenantId ?? null, ...flags],
+    );
+
+    return rows as unknown as FeatureAccessRow[];
+  }
+
+  /**
+   * Adds IDs to a flag or segment list, in batches. IDs already listed are skipped.
+   *
+   * @param {SqlFeatureGuardClient} client - The client of the current transaction
+   * @param {string} table - The ID table
+   * @param {string} keyColumn - The column referencing the flag or segment
+   * @param {string} idColumn - The ID column
+   * @param {string} key - The flag or segment name
+   * @param {string[]} [ids] - The IDs to add
+   * @returns {Promise<void>} Promise that resolves when the IDs are added
+   */
+  private async insertMembers(
+    client: SqlFeatureGuardClient,
+    table: string,
+    keyColumn: string,
+    idColumn: string,
+    key: string,
+    ids: string[] = [],
+  ): Promise<void> {
+    for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+      const batch = ids.slice(i, i + BATCH_SIZE);
+      await this.query(
+        client,
+        `INSERT INTO ${table} (${keyColumn}, ${idColumn}) ` +
+          `VALUES ${batch.map(() => '(?, ?)').join(', ')} ON CONFLICT DO NOTHING`,
+        batch.flatMap((id) => [key, id]),
+      );
+    }
+  }
+
+  /**
+   * Reads the schema versions recorded in `{prefix}migrations`.
+   *
+   * @returns {Promise<Set<number>>} The applied versions
+   */
+  private async readAppliedVersions(): Promise<Set<number>> {
+    const rows = await this.query(this.client, `SELECT version FROM ${this.tables.migrations}`);
+    return new Set(rows.map((row) => Number(row.version)));
+  }
+
+  /**
+   * Ensures a feature flag exists before it is updated incrementally, so that an update never
+   * creates a partial flag.
+   *
+   * @param {SqlFeatureGuardClient} client - The client of the current transaction
+   * @param {string} flag - The feature flag identifier
+   * @returns {Promise<void>} Promise that resolves if the flag exists
+   *
+   * @throws {Error} If the feature flag doesn't exist
+   */
+  private async assertFeatureExists(client: SqlFeatureGuardClient, flag: string): Promise<void> {
+    const rows = await this.query(
+      client,
+      `SELECT 1 AS found FROM ${this.tables.flags} WHERE flag = ?`,
+      [flag],
+    );
+    if (rows.length === 0) {
+      throw new Error(`Feature flag "${flag}" does not exist`);
+    }
+  }
+
+  /**
+   * Runs a statement written with `?` placeholders, numbering them for PostgreSQL drivers.
+   *
+   * @param {SqlFeatureGuardClient} client - The client to run the statement with
+   * @param {string} sql - The SQL text; never contains values, only placeholders
+   * @param {unknown[]} [parameters] - The values of the placeholders
+   * @returns {Promise<Record<string, unknown>[]>} The rows returned
+   */
+  private query(
+    client: SqlFeatureGuardClient,
+    sql: string,
+    parameters: unknown[] = [],
+  ): Promise<Record<string, unknown>[]> {
+    let index = 0;
+    const text = this.placeholder === '$n' ? sql.replace(/\?/g, () => `$${++index}`) : sql;
+    return client.query(text, parameters);
+  }
+}
+
+/**
+ * Returns the table names for a table prefix.
+ *
+ * @param {string} tablePrefix - The prefix, interpolated into every statement
+ * @returns {SqlFeatureGuardTables} The table names
+ *
+ * @throws {Error} If the prefix is not a valid identifier prefix
+ */
+function getTables(tablePrefix: string): SqlFeatureGuardTables {
+  if (!/^([A-Za-z_][A-Za-z0-9_]*)?$/.test(tablePrefix)) {
+    throw new Error(
+      `Invalid table prefix "${tablePrefix}": use letters, digits and underscores only`,
+    );
+  }
+
+  return {
+    flags: `${tablePrefix}flags`,
+    users: `${tablePrefix}flag_users`,
+    tenants: `${tablePrefix}flag_tenants`,
+    excludedUsers: `${tablePrefix}flag_excluded_users`,
+    excludedTenants: `${tablePrefix}flag_excluded_tenants`,
+    segments: `${tablePrefix}segments`,
+    segmentUsers: `${tablePrefix}segment_users`,
+    migrations: `${tablePrefix}migrations`,
+  };
+}
+
+/**
+ * Returns one `?` placeholder per value, for an `IN` list.
+ *
+ * @param {unknown[]} values - The values of the list
+ * @returns {string} The placeholders, comma-separated
+ */
+function placeholders(values: unknown[]): string {
+  return values.map(() => '?').join(', ');
+}
+
+/**
+ * Serializes a list to a JSON column, storing empty lists as `NULL`.
+ *
+ * @param {unknown[]} [list] - The rules or segment names
+ * @returns {string | null} The JSON text, or null
+ */
+function toJsonList(list?: unknown[]): string | null {
+  return list && list.length > 0 ? JSON.stringify(list) : null;
+}
+
+/**
+ * Reads a boolean column or `EXISTS` result, returned as `true`/`false` or `1`/`0` by drivers.
+ *
+ * @param {unknown} value - The column value
+ * @returns {boolean} Whether the value is true
+ */
+function isTrue(value: unknown): boolean {
+  return value === true || value === 1 || value === '1' || value === 't';
+}
+
+/**
+ * Normalizes an access row for `evaluateFeatureAccess`.
+ *
+ * @param {FeatureAccessRow} row - The flag columns and memberships of the user
+ * @returns {FeatureFlagAccessState} The flag state; malformed schedule bounds read as `NaN`
+ */
+function toAccessState(row: FeatureAccessRow): FeatureFlagAccessState {
+  return {
+    enabled: isTrue(row.enabled),
+    enableAt: toNumber(row.enable_at),
+    disableAt: toNumber(row.disable_at),
+    rolloutPercentage: toRolloutPercentage(row.rollout_percentage),
+    rules: parseJsonList<FeatureFlagTargetingRule>(row.rules),
+    segments: parseJsonList<string>(row.segments),
+    excludedSegments: parseJsonList<string>(row.excluded_segments),
+    // A flag whose listed users were all removed stays targeted
+    userTargeted: isTrue(row.has_users) || isTrue(row.user_targeted),
+    tenantTargeted: isTrue(row.has_tenants),
+    listedUser: isTrue(row.listed_user),
+    listedTenant: isTrue(row.listed_tenant),
+    excludedUser: isTrue(row.excluded_user),
+    excludedTenant: isTrue(row.excluded_tenant),
+  };
+}
+
+/**
+ * Reads the rollout percentage column.
+ *
+ * @param {unknown} value - The column value
+ * @returns {number | undefined} The percentage, `undefined` for `NULL`, or `0` if malformed so that
+ *   a corrupted value never turns a rollout into a global feature
+ */
+function toRolloutPercentage(value: unknown): number | undefined {
+  const percentage = toNumber(value);
+  if (percentage === undefined) return undefined;
+
+  return Number.isFinite(percentage) ? percentage : 0;
+}
+
+/**
+ * Reads a numeric column, returned as a string for `BIGINT` by some drivers.
+ *
+ * @param {unknown} value - The column value
+ * @returns {number | undefined} The number (`NaN` if malformed), or `undefined` for `NULL`
+ */
+function toNumber(value: unknown): number | undefined {
+  return value === null || value === undefined ? undefined : Number(value);
+}
@@ -0,0 +1,278 @@
+import { CachedFeatureGuardStore } from '../src/cached-feature-guard-store';
+import { FeatureGuardStore } from '../src/feature-flag-cache.interface';
+
+describe('CachedFeatureGuardStore', () => {
+  let store: jest.Mocked<FeatureGuardStore>;
+  let now: number;
+  const clock = { now: () => now };
+
+  const createCache = (options = {}) => new CachedFeatureGuardStore(store, { clock, ...options });
+
+  // Lets background reloads settle
+  const flushPromises = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(() => {
+    now = 0;
+    store = {
+      getFeature: jest.fn().mockResolvedValue({ enabled: true }),
+      hasFeatureFlag: jest.fn().mockResolvedValue(true),
+      setFeatureFlag: jest.fn().mockResolvedValue(undefined),
+    };
+  });
+
+  describe('getFeature', () => {
+    it('should serve cached results until the TTL expires', async () => {
+      const cache = createCache({ ttl: 1000 });
+
+      await cache.getFeature('beta');
+      now = 999;
+      await cache.getFeature('beta');
+      expect(store.getFeature).toHaveBeenCalledTimes(1);
+
+      now = 1000;
+      await cache.getFeature('beta');
+      expect(store.getFeature).toHaveBeenCalledTimes(2);
+    });
+
+    it('should cache missing flags', async () => {
+      store.getFeature.mockResolvedValue(null);
+      const cache = createCache();
+
+      await expect(cache.getFeature('missing')).resolves.toBeNull();
+      await expect(cache.getFeature('missing')).resolves.toBeNull();
+      expect(store.getFeature).toHaveBeenCalledTimes(1);
+    });
+
+    it('should share one load between concurrent misses', async () => {
+      const cache = createCache();
+
+      await Promise.all([cache.getFeature('beta'), cache.getFeature('beta')]);
+      expect(store.getFeature).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not cache failed loads', async () => {
+      store.getFeature.mockRejectedValueOnce(new Error('Redis unavailable'));
+      const cache = createCache();
+
+      await expect(cache.getFeature('beta')).rejects.toThrow('Redis unavailable');
+      await expect(cache.getFeature('beta')).resolves.toEqual({ enabled: true });
+    });
+  });
+
+  describe('hasFeatureFlag', () => {
+    it('should cache decisions per user, tenant and attributes', async () => {
+      const cache = createCache();
+
+      await cache.hasFeatureFlag('beta', 'user1');
+      await cache.hasFeatureFlag('beta', 'user1');
+      await cache.hasFeatureFlag('beta', 'user2');
+      await cache.hasFeatureFlag('beta', 'user1', undefined, 'acme');
+      await cache.hasFeatureFlag('beta', 'user1', { plan: 'pro' });
+      await cache.hasFeatureFlag('beta', 'user1', { plan: 'pro' });
+
+      expect(store.hasFeatureFlag).toHaveBeenCalledTimes(4);
+      expect(store.hasFeatureFlag).toHaveBeenLastCalledWith(
+        'beta',
+        'user1',
+        { plan: 'pro' },
+        undefined,
+      );
+    });
+
+    it('should bypass the cache for attributes that cannot be serialized', async () => {
+      const cache = createCache();
+
+      await cache.hasFeatureFlag('beta', 'user1', { seats: BigInt(10) });
+      await cache.hasFeatureFlag('beta', 'user1', { seats: BigInt(10) });
+      expect(store.hasFeatureFlag).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('stale-while-revalidate', () => {
+    it('should serve expired results while reloading them in the background', async () => {
+      const cache = createCache({ ttl: 1000, staleWhileRevalidate: 5000 });
+      await cache.hasFeatureFlag('beta', 'user1');
+
+      store.hasFeatureFlag.mockResolvedValue(false);
+      now = 2000;
+
+      // Both callers get the stale result, and only one reload runs
+      await expect(
+        Promise.all([cache.hasFeatureFlag('beta', 'user1'), cache.hasFeatureFlag('beta', 'user1')]),
+      ).resolves.toEqual([true, true]);
+      expect(store.hasFeatureFlag).toHaveBeenCalledTimes(2);
+
+      await flushPromises();
+      await expect(cache.hasFeatureFlag('beta', 'user1')).resolves.toBe(false);
+      expect(store.hasFeatureFlag).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep serving stale results when the reload fails', async () => {
+      const cache = createCache({ ttl: 1000, staleWhileRevalidate: 5000 });
+      await cache.hasFeatureFlag('beta', 'user1');
+
+      store.hasFeatureFlag.mockRejectedValueOnce(new Error('Redis unavailable'));
+      now = 2000;
+
+      await expect(cache.hasFeatureFlag('beta', 'user1')).resolves.toBe(true);
+      await flushPromises();
+      await expect(cache.hasFeatureFlag('beta', 'user1')).resolves.toBe(true);
+      expect(store.hasFeatureFlag).toHaveBeenCalledTimes(3);
+    });
+
+    it('should wait for a reload once the stale window has passed', async () => {
+      const cache = createCache({ ttl: 1000, staleWhileRevalidate: 5000 });
+      await cache.hasFeatureFlag('beta', 'user1');
+
+      store.hasFeatureFlag.mockResolvedValue(false);
+      now = 6000;
+
+      await expect(cache.hasFeatureFlag('beta', 'user1')).resolves.toBe(false);
+    });
+  });
+
+  describe('maxEntries', () => {
+    it('should evict the least recently used results', async () => {
+      const cache = createCache({ maxEntries: 2 });
+
+      await cache.getFeature('a');
+      await cache.getFeature('b');
+      await cache.getFeature('a');
+      await cache.getFeature('c');
+      expect(store.getFeature).toHaveBeenCalledTimes(3);
+
+      // "b" was evicted, "a" was kept as more recently used
+      await cache.getFeature('a');
+      await cache.getFeature('b');
+      expect(store.getFeature).toHaveBeenCalledTimes(4);
+      expect(store.getFeature).toHaveBeenLastCalledWith('b');
+    });
+  });
+
+  describe('invalidate', () => {
+    it('should drop the cached results of a flag', async () => {
+      const cache = createCache();
+      await cache.getFeature('a');
+      await cache.hasFeatureFlag('a', 'user1');
+      await cache.getFeature('b');
+
+      cache.invalidate('a');
+
+      await cache.getFeature('a');
+      await cache.hasFeatureFlag('a', 'user1');
+      await cache.getFeature('b');
+      expect(store.getFeature).toHaveBeenCalledTimes(3);
+      expect(store.hasFeatureFlag).toHaveBeenCalledTimes(2);
+    });
+
+    it('should drop every cached result without a flag', async () => {
+      const cache = createCache();
+      await cache.getFeature('a');
+      await cache.getFeature('b');
+
+      cache.invalidate();
+
+      await cache.getFeature('a');
+      await cache.getFeature('b');
+      expect(store.getFeature).toHaveBeenCalledTimes(4);
+    });
+
+    it('should not cache loads in progress when invalidated', async () => {
+      let resolveLoad!: (value: { enabled: boolean }) => void;
+      store.getFeature.mockReturnValueOnce(new Promise((resolve) => (resolveLoad = resolve)));
+      const cache = createCache();
+
+      const load = cache.getFeature('beta');
+      cache.invalidate('beta');
+      resolveLoad({ enabled: false });
+
+      await expect(load).resolves.toEqual({ enabled: false });
+      await expect(cache.getFeature('beta')).resolves.toEqual({ enabled: true });
+    });
+  });
+
+  describe('writes', () => {
+    it('should invalidate the flag written through the wrapper', async () => {
+      const cache = createCache();
+      await cache.getFeature('beta');
+
+      await cache.setFeatureFlag({ flag: 'beta', enabled: false });
+
+      expect(store.setFeatureFlag).toHaveBeenCalledWith({ flag: 'beta', enabled: false });
+      await cache.getFeature('beta');
+      expect(store.getFeature).toHaveBeenCalledTimes(2);
+    });
+
+    it('should invalidate every flag when a segment changes', async () => {
+      store.setSegment = jest.fn().mockResolvedValue(undefined);
+      const cache = createCache();
+      await cache.hasFeatureFlag('beta', 'user1');
+
+      await cache.setSegment({ name: 'partners', userIds: ['user1'] });
+
+      await cache.hasFeatureFlag('beta', 'user1');
+      expect(store.hasFeatureFlag).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject optional writes the wrapped store does not support', async () => {
+      const cache = createCache();
+
+      await expect(cache.setFeatureEnabled('beta', false)).rejects.toThrow(
+        'The wrapped store does not support setFeatureEnabled',
+      );
+    });
+  });
+
+  describe('evaluateFlags', () => {
+    it('should cache evaluations loaded with the batch method', async () => {
+      store.evaluateFlags = jest
+        .fn()
+        .mockImplementation(async (flags: string[]) =>
+          Object.fromEntries(flags.map((flag) => [flag, { enabled: true, variant: null }])),
+        );
+      const cache = createCache();
+
+      await cache.evaluateFlags(['a', 'b'], { userId: 'user1' });
+      const evaluations = await cache.evaluateFlags(['a', 'b'], { userId: 'user1' });
+
+      expect(evaluations).toEqual({
+        a: { enabled: true, variant: null },
+        b: { enabled: true, variant: null },
+      });
+      expect(store.evaluateFlags).toHaveBeenCalledTimes(1);
+      expect(store.evaluateFlags).toHaveBeenCalledWith(['a', 'b'], { userId: 'user1' });
+      expect(store.hasFeatureFlag).not.toHaveBeenCalled();
+    });
+
+    it('should load only the missing flags, in one batch', async () => {
+      store.evaluateFlags = jest
+        .fn()
+        .mockImplementation(async (flags: string[]) =>
+          Object.fromEntries(flags.map((flag) => [flag, { enabled: flag !== 'c', variant: null }])),
+        );
+      const cache = createCache();
+
+      await cache.evaluateFlags(['a'], { userId: 'user1' });
+      const evaluations = await cache.evaluateFlags(['a', 'b', 'c', 'b'], { userId: 'user1' });
+
+      expect(evaluations).toEqual({
+        a: { enabled: true, variant: null },
+        b: { enabled: true, variant: null },
+        c: { enabled: false, variant: null },
+      });
+      expect(store.evaluateFlags).toHaveBeenCalledTimes(2);
+      expect(store.evaluateFlags).toHaveBeenLastCalledWith(['b', 'c'], { userId: 'user1' });
+    });
+
+    it('should fall back to the cached per-flag methods', async () => {
+      const cache = createCache();
+
+      await cache.evaluateFlags(['a'], { userId: 'user1' });
+      const evaluations = await cache.evaluateFlags(['a'], { userId: 'user1' });
+
+      expect(evaluations).toEqual({ a: { enabled: true, variant: null } });
+      expect(store.getFeature).toHaveBeenCalledTimes(1);
+      expect(store.hasFeatureFlag).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -33,6 +33,7 @@ describe('Edge Cases and Boundary Tests', () => {
     existingFlags: Record<string, boolean> = {},
   ): ExecutionContext =>
     ({
+      getType: jest.fn().mockReturnValue('http'),
       switchToHttp: jest.fn().mockReturnValue({
         getRequest: jest.fn().mockReturnValue({
           __user_id: userId,
@@ -41,6 +42,7 @@ describe('Edge Cases and Boundary Tests', () => {
         }),
       }),
       getHandler: jest.fn(),
+      getClass: jest.fn(),
     } as unknown as ExecutionContext);
 
   describe('Unusual Input Handling', () => {
@@ -321,8 +323,6 @@ describe('Edge Cases and Boundary Tests', () => {
         return undefined;
       });
 
-      const context = createMockContext(userId);
-
       // Rapidly toggle the feature flag
       for (let i = 0; i < 100; i++) {
         const enabled = i % 2 === 0;
@@ -332,7 +332,7 @@ describe('Edge Cases and Boundary Tests', () => {
           userIds: enabled ? [userId] : undefined,
         });
 
-        const result = await guard.canActivate(context);
+        const result = await guard.canActivate(createMockContext(userId));
         if (enabled) {
           expect(result).toBe(true);
         } else {
@@ -438,6 +438,7 @@ describe('Edge Cases and Boundary Tests', () => {
 
       for (const attempt of escalationAttempts) {
         const context = {
+          getType: jest.fn().mockReturnValue('http'),
           switchToHttp: jest.fn().mockReturnValue({
             getRequest: jest.fn().mockReturnValue({
               ...attempt,
@@ -445,6 +446,7 @@ describe('Edge Cases and Boundary Tests', () => {
             }),
           }),
           getHandler: jest.fn(),
+          getClass: jest.fn(),
         } as unknown as ExecutionContext;
 
         const result = await guard.canActivate(context);
@@ -480,10 +482,12 @@ describe('Edge Cases and Boundary Tests', () => {
       };
 
       const context = {
+        getType: jest.fn().mockReturnValue('http'),
         switchToHttp: jest.fn().mockReturnValue({
           getRequest: jest.fn().mockReturnValue(maliciousRequest),
         }),
         getHandler: jest.fn(),
+        getClass: jest.fn(),
       } as unknown as ExecutionContext;
 
       const result = await guard.canActivate(context);
@@ -33,6 +33,7 @@ describe('Error Handling', () => {
 
     // Mock context
     context = {
+      getType: jest.fn().mockReturnValue('http'),
       switchToHttp: jest.fn().mockReturnValue({
         getRequest: jest.fn().mockReturnValue({
           __user_id: 'test-user',
@@ -41,6 +42,7 @@ describe('Error Handling', () => {
         }),
       }),
       getHandler: jest.fn(),
+      getClass: jest.fn(),
     } as unknown as ExecutionContext;
 
     // Setup Redis cache for Redis-specific error tests
@@ -125,12 +127,41 @@ describe('Error Handling', () => {
   });
 
   describe('RedisFeatureFlagCache Error Handling', () => {
+    // Chainable MULTI mock whose EXEC resolves to the given replies
+    const createTransaction = (replies: [Error | null, unknown][]) => {
+      const transaction: Record<string, jest.Mock> = {
+        exec: jest.fn().mockResolvedValue(replies),
+      };
+      const commands = [
+        'del',
+        'hmset',
+        'rename',
+        'persist',
+        'publish',
+        'hgetall',
+        'sismember',
+        'exists',
+      ];
+      for (const command of commands) {
+        transaction[command] = jest.fn().mockReturnValue(transaction);
+      }
+      return transaction;
+    };
+
     it('should handle Redis command errors in setFeatureFlag', async () => {
-      // Mock Redis to throw an error
+      // Mock the transaction to fail on HMSET
       const mockRedis = {
-        hmset: jest.fn().mockRejectedValue(new Error('Redis HMSET failed')),
-        sadd: jest.fn(),
-        del: jest.fn(),
+        multi: jest.fn().mockReturnValue(
+          createTransaction([
+            [null, 1],
+            [new Error('Redis HMSET failed'), null],
+            [null, 'OK'],
+            [null, 1],
+          ]),
+        ),
+        sadd: jest.fn().mockResolvedValue(1),
+        pexpire: jest.fn().mockResolvedValue(1),
+        del: jest.fn().mockResolvedValue(1),
       } as any;
 
       const errorCache = new RedisFeatureFlagCache(mockRedis);
@@ -142,6 +173,11 @@ describe('Error Handling', () => {
           userIds: ['user1'],
         }),
       ).rejects.toThrow('Redis HMSET failed');
+
+      // The staged user list is removed
+      expect(mockRedis.del).toHaveBeenCalledWith(
+        expect.stringMatching(/^crudmates:feature-guard:test_feature:users:staging:/),
+      );
     });
 
     it('should handle Redis command errors in getFeature', async () => {
@@ -157,8 +193,12 @@ describe('Error Handling', () => {
 
     it('should handle Redis command errors in hasFeatureFlag', async () => {
       const mockRedis = {
-        hgetall: jest.fn().mockRejectedValue(new Error('Redis HGETALL failed')),
-        smembers: jest.fn(),
+        multi: jest.fn().mockReturnValue(
+          createTransaction([
+            [new Error('Redis HGETALL failed'), null],
+            ...Array(4).fill([null, 0]),
+          ]),
+        ),
       } as any;
 
       const errorCache = new RedisFeatureFlagCache(mockRedis);
@@ -181,8 +221,9 @@ describe('Error Handling', () => {
 
     it('should handle corrupted data gracefully', async () => {
       const mockRedis = {
-        hgetall: jest.fn().mockResolvedValue({ enabled: 'invalid_value' }),
-        smembers: jest.fn().mockResolvedValue([]),
+        multi: jest.fn().mockReturnValue(
+          createTransaction([[null, { enabled: 'invalid_value' }], ...Array(4).fill([null, 0])]),
+        ),
       } as any;
 
       const errorCache = new RedisFeatureFlagCache(mockRedis);
@@ -0,0 +1,161 @@
+import { ExecutionContext } from '@nestjs/common';
+import {
+  DefaultFeatureContextResolver,
+  UserFeatureContextResolver,
+} from '../src/feature-context-resolvers';
+
+describe('Feature Context Resolvers', () => {
+  const createContext = (request: unknown): ExecutionContext =>
+    ({
+      getType: jest.fn().mockReturnValue('http'),
+      switchToHttp: jest.fn().mockReturnValue({
+        getRequest: jest.fn().mockReturnValue(request),
+      }),
+    } as unknown as ExecutionContext);
+
+  const createRpcContext = (payload: unknown): ExecutionContext =>
+    ({
+      getType: jest.fn().mockReturnValue('rpc'),
+      switchToRpc: jest.fn().mockReturnValue({
+        getData: jest.fn().mockReturnValue(payload),
+        getContext: jest.fn().mockReturnValue({}),
+      }),
+    } as unknown as ExecutionContext);
+
+  describe('DefaultFeatureContextResolver', () => {
+    const resolver = new DefaultFeatureContextResolver();
+
+    it('should read the request fields', () => {
+      const context = createContext({
+        __user_id: 'user1',
+        __is_admin: false,
+        __user_attributes: { plan: 'pro' },
+      });
+
+      expect(resolver.resolve(context)).toEqual({
+        userId: 'user1',
+        isAdmin: false,
+        attributes: { plan: 'pro' },
+      });
+    });
+
+    it('should read the tenant identifier', () => {
+      const context = createContext({ __user_id: 'user1', __tenant_id: 'acme' });
+
+      expect(resolver.resolve(context).tenantId).toBe('acme');
+    });
+
+    it('should return undefined fields when the request has none', () => {
+      expect(resolver.resolve(createContext({}))).toEqual({
+        userId: undefined,
+        isAdmin: undefined,
+        attributes: undefined,
+      });
+    });
+
+    it('should only read the user ID from a microservice message payload', () => {
+      const context = createRpcContext({
+        __user_id: 'user1',
+        __tenant_id: 'acme',
+        __is_admin: true,
+        __user_attributes: { plan: 'pro' },
+      });
+
+      expect(resolver.resolve(context)).toEqual({
+        userId: 'user1',
+        tenantId: undefined,
+        isAdmin: undefined,
+        attributes: undefined,
+      });
+    });
+  });
+
+  describe('UserFeatureContextResolver', () => {
+    it('should read req.user by default', () => {
+      const user = { id: 'user1', isAdmin: false, plan: 'pro' };
+      const resolver = new UserFeatureContextResolver();
+
+      expect(resolver.resolve(createContext({ user }))).toEqual({
+        userId: 'user1',
+        isAdmin: false,
+        attributes: user,
+      });
+    });
+
+    it('should require isAdmin to be strictly true by default', () => {
+      const resolver = new UserFeatureContextResolver();
+
+      expect(resolver.resolve(createContext({ user: { id: 'u', isAdmin: 'true' } })).isAdmin).toBe(
+        false,
+      );
+      expect(resolver.resolve(createContext({ user: { id: 'u', isAdmin: true } })).isAdmin).toBe(
+        true,
+      );
+    });
+
+    it('should stringify numeric user IDs', () => {
+      const resolver = new UserFeatureContextResolver();
+
+      expect(resolver.resolve(createContext({ user: { id: 42 } })).userId).toBe('42');
+    });
+
+    it('should support custom property, fields and mappers', () => {
+      const resolver = new UserFeatureContextResolver({
+        property: 'auth',
+        userIdField: 'sub',
+        isAdmin: (user) => user.roles.includes('admin'),
+        attributes: (user) => ({ country: user.country }),
+      });
+
+      const context = createContext({ auth: { sub: 'abc', roles: ['admin'], country: 'DE' } });
+
+      expect(resolver.resolve(context)).toEqual({
+        userId: 'abc',
+        isAdmin: true,
+        attributes: { country: 'DE' },
+      });
+    });
+
+    it('should return an empty context when there is no user', () => {
+      const resolver = new UserFeatureContextResolver();
+
+      expect(resolver.resolve(createContext({}))).toEqual({});
+      expect(resolver.resolve(createContext({ user: null }))).toEqual({});
+    });
+
+    it('should read and stringify the tenant identifier', () => {
+      const resolver = new UserFeatureContextResolver();
+      const custom = new UserFeatureContextResolver({ tenantIdField: 'orgId' });
+
+      expect(resolver.resolve(createContext({ user: { id: 1, tenantId: 'acme' } })).tenantId).toBe(
+        'acme',
+      );
+      expect(custom.resolve(createContext({ user: { id: 1, orgId: 7 } })).tenantId).toBe('7');
+      expect(resolver.resolve(createContext({ user: { id: 1 } })).tenantId).toBeUndefined();
+    });
+
+    it('should leave userId undefined when the user has no identifier', () => {
+      const resolver = new UserFeatureContextResolver();
+
+      expect(resolver.resolve(createContext({ user: { name: 'x' } })).userId).toBeUndefined();
+    });
+
+    it('should read the user from the GraphQL context request', () => {
+      const resolver = new UserFeatureContextResolver();
+      const context = {
+        getType: jest.fn().mockReturnValue('graphql'),
+        getArgByIndex: jest.fn().mockReturnValue({ req: { user: { id: 'gql-user' } } }),
+      } as unknown as ExecutionContext;
+
+      expect(resolver.resolve(context).userId).toBe('gql-user');
+      expect(context.getArgByIndex).toHaveBeenCalledWith(2);
+    });
+
+    it('should only read the user ID from a user in a microservice message payload', () => {
+      const resolver = new UserFeatureContextResolver();
+      const context = createRpcContext({ user: { id: 'user1', isAdmin: true, tenantId: 'acme' } });
+
+      expect(resolver.resolve(context)).toEqual({ userId: 'user1' });
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { ExecutionContextHost } from '@nestjs/core/helpers/execution-context-host';
+import { KafkaContext, NatsContext, RmqContext } from '@nestjs/microservices';
+import {
+  getFeatureContextValue,
+  getFeatureFlagsHolder,
+  getFeatureIdentitySources,
+} from '../src/feature-execution-context';
+
+describe('Feature Execution Context', () => {
+  const createContext = (type: string, args: unknown[]) => {
+    const host = new ExecutionContextHost(args);
+    host.setType(type);
+    return host;
+  };
+
+  describe('getFeatureIdentitySources', () => {
+    it('should return the HTTP request', () => {
+      const request = { __user_id: 'user1' };
+
+      expect(getFeatureIdentitySources(createContext('http', [request, {}]))).toEqual([request]);
+    });
+
+    it('should return the request of the GraphQL context', () => {
+      const req = { __user_id: 'user1' };
+
+      expect(getFeatureIdentitySources(createContext('graphql', [{}, {}, { req }, {}]))).toEqual([
+        req,
+      ]);
+    });
+
+    it('should return socket data, handshake request and client for WebSockets', () => {
+      const client = { data: { __user_id: 'user1' }, request: { user: { id: 'user1' } } };
+
+      expect(getFeatureIdentitySources(createContext('ws', [client, {}, 'event']))).toEqual([
+        client.data,
+        client.request,
+        client,
+      ]);
+    });
+
+    it('should not read the client-sent handshake auth payload', () => {
+      const client = { data: {}, handshake: { auth: { __user_id: 'spoofed' } } };
+
+      expect(getFeatureContextValue(createContext('ws', [client, {}, 'event']), '__user_id')).toBe(
+        undefined,
+      );
+    });
+
+    it('should ignore primitive payloads and missing metadata for microservices', () => {
+      expect(getFeatureIdentitySources(createContext('rpc', ['payload', undefined]))).toEqual([]);
+    });
+  });
+
+  describe('getFeatureContextValue', () => {
+    it('should prefer the message payload over its metadata', () => {
+      const rmqMessage = { properties: { headers: { __user_id: 'from-header' } } };
+      const context = createContext('rpc', [
+        { __user_id: 'from-payload' },
+        new RmqContext([rmqMessage, {}, 'pattern']),
+      ]);
+
+      expect(getFeatureContextValue(context, '__user_id')).toBe('from-payload');
+    });
+
+    it('should skip the message payload when asked to', () => {
+      const rmqMessage = { properties: { headers: { __is_admin: false } } };
+      const context = createContext('rpc', [
+        { __is_admin: true, __tenant_id: 'acme' },
+        new RmqContext([rmqMessage, {}, 'pattern']),
+      ]);
+
+      expect(getFeatureContextValue(context, '__is_admin', { payload: false })).toBe(false);
+      expect(getFeatureContextValue(context, '__tenant_id', { payload: false })).toBeUndefined();
+    });
+
+    it('should read RabbitMQ message headers', () => {
+      const rmqMessage = { properties: { headers: { __user_id: 'rmq-user' } } };
+      const context = createContext('rpc', [{}, new RmqContext([rmqMessage, {}, 'pattern'])]);
+
+      expect(getFeatureContextValue(context, '__user_id')).toBe('rmq-user');
+    });
+
+    it('should decode Kafka header buffers', () => {
+      const kafkaMessage = { headers: { __user_id: Buffer.from('kafka-user') } };
+      const context = createContext('rpc', [
+        {},
+        new KafkaContext([kafkaMessage as any, 0, 'topic', {} as any, jest.fn(), {} as any]),
+      ]);
+
+      expect(getFeatureContextValue(context, '__user_id')).toBe('kafka-user');
+    });
+
+    it('should read NATS headers', () => {
+      const headers = new Map([['__user_id', 'nats-user']]);
+      const context = createContext('rpc', [{}, new NatsContext(['subject', headers as any])]);
+
+      expect(getFeatureContextValue(context, '__user_id')).toBe('nats-user');
+    });
+
+    it('should read gRPC metadata', () => {
+      const metadata = { getMap: () => ({ __user_id: 'grpc-user' }) };
+
+      expect(getFeatureContextValue(createContext('rpc', [{}, metadata]), '__user_id')).toBe(
+        'grpc-user',
+      );
+    });
+
+    it('should return undefined when no source defines the key', () => {
+      expect(getFeatureContextValue(createContext('http', [{}]), '__user_id')).toBeUndefined();
+    });
+  });
+
+  describe('getFeatureFlagsHolder', () => {
+    it('should return the HTTP request', () => {
+      const request = {};
+
+      expect(getFeatureFlagsHolder(createContext('http', [request]))).toBe(request);
+    });
+
+    it('should return the GraphQL context', () => {
+      const gqlContext = { req: {} };
+
+      expect(getFeatureFlagsHolder(createContext('graphql', [{}, {}, gqlContext, {}]))).toBe(
+        gqlContext,
+      );
+    });
+
+    it('should return the message payload for WebSockets and microservices', () => {
+      const payload = { orderId: 1 };
+
+      expect(getFeatureFlagsHolder(createContext('ws', [{}, payload, 'event']))).toBe(payload);
+      expect(getFeatureFlagsHolder(createContext('rpc', [payload, {}]))).toBe(payload);
+    });
+
+    it('should return a detached object for primitive payloads', () => {
+      expect(getFeatureFlagsHolder(createContext('rpc', ['payload', {}]))).toEqual({});
+    });
+  });
+});
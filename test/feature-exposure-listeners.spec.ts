@@ -0,0 +1,97 @@
+import { FeatureExposure } from '../src/feature-exposure-listener.interface';
+import { BufferedFeatureExposureListener } from '../src/feature-exposure-listeners';
+
+describe('BufferedFeatureExposureListener', () => {
+  const createExposure = (flag: string): FeatureExposure => ({
+    flag,
+    userId: 'user1',
+    enabled: true,
+    route: 'TestController.handler',
+    timestamp: new Date(),
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should flush when the batch size is reached', async () => {
+    const handler = jest.fn();
+    const listener = new BufferedFeatureExposureListener(handler, { maxBatchSize: 2 });
+
+    await listener.onExposure(createExposure('a'));
+    expect(handler).not.toHaveBeenCalled();
+
+    await listener.onExposure(createExposure('b'));
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler.mock.calls[0][0].map((exposure: FeatureExposure) => exposure.flag)).toEqual([
+      'a',
+      'b',
+    ]);
+  });
+
+  it('should flush after the flush interval', async () => {
+    const handler = jest.fn();
+    const listener = new BufferedFeatureExposureListener(handler, { flushInterval: 1000 });
+
+    listener.onExposure(createExposure('a'));
+    listener.onExposure(createExposure('b'));
+
+    jest.advanceTimersByTime(999);
+    expect(handler).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1);
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler.mock.calls[0][0].map((exposure: FeatureExposure) => exposure.flag)).toEqual([
+      'a',
+      'b',
+    ]);
+  });
+
+  it('should start a new batch after flushing', async () => {
+    const handler = jest.fn();
+    const listener = new BufferedFeatureExposureListener(handler, { maxBatchSize: 1 });
+
+    await listener.onExposure(createExposure('a'));
+    await listener.onExposure(createExposure('b'));
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(handler.mock.calls[1][0]).toHaveLength(1);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('should flush remaining exposures on shutdown', async () => {
+    const handler = jest.fn();
+    const listener = new BufferedFeatureExposureListener(handler);
+
+    listener.onExposure(createExposure('a'));
+    await listener.onApplicationShutdown();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('should not call the handler with an empty batch', async () => {
+    const handler = jest.fn();
+    const listener = new BufferedFeatureExposureListener(handler);
+
+    await listener.flush();
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should not throw from the timer when the handler fails', async () => {
+    const handler = jest.fn().mockRejectedValue(new Error('pipeline down'));
+    const listener = new BufferedFeatureExposureListener(handler, { flushInterval: 10 });
+    const logger = jest.spyOn((listener as any).logger, 'error').mockImplementation();
+
+    listener.onExposure(createExposure('a'));
+    jest.advanceTimersByTime(10);
+    await Promise.resolve();
+    await Promise.resolve();
+
+    expect(logger).toHaveBeenCalledWith(expect.stringContaining('pipeline down'));
+  });
+});
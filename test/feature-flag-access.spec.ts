@@ -0,0 +1,125 @@
+import {
+  evaluateFeatureAccess,
+  FeatureFlagAccessState,
+  parseJsonList,
+  validateUserIds,
+} from '../src/feature-flag.access';
+
+describe('Feature Flag Access', () => {
+  const now = Date.parse('2025-11-28T00:00:00Z');
+  const global: FeatureFlagAccessState = {
+    enabled: true,
+    userTargeted: false,
+    tenantTargeted: false,
+    listedUser: false,
+    listedTenant: false,
+    excludedUser: false,
+    excludedTenant: false,
+  };
+
+  describe('evaluateFeatureAccess', () => {
+    const isInAnySegment = jest.fn((segments: string[]) => segments.includes('staff'));
+    const evaluate = (
+      changes: Partial<FeatureFlagAccessState>,
+      attributes?: Record<string, unknown>,
+    ) => {
+      const state = { ...global, ...changes };
+      return evaluateFeatureAccess('beta', 'user1', state, { attributes, now, isInAnySegment });
+    };
+
+    beforeEach(() => {
+      isInAnySegment.mockClear();
+    });
+
+    it('should grant everyone access to a global flag', async () => {
+      expect(await evaluate({})).toBe(true);
+    });
+
+    it('should deny everyone access to a disabled flag or outside its schedule', async () => {
+      expect(await evaluate({ enabled: false, listedUser: true })).toBe(false);
+      expect(await evaluate({ enableAt: now + 1 })).toBe(false);
+      expect(await evaluate({ disableAt: now })).toBe(false);
+      expect(await evaluate({ enableAt: NaN })).toBe(false);
+    });
+
+    it('should let exclusions override every grant', async () => {
+      expect(await evaluate({ listedUser: true, excludedUser: true })).toBe(false);
+      expect(await evaluate({ listedTenant: true, excludedTenant: true })).toBe(false);
+      expect(await evaluate({ listedUser: true, excludedSegments: ['staff'] })).toBe(false);
+      expect(await evaluate({ excludedSegments: ['contractors'] })).toBe(true);
+    });
+
+    it('should grant listed users, tenants and segment members of a targeted flag', async () => {
+      expect(await evaluate({ userTargeted: true })).toBe(false);
+      expect(await evaluate({ userTargeted: true, listedUser: true })).toBe(true);
+      expect(await evaluate({ tenantTargeted: true, listedTenant: true })).toBe(true);
+      expect(await evaluate({ segments: ['staff'] })).toBe(true);
+      expect(await evaluate({ segments: ['contractors'] })).toBe(false);
+    });
+
+    it('should let the first matching rule decide, before the rollout', async () => {
+      const state = {
+        rules: [{ attribute: 'plan', operator: '==' as const, value: 'pro' }],
+        rolloutPercentage: 0,
+      };
+
+      expect(await evaluate(state, { plan: 'pro' })).toBe(true);
+      expect(await evaluate(state, { plan: 'free' })).toBe(false);
+      expect(await evaluate({ rules: state.rules }, { plan: 'free' })).toBe(false);
+    });
+
+    it('should keep a flag with only denying rules on for everyone else', async () => {
+      const rules = [
+        { attribute: 'suspended', operator: '==' as const, value: true, grant: false },
+      ];
+
+      expect(await evaluate({ rules }, { suspended: true })).toBe(false);
+      expect(await evaluate({ rules }, { suspended: false })).toBe(true);
+    });
+
+    it('should bucket the users of a rollout', async () => {
+      expect(await evaluate({ rolloutPercentage: 100 })).toBe(true);
+      expect(await evaluate({ rolloutPercentage: 0 })).toBe(false);
+    });
+
+    it('should only grant the listed users when a stored list is malformed', async () => {
+      expect(await evaluate({ rules: null })).toBe(false);
+      expect(await evaluate({ segments: null })).toBe(false);
+      expect(await evaluate({ rules: null, listedUser: true })).toBe(true);
+      expect(await evaluate({ excludedSegments: null, listedUser: true })).toBe(false);
+    });
+
+    it('should only check segment membership when the decision depends on it', async () => {
+      await evaluate({ listedUser: true, segments: ['staff'] });
+      await evaluate({ excludedUser: true, excludedSegments: ['staff'] });
+
+      expect(isInAnySegment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('validateUserIds', () => {
+    it('should accept arrays of strings', () => {
+      expect(() => validateUserIds([])).not.toThrow();
+      expect(() => validateUserIds(['user1'])).not.toThrow();
+    });
+
+    it.each([['user1'], [1], [[null]]])('should reject %j', (userIds) => {
+      expect(() => validateUserIds(userIds as string[])).toThrow(
+        'userIds must be an array of strings',
+      );
+    });
+  });
+
+  describe('parseJsonList', () => {
+    it('should parse stored lists', () => {
+      expect(parseJsonList<string>('["staff"]')).toEqual(['staff']);
+      expect(parseJsonList(null)).toBeUndefined();
+      expect(parseJsonList(undefined)).toBeUndefined();
+    });
+
+    it('should return null for malformed lists', () => {
+      expect(parseJsonList('{')).toBeNull();
+      expect(parseJsonList('{"name":"staff"}')).toBeNull();
+    });
+  });
+});
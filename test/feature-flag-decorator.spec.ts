@@ -1,5 +1,6 @@
 import { SetMetadata, UseGuards } from '@nestjs/common';
 import {
+  FEATURE_FLAG_EXPRESSION_KEY,
   FEATURE_FLAG_KEY,
   FEATURE_FLAG_OPTIONS_KEY,
   FeatureFlagScope,
@@ -107,4 +108,28 @@ describe('FeatureFlag Decorator', () => {
     // Both should result in the same metadata
     expect(stringCall[0]).toEqual(arrayCall[0]); // FEATURE_FLAG_KEY calls should be identical
   });
+
+  it('should create expression decorator with parsed expression', () => {
+    const options = { scope: FeatureFlagScope.SERVICE };
+
+    FeatureFlag.when('new_ui && !legacy', options);
+
+    expect(SetMetadata).toHaveBeenCalledWith(FEATURE_FLAG_EXPRESSION_KEY, {
+      source: 'new_ui && !legacy',
+      ast: {
+        type: 'and',
+        left: { type: 'flag', name: 'new_ui' },
+        right: { type: 'not', operand: { type: 'flag', name: 'legacy' } },
+      },
+      flags: ['new_ui', 'legacy'],
+    });
+    expect(SetMetadata).toHaveBeenCalledWith(FEATURE_FLAG_OPTIONS_KEY, options);
+    expect(SetMetadata).not.toHaveBeenCalledWith(FEATURE_FLAG_KEY, expect.anything());
+    expect(UseGuards).toHaveBeenCalled();
+  });
+
+  it('should throw when expression decorator receives an invalid expression', () => {
+    expect(() => FeatureFlag.when('(new_ui')).toThrow(/expected "\)"/);
+    expect(SetMetadata).not.toHaveBeenCalled();
+  });
 });
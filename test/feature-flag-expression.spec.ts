@@ -0,0 +1,97 @@
+import {
+  evaluateFeatureFlagExpression,
+  FeatureFlagExpressionError,
+  parseFeatureFlagExpression,
+} from '../src/feature-flag.expression';
+
+describe('Feature Flag Expressions', () => {
+  describe('parseFeatureFlagExpression', () => {
+    it('should parse a single flag', () => {
+      const expression = parseFeatureFlagExpression('new_ui');
+
+      expect(expression.ast).toEqual({ type: 'flag', name: 'new_ui' });
+      expect(expression.flags).toEqual(['new_ui']);
+      expect(expression.source).toBe('new_ui');
+    });
+
+    it('should give && precedence over ||', () => {
+      const { ast } = parseFeatureFlagExpression('a || b && c');
+
+      expect(ast).toEqual({
+        type: 'or',
+        left: { type: 'flag', name: 'a' },
+        right: {
+          type: 'and',
+          left: { type: 'flag', name: 'b' },
+          right: { type: 'flag', name: 'c' },
+        },
+      });
+    });
+
+    it('should honour parentheses and negation', () => {
+      const { ast } = parseFeatureFlagExpression('new_ui && (beta_users || !region_eu_block)');
+
+      expect(ast).toEqual({
+        type: 'and',
+        left: { type: 'flag', name: 'new_ui' },
+        right: {
+          type: 'or',
+          left: { type: 'flag', name: 'beta_users' },
+          right: { type: 'not', operand: { type: 'flag', name: 'region_eu_block' } },
+        },
+      });
+    });
+
+    it('should expose deduplicated referenced flags in order of appearance', () => {
+      const { flags } = parseFeatureFlagExpression('b && (a || !b) && c:v2');
+
+      expect(flags).toEqual(['b', 'a', 'c:v2']);
+    });
+
+    it('should allow flag names with dots, dashes and colons', () => {
+      const { flags } = parseFeatureFlagExpression('app.new-ui&&billing:v2');
+
+      expect(flags).toEqual(['app.new-ui', 'billing:v2']);
+    });
+
+    it.each([
+      ['', 'unexpected end of expression', 0],
+      ['   ', 'unexpected end of expression', 3],
+      ['a &&', 'unexpected end of expression', 4],
+      ['a & b', 'expected "&&"', 2],
+      ['a | b', 'expected "||"', 2],
+      ['(a || b', 'expected ")"', 7],
+      ['a || b)', 'unexpected ")"', 6],
+      ['a b', 'unexpected "b"', 2],
+      ['&& a', 'unexpected "&&"', 0],
+    ])('should reject %j', (source, message, position) => {
+      try {
+        parseFeatureFlagExpression(source);
+        fail('expected a parse error');
+      } catch (error) {
+        expect(error).toBeInstanceOf(FeatureFlagExpressionError);
+        expect((error as FeatureFlagExpressionError).message).toContain(message);
+        expect((error as FeatureFlagExpressionError).position).toBe(position);
+        expect((error as FeatureFlagExpressionError).expression).toBe(source);
+      }
+    });
+  });
+
+  describe('evaluateFeatureFlagExpression', () => {
+    const { ast } = parseFeatureFlagExpression('new_ui && (beta_users || !region_eu_block)');
+
+    it.each([
+      [{ new_ui: true, beta_users: true, region_eu_block: true }, true],
+      [{ new_ui: true, beta_users: false, region_eu_block: false }, true],
+      [{ new_ui: true, beta_users: false, region_eu_block: true }, false],
+      [{ new_ui: false, beta_users: true, region_eu_block: false }, false],
+    ])('should evaluate %j to %s', (states, expected) => {
+      expect(evaluateFeatureFlagExpression(ast, states)).toBe(expected);
+    });
+
+    it('should treat missing flags as disabled', () => {
+      expect(evaluateFeatureFlagExpression(ast, { new_ui: true })).toBe(true);
+      expect(evaluateFeatureFlagExpression(ast, {})).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import {
+  getRolloutBucket,
+  isInRollout,
+  validateRolloutPercentage,
+} from '../src/feature-flag.rollout';
+
+describe('Feature Flag Rollout', () => {
+  const userIds = Array.from({ length: 10000 }, (_, i) => `user${i}`);
+
+  describe('getRolloutBucket', () => {
+    it('should be deterministic', () => {
+      expect(getRolloutBucket('new_checkout', 'user1')).toBe(
+        getRolloutBucket('new_checkout', 'user1'),
+      );
+    });
+
+    it('should return buckets in [0, 100)', () => {
+      for (const userId of userIds.slice(0, 1000)) {
+        const bucket = getRolloutBucket('new_checkout', userId);
+        expect(bucket).toBeGreaterThanOrEqual(0);
+        expect(bucket).toBeLessThan(100);
+      }
+    });
+
+    it('should depend on the flag', () => {
+      const differing = userIds
+        .slice(0, 100)
+        .filter((userId) => getRolloutBucket('a', userId) !== getRolloutBucket('b', userId));
+      expect(differing.length).toBeGreaterThan(90);
+    });
+  });
+
+  describe('isInRollout', () => {
+    it('should enroll roughly the requested share of users', () => {
+      const enrolled = userIds.filter((userId) => isInRollout('new_checkout', userId, 5));
+      expect(enrolled.length).toBeGreaterThan(400);
+      expect(enrolled.length).toBeLessThan(600);
+    });
+
+    it('should support fractional percentages', () => {
+      const enrolled = userIds.filter((userId) => isInRollout('new_checkout', userId, 0.5));
+      expect(enrolled.length).toBeGreaterThan(20);
+      expect(enrolled.length).toBeLessThan(80);
+    });
+
+    it('should keep enrolled users when the percentage grows', () => {
+      const at5 = userIds.filter((userId) => isInRollout('new_checkout', userId, 5));
+      expect(at5.every((userId) => isInRollout('new_checkout', userId, 20))).toBe(true);
+    });
+
+    it('should enroll nobody at 0% and everybody at 100%', () => {
+      expect(userIds.some((userId) => isInRollout('new_checkout', userId, 0))).toBe(false);
+      expect(userIds.every((userId) => isInRollout('new_checkout', userId, 100))).toBe(true);
+    });
+  });
+
+  describe('validateRolloutPercentage', () => {
+    it('should accept undefined and values between 0 and 100', () => {
+      expect(() => validateRolloutPercentage(undefined)).not.toThrow();
+      expect(() => validateRolloutPercentage(0)).not.toThrow();
+      expect(() => validateRolloutPercentage(12.5)).not.toThrow();
+      expect(() => validateRolloutPercentage(100)).not.toThrow();
+    });
+
+    it('should reject values out of range or not numbers', () => {
+      expect(() => validateRolloutPercentage(-1)).toThrow();
+      expect(() => validateRolloutPercentage(100.1)).toThrow();
+      expect(() => validateRolloutPercentage(NaN)).toThrow();
+      expect(() => validateRolloutPercentage(Infinity)).toThrow();
+      expect(() => validateRolloutPercentage('5' as any)).toThrow();
+    });
+  });
+});
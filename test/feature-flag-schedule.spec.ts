@@ -0,0 +1,64 @@
+import { isWithinSchedule, systemClock, validateSchedule } from '../src/feature-flag.schedule';
+
+describe('Feature Flag Schedule', () => {
+  const launch = Date.parse('2025-11-28T00:00:00Z');
+  const end = Date.parse('2025-12-01T00:00:00Z');
+
+  describe('isWithinSchedule', () => {
+    it('should match any time without bounds', () => {
+      expect(isWithinSchedule({}, launch)).toBe(true);
+    });
+
+    it('should include enableAt and exclude disableAt', () => {
+      const schedule = { enableAt: new Date(launch), disableAt: new Date(end) };
+
+      expect(isWithinSchedule(schedule, launch - 1)).toBe(false);
+      expect(isWithinSchedule(schedule, launch)).toBe(true);
+      expect(isWithinSchedule(schedule, end - 1)).toBe(true);
+      expect(isWithinSchedule(schedule, end)).toBe(false);
+    });
+
+    it('should accept timestamps as bounds', () => {
+      expect(isWithinSchedule({ enableAt: launch }, launch + 1)).toBe(true);
+      expect(isWithinSchedule({ disableAt: end }, end + 1)).toBe(false);
+    });
+
+    it('should never match invalid bounds', () => {
+      expect(isWithinSchedule({ enableAt: NaN }, launch)).toBe(false);
+      expect(isWithinSchedule({ disableAt: new Date('invalid') }, launch)).toBe(false);
+    });
+  });
+
+  describe('validateSchedule', () => {
+    it('should accept valid schedules', () => {
+      expect(() => validateSchedule({})).not.toThrow();
+      expect(() => validateSchedule({ enableAt: new Date(launch) })).not.toThrow();
+      expect(() => validateSchedule({ enableAt: launch, disableAt: end })).not.toThrow();
+    });
+
+    it('should reject invalid dates', () => {
+      expect(() => validateSchedule({ enableAt: new Date('invalid') })).toThrow(
+        'enableAt must be a valid Date or timestamp',
+      );
+      expect(() => validateSchedule({ disableAt: '2025-01-01' as any })).toThrow(
+        'disableAt must be a valid Date or timestamp',
+      );
+    });
+
+    it('should reject a window ending before it starts', () => {
+      expect(() => validateSchedule({ enableAt: end, disableAt: launch })).toThrow(
+        'disableAt must be after enableAt',
+      );
+    });
+  });
+
+  describe('systemClock', () => {
+    it('should return the current time', () => {
+      const before = Date.now();
+      const now = systemClock.now();
+
+      expect(now).toBeGreaterThanOrEqual(before);
+      expect(now).toBeLessThanOrEqual(Date.now());
+    });
+  });
+});
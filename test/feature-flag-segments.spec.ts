@@ -0,0 +1,77 @@
+import { FeatureFlagSegment } from '../src/feature-flag-cache.interface';
+import {
+  isInSegment,
+  validateSegment,
+  validateSegmentName,
+  validateSegmentReferences,
+} from '../src/feature-flag.segments';
+
+describe('Feature Flag Segments', () => {
+  const staff: FeatureFlagSegment = {
+    name: 'internal_staff',
+    userIds: ['contractor1'],
+    rules: [
+      { attribute: 'suspended', operator: '==', value: true, grant: false },
+      { attribute: 'email', operator: 'endsWith', value: '@ourco.com' },
+    ],
+  };
+
+  describe('isInSegment', () => {
+    it('should include listed users', () => {
+      expect(isInSegment(staff, 'contractor1')).toBe(true);
+    });
+
+    it('should include users granted by the first matching rule', () => {
+      expect(isInSegment(staff, 'user1', { email: 'jane@ourco.com' })).toBe(true);
+      expect(isInSegment(staff, 'user1', { email: 'jane@ourco.com', suspended: true })).toBe(false);
+      expect(isInSegment(staff, 'user1', { email: 'jane@gmail.com' })).toBe(false);
+    });
+
+    it('should exclude everyone from an empty segment', () => {
+      expect(isInSegment({ name: 'empty' }, 'user1', { email: 'jane@ourco.com' })).toBe(false);
+    });
+  });
+
+  describe('validateSegment', () => {
+    it('should accept valid segments', () => {
+      expect(() => validateSegment(staff)).not.toThrow();
+      expect(() => validateSegment({ name: 'empty' })).not.toThrow();
+    });
+
+    it('should reject invalid names', () => {
+      expect(() => validateSegmentName('')).toThrow('Segment name must be a non-empty string');
+      expect(() => validateSegment({ name: ' ' })).toThrow('Segment name must be a non-empty');
+    });
+
+    it('should reject invalid user IDs', () => {
+      expect(() => validateSegment({ name: 'staff', userIds: [1] as any })).toThrow(
+        'Segment "staff" userIds must be an array of strings',
+      );
+    });
+
+    it('should reject invalid rules', () => {
+      expect(() =>
+        validateSegment({
+          name: 'staff',
+          rules: [{ attribute: 'email', operator: 'endsWith', value: 1 }],
+        }),
+      ).toThrow('Rule on "email" requires a string value');
+    });
+  });
+
+  describe('validateSegmentReferences', () => {
+    it('should accept segment names', () => {
+      expect(() => validateSegmentReferences(undefined)).not.toThrow();
+      expect(() => validateSegmentReferences(['internal_staff', 'missing'])).not.toThrow();
+    });
+
+    it('should reject invalid references', () => {
+      expect(() => validateSegmentReferences('staff' as any)).toThrow(
+        'segments must be an array of segment names',
+      );
+      expect(() => validateSegmentReferences(['staff', ''])).toThrow(
+        'Segment name must be a non-empty string',
+      );
+    });
+  });
+});
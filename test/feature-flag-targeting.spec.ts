@@ -0,0 +1,116 @@
+import { FeatureFlagTargetingRule } from '../src/feature-flag-cache.interface';
+import {
+  evaluateTargetingRules,
+  matchesTargetingRule,
+  validateTargetingRules,
+} from '../src/feature-flag.targeting';
+
+describe('Feature Flag Targeting', () => {
+  const matches = (
+    operator: FeatureFlagTargetingRule['operator'],
+    value: FeatureFlagTargetingRule['value'],
+    attribute: unknown,
+  ) => matchesTargetingRule({ attribute: 'attr', operator, value }, { attr: attribute });
+
+  describe('matchesTargetingRule', () => {
+    it('should compare with equality operators', () => {
+      expect(matches('==', 'pro', 'pro')).toBe(true);
+      expect(matches('==', 'pro', 'free')).toBe(false);
+      expect(matches('==', 5, '5')).toBe(false);
+      expect(matches('!=', 'DE', 'NG')).toBe(true);
+      expect(matches('!=', 'DE', 'DE')).toBe(false);
+      expect(matches('==', true, true)).toBe(true);
+    });
+
+    it('should test list membership', () => {
+      expect(matches('in', ['pro', 'enterprise'], 'enterprise')).toBe(true);
+      expect(matches('in', ['pro', 'enterprise'], 'free')).toBe(false);
+      expect(matches('notIn', ['DE', 'FR'], 'NG')).toBe(true);
+      expect(matches('notIn', ['DE', 'FR'], 'DE')).toBe(false);
+    });
+
+    it('should compare numbers, including numeric strings', () => {
+      expect(matches('>=', 18, 18)).toBe(true);
+      expect(matches('>', 18, 18)).toBe(false);
+      expect(matches('<', 100, '42')).toBe(true);
+      expect(matches('<=', 100, 'abc')).toBe(false);
+      expect(matches('<=', 100, '')).toBe(false);
+    });
+
+    it('should match strings', () => {
+      expect(matches('endsWith', '@ourco.com', 'jane@ourco.com')).toBe(true);
+      expect(matches('endsWith', '@ourco.com', 'jane@ourco.com.evil.io')).toBe(false);
+      expect(matches('startsWith', 'beta-', 'beta-tester')).toBe(true);
+      expect(matches('contains', 'iPhone', 'Mozilla/5.0 (iPhone; CPU)')).toBe(true);
+      expect(matches('endsWith', '5', 5)).toBe(false);
+    });
+
+    it('should compare semantic versions', () => {
+      expect(matches('semver>=', '5.2.0', '5.2.0')).toBe(true);
+      expect(matches('semver>=', '5.2.0', '5.10.0')).toBe(true);
+      expect(matches('semver>=', '5.2.0', '5.1.9')).toBe(false);
+      expect(matches('semver>', '5.2.0', 'v6')).toBe(true);
+      expect(matches('semver==', '5.2', '5.2.0')).toBe(true);
+      expect(matches('semver<', '5.2.0', '5.2.0-beta.1')).toBe(true);
+      expect(matches('semver<=', '1.0.0-beta.2', '1.0.0-beta.11')).toBe(false);
+      expect(matches('semver<', '1.0.0-beta', '1.0.0-alpha.1')).toBe(true);
+      expect(matches('semver<', '1.0.0-beta.1', '1.0.0-beta')).toBe(true);
+      expect(matches('semver>=', '5.2.0', 'latest')).toBe(false);
+    });
+
+    it('should never match missing attributes', () => {
+      expect(matchesTargetingRule({ attribute: 'country', operator: '!=', value: 'DE' }, {})).toBe(
+        false,
+      );
+      expect(matches('notIn', ['DE'], null)).toBe(false);
+    });
+  });
+
+  describe('evaluateTargetingRules', () => {
+    const rules: FeatureFlagTargetingRule[] = [
+      { attribute: 'country', operator: '==', value: 'DE', grant: false },
+      { attribute: 'plan', operator: 'in', value: ['pro', 'enterprise'] },
+      { attribute: 'email', operator: 'endsWith', value: '@ourco.com' },
+    ];
+
+    it('should return the decision of the first matching rule', () => {
+      expect(evaluateTargetingRules(rules, { plan: 'pro' })).toBe(true);
+      expect(evaluateTargetingRules(rules, { plan: 'pro', country: 'DE' })).toBe(false);
+      expect(evaluateTargetingRules(rules, { email: 'jane@ourco.com' })).toBe(true);
+    });
+
+    it('should return undefined when no rule matches', () => {
+      expect(evaluateTargetingRules(rules, { plan: 'free' })).toBeUndefined();
+      expect(evaluateTargetingRules(rules)).toBeUndefined();
+      expect(evaluateTargetingRules([], { plan: 'pro' })).toBeUndefined();
+    });
+  });
+
+  describe('validateTargetingRules', () => {
+    it('should accept valid rules', () => {
+      expect(() => validateTargetingRules(undefined)).not.toThrow();
+      expect(() =>
+        validateTargetingRules([
+          { attribute: 'plan', operator: 'in', value: ['pro'] },
+          { attribute: 'age', operator: '>=', value: 18, grant: true },
+          { attribute: 'appVersion', operator: 'semver>=', value: '5.2.0' },
+        ]),
+      ).not.toThrow();
+    });
+
+    it.each([
+      [{}, 'rules must be an array'],
+      [[{ operator: '==', value: 'x' }], 'Each rule must have a non-empty attribute'],
+      [[{ attribute: 'plan', operator: 'like', value: 'x' }], 'has unknown operator "like"'],
+      [[{ attribute: 'plan', operator: '==', value: ['x'] }], 'requires a string, number'],
+      [[{ attribute: 'plan', operator: 'in', value: [] }], 'requires a non-empty list of values'],
+      [[{ attribute: 'plan', operator: 'in', value: [{}] }], 'requires a non-empty list of values'],
+      [[{ attribute: 'age', operator: '>', value: '18' }], 'requires a finite number value'],
+      [[{ attribute: 'email', operator: 'endsWith', value: 1 }], 'requires a string value'],
+      [[{ attribute: 'v', operator: 'semver>', value: 'latest' }], 'requires a valid semantic'],
+      [[{ attribute: 'plan', operator: '==', value: 'x', grant: 'no' }], 'grant must be a boolean'],
+    ])('should reject %j', (rules, message) => {
+      expect(() => validateTargetingRules(rules as any)).toThrow(message);
+    });
+  });
+});
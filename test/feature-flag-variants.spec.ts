@@ -0,0 +1,110 @@
+import { FeatureFlagVariant } from '../src/feature-flag-cache.interface';
+import { isInRollout } from '../src/feature-flag.rollout';
+import { selectVariant, validateVariants } from '../src/feature-flag.variants';
+
+describe('Feature Flag Variants', () => {
+  const userIds = Array.from({ length: 10000 }, (_, i) => `user${i}`);
+  const variants: FeatureFlagVariant[] = [
+    { name: 'control', weight: 50 },
+    { name: 'A', weight: 25, payload: { price: 9 } },
+    { name: 'B', weight: 25, payload: { price: 12 } },
+  ];
+
+  const countAssignments = (users: string[], flagVariants: FeatureFlagVariant[]) =>
+    users.reduce((acc, userId) => {
+      const name = selectVariant('pricing', userId, flagVariants)!.name;
+      acc[name] = (acc[name] ?? 0) + 1;
+      return acc;
+    }, {} as Record<string, number>);
+
+  describe('selectVariant', () => {
+    it('should be deterministic', () => {
+      expect(selectVariant('pricing', 'user1', variants)).toBe(
+        selectVariant('pricing', 'user1', variants),
+      );
+    });
+
+    it('should assign users proportionally to the weights', () => {
+      const counts = countAssignments(userIds, variants);
+
+      expect(counts.control).toBeGreaterThan(4600);
+      expect(counts.control).toBeLessThan(5400);
+      expect(counts.A).toBeGreaterThan(2200);
+      expect(counts.A).toBeLessThan(2800);
+      expect(counts.B).toBeGreaterThan(2200);
+      expect(counts.B).toBeLessThan(2800);
+    });
+
+    it('should treat weights as relative', () => {
+      const counts = countAssignments(userIds, [
+        { name: 'A', weight: 1 },
+        { name: 'B', weight: 3 },
+      ]);
+
+      expect(counts.B / counts.A).toBeGreaterThan(2.6);
+      expect(counts.B / counts.A).toBeLessThan(3.4);
+    });
+
+    it('should never assign zero-weight variants', () => {
+      const counts = countAssignments(userIds.slice(0, 1000), [
+        { name: 'off', weight: 0 },
+        { name: 'on', weight: 1 },
+      ]);
+
+      expect(counts).toEqual({ on: 1000 });
+    });
+
+    it('should spread users of a percentage rollout over every variant', () => {
+      const enrolled = userIds.filter((userId) => isInRollout('pricing', userId, 10));
+      const counts = countAssignments(enrolled, variants);
+
+      expect(Object.keys(counts).sort()).toEqual(['A', 'B', 'control']);
+    });
+
+    it('should return null when no variant has weight', () => {
+      expect(selectVariant('pricing', 'user1', [{ name: 'A', weight: 0 }])).toBeNull();
+    });
+  });
+
+  describe('validateVariants', () => {
+    it('should accept undefined and valid variants', () => {
+      expect(() => validateVariants(undefined)).not.toThrow();
+      expect(() => validateVariants(variants)).not.toThrow();
+    });
+
+    it('should reject empty lists', () => {
+      expect(() => validateVariants([])).toThrow('variants must be a non-empty array');
+    });
+
+    it('should reject missing and duplicate names', () => {
+      expect(() => validateVariants([{ name: '', weight: 1 }])).toThrow(
+        'Each variant must have a non-empty name',
+      );
+      expect(() =>
+        validateVariants([
+          { name: 'A', weight: 1 },
+          { name: 'A', weight: 1 },
+        ]),
+      ).toThrow('Duplicate variant "A"');
+    });
+
+    it('should reject invalid weights', () => {
+      expect(() => validateVariants([{ name: 'A', weight: -1 }])).toThrow(
+        'Variant "A" must have a finite, non-negative weight',
+      );
+      expect(() => validateVariants([{ name: 'A', weight: NaN }])).toThrow();
+      expect(() => validateVariants([{ name: 'A', weight: 0 }])).toThrow(
+        'At least one variant must have a positive weight',
+      );
+    });
+
+    it('should reject payloads that cannot be serialized', () => {
+      const payload: Record<string, unknown> = {};
+      payload.self = payload;
+
+      expect(() => validateVariants([{ name: 'A', weight: 1, payload }])).toThrow(
+        'Variant "A" payload must be serializable to JSON',
+      );
+    });
+  });
+});
@@ -0,0 +1,911 @@
+import { FeatureFlagTargetingRule, FeatureGuardStore } from '../src/feature-flag-cache.interface';
+import { isInRollout } from '../src/feature-flag.rollout';
+import { FeatureFlagClock } from '../src/feature-flag.schedule';
+import { selectVariant } from '../src/feature-flag.variants';
+
+/**
+ * Creates a fresh, empty store reading time from the given clock.
+ */
+export type FeatureGuardStoreFactory = (options: {
+  clock: FeatureFlagClock;
+}) => Required<FeatureGuardStore>;
+
+/**
+ * Behavior every FeatureGuardStore shipped with the library must share, whatever its storage.
+ * Called from the spec of each store, next to the tests of its storage details.
+ *
+ * @param {FeatureGuardStoreFactory} createStore - Creates the store under test
+ */
+export function describeFeatureGuardStoreConformance(createStore: FeatureGuardStoreFactory): void {
+  describe('FeatureGuardStore conformance', () => {
+    let store: Required<FeatureGuardStore>;
+    let now: number;
+
+    beforeEach(() => {
+      now = Date.now();
+      store = createStore({ clock: { now: () => now } });
+    });
+
+    describe('setFeatureFlag', () => {
+      it('should replace the users when the flag is set again', async () => {
+        const flag = 'test_feature';
+
+        await store.setFeatureFlag({ flag, enabled: true, userIds: ['user1', 'user2'] });
+        await store.setFeatureFlag({ flag, enabled: true, userIds: ['user3'] });
+
+        expect(await store.getFeature(flag)).toEqual({ enabled: true, userIds: ['user3'] });
+      });
+
+      it('should clear users when setting flag without userIds', async () => {
+        const flag = 'test_feature';
+
+        await store.setFeatureFlag({ flag, enabled: true, userIds: ['user1', 'user2'] });
+        await store.setFeatureFlag({ flag, enabled: true });
+
+        expect(await store.getFeature(flag)).toEqual({ enabled: true, userIds: undefined });
+        expect(await store.hasFeatureFlag(flag, 'any_user')).toBe(true);
+      });
+
+      it('should treat empty userIds as a global feature', async () => {
+        const flag = 'test_feature';
+
+        await store.setFeatureFlag({ flag, enabled: true, userIds: [] });
+
+        expect(await store.getFeature(flag)).toEqual({ enabled: true, userIds: undefined });
+        expect(await store.hasFeatureFlag(flag, 'any_user')).toBe(true);
+      });
+
+      it('should handle duplicate userIds', async () => {
+        const flag = 'test_feature';
+
+        await store.setFeatureFlag({ flag, enabled: true, userIds: ['user1', 'user1', 'user2'] });
+
+        const feature = await store.getFeature(flag);
+        expect(feature?.userIds).toHaveLength(2);
+        expect(feature?.userIds).toEqual(expect.arrayContaining(['user1', 'user2']));
+      });
+
+      it('should not be affected by later changes to the options passed', async () => {
+        const flag = 'test_feature';
+        const userIds = ['user1'];
+        const rules: FeatureFlagTargetingRule[] = [
+          { attribute: 'plan', operator: '==', value: 'pro' },
+        ];
+
+        await store.setFeatureFlag({ flag, enabled: true, userIds, rules });
+        userIds.push('user2');
+        rules[0].value = 'free';
+
+        expect(await store.getFeature(flag)).toEqual({
+          enabled: true,
+          userIds: ['user1'],
+          rules: [{ attribute: 'plan', operator: '==', value: 'pro' }],
+        });
+      });
+    });
+
+    describe('getFeature', () => {
+      it('should return null for non-existent feature', async () => {
+        const result = await store.getFeature('non_existent');
+        expect(result).toBeNull();
+      });
+
+      it('should return feature info with users', async () => {
+        const flag = 'test_feature';
+        const userIds = ['user1', 'user2'];
+
+        await store.setFeatureFlag({
+          flag,
+          enabled: true,
+          userIds,
+        });
+
+        const result = await store.getFeature(flag);
+
+        expect(result).toEqual({
+          enabled: true,
+          userIds,
+        });
+      });
+
+      it('should return feature info without users for global feature', async () => {
+        const flag = 'global_feature';
+
+        await store.setFeatureFlag({
+          flag,
+          enabled: true,
+        });
+
+        const result = await store.getFeature(flag);
+
+        expect(result).toEqual({
+          enabled: true,
+          userIds: undefined,
+        });
+      });
+    });
+
+    describe('hasFeatureFlag', () => {
+      it('should return false for non-existent feature', async () => {
+        const result = await store.hasFeatureFlag('non_existent', 'user1');
+        expect(result).toBe(false);
+      });
+
+      it('should return true for enabled feature with user in list', async () => {
+        const flag = 'test_feature';
+        const userId = 'user1';
+
+        await store.setFeatureFlag({
+          flag,
+          enabled: true,
+          userIds: [userId],
+        });
+
+        const result = await store.hasFeatureFlag(flag, userId);
+        expect(result).toBe(true);
+      });
+
+      it('should return false for enabled feature with user not in list', async () => {
+        const flag = 'test_feature';
+        const userId = 'user1';
+
+        await store.setFeatureFlag({
+          flag,
+          enabled: true,
+          userIds: ['other_user'],
+        });
+
+        const result = await store.hasFeatureFlag(flag, userId);
+        expect(result).toBe(false);
+      });
+
+      it('should return false for disabled feature with user not in list', async () => {
+        const flag = 'test_feature';
+        const userId = 'user1';
+
+        await store.setFeatureFlag({
+          flag,
+          enabled: false,
+          userIds: ['other_user'],
+        });
+
+        const result = await store.hasFeatureFlag(flag, userId);
+        expect(result).toBe(false);
+      });
+
+      it('should return false for disabled feature with user in list', async () => {
+        const flag = 'test_feature';
+        const userId = 'user1';
+
+        await store.setFeatureFlag({
+          flag,
+          enabled: false,
+          userIds: [userId],
+        });
+
+        const result = await store.hasFeatureFlag(flag, userId);
+        expect(result).toBe(false);
+      });
+
+      it('should return true for enabled global feature', async () => {
+        const flag = 'global_feature';
+
+        await store.setFeatureFlag({
+          flag,
+          enabled: true,
+        });
+
+        const result = await store.hasFeatureFlag(flag, 'any_user');
+        expect(result).toBe(true);
+      });
+
+      it('should return false for disabled global feature', async () => {
+        const flag = 'global_feature';
+
+        await store.setFeatureFlag({
+          flag,
+          enabled: false,
+        });
+
+        const result = await store.hasFeatureFlag(flag, 'any_user');
+        expect(result).toBe(false);
+      });
+    });
+
+    describe('rolloutPercentage', () => {
+      const flag = 'rollout_feature';
+      const userIds = Array.from({ length: 200 }, (_, i) => `user${i}`);
+
+      it('should report the rollout percentage', async () => {
+        await store.setFeatureFlag({ flag, enabled: true, rolloutPercentage: 12.5 });
+
+        expect(await store.getFeature(flag)).toEqual({ enabled: true, rolloutPercentage: 12.5 });
+      });
+
+      it('should remove the rollout percentage when the flag is set without one', async () => {
+        await store.setFeatureFlag({ flag, enabled: true, rolloutPercentage: 50 });
+        await store.setFeatureFlag({ flag, enabled: true });
+
+        expect(await store.getFeature(flag)).toEqual({ enabled: true });
+        expect(await store.hasFeatureFlag(flag, 'user1')).toBe(true);
+      });
+
+      it('should grant access to users whose bucket is below the percentage', async () => {
+        await store.setFeatureFlag({ flag, enabled: true, rolloutPercentage: 30 });
+
+        for (const userId of userIds) {
+          expect(await store.hasFeatureFlag(flag, userId)).toBe(isInRollout(flag, userId, 30));
+        }
+      });
+
+      it('should keep enrolled users when the percentage is raised', async () => {
+        await store.setFeatureFlag({ flag, enabled: true, rolloutPercentage: 5 });
+        const enrolled = [];
+        for (const userId of userIds) {
+          if (await store.hasFeatureFlag(flag, userId)) enrolled.push(userId);
+        }
+
+        await store.setFeatureFlag({ flag, enabled: true, rolloutPercentage: 20 });
+        for (const userId of enrolled) {
+          expect(await store.hasFeatureFlag(flag, userId)).toBe(true);
+        }
+      });
+
+      it('should grant access to listed users outside the rollout', async () => {
+        const outside = userIds.find((userId) => !isInRollout(flag, userId, 10))!;
+        await store.setFeatureFlag({
+          flag,
+          enabled: true,
+          rolloutPercentage: 10,
+          userIds: [outside],
+        });
+
+        expect(await store.hasFeatureFlag(flag, outside)).toBe(true);
+      });
+
+      it('should grant access only to listed users at 0%', async () => {
+        await store.setFeatureFlag({ flag, enabled: true, rolloutPercentage: 0 });
+
+        for (const userId of userIds) {
+          expect(await store.hasFeatureFlag(flag, userId)).toBe(false);
+        }
+      });
+
+      it('should deny everyone when the feature is disabled', async () => {
+        await store.setFeatureFlag({ flag, enabled: false, rolloutPercentage: 100 });
+
+        expect(await store.hasFeatureFlag(flag, 'user1')).toBe(false);
+      });
+
+      it('should reject out-of-range percentages', async () => {
+        await expect(
+          store.setFeatureFlag({ flag, enabled: true, rolloutPercentage: 101 }),
+        ).rejects.toThrow('rolloutPercentage must be a number between 0 and 100');
+        await expect(
+          store.setFeatureFlag({ flag, enabled: true, rolloutPercentage: NaN }),
+        ).rejects.toThrow();
+        expect(await store.getFeature(flag)).toBeNull();
+      });
+    });
+
+    describe('schedule', () => {
+      const flag = 'scheduled_feature';
+      const launch = new Date('2025-11-28T00:00:00Z');
+      const end = new Date('2025-12-01T00:00:00Z');
+
+      beforeEach(() => {
+        now = launch.getTime() - 1000;
+      });
+
+      it('should turn the flag on at enableAt and off at disableAt', async () => {
+        await store.setFeatureFlag({ flag, enabled: true, enableAt: launch, disableAt: end });
+
+        expect(await store.hasFeatureFlag(flag, 'user1')).toBe(false);
+        expect((await store.getFeature(flag))?.enabled).toBe(false);
+
+        now = launch.getTime();
+        expect(await store.hasFeatureFlag(flag, 'user1')).toBe(true);
+        expect((await store.getFeature(flag))?.enabled).toBe(true);
+
+        now = end.getTime();
+        expect(await store.hasFeatureFlag(flag, 'user1')).toBe(false);
+        expect((await store.getFeature(flag))?.enabled).toBe(false);
+      });
+
+      it('should report the schedule', async () => {
+        await store.setFeatureFlag({ flag, enabled: true, enableAt: launch, disableAt: end });
+
+        expect(await store.getFeature(flag)).toEqual({
+          enabled: false,
+          enableAt: launch,
+          disableAt: end,
+        });
+      });
+
+      it('should accept timestamps', async () => {
+        await store.setFeatureFlag({ flag, enabled: true, disableAt: end.getTime() });
+
+        expect(await store.getFeature(flag)).toEqual({ enabled: true, disableAt: end });
+        expect(await store.hasFeatureFlag(flag, 'user1')).toBe(true);
+      });
+
+      it('should keep a disabled flag off within its window', async () => {
+        await store.setFeatureFlag({ flag, enabled: false, enableAt: launch });
+
+        now = end.getTime();
+        expect(await store.hasFeatureFlag(flag, 'user1')).toBe(false);
+      });
+
+      it('should apply the schedule to targeted users', async () => {
+        await store.setFeatureFlag({ flag, enabled: true, userIds: ['user1'], enableAt: launch });
+
+        expect(await store.hasFeatureFlag(flag, 'user1')).toBe(false);
+        now = launch.getTime();
+        expect(await store.hasFeatureFlag(flag, 'user1')).toBe(true);
+        expect(await store.hasFeatureFlag(flag, 'user2')).toBe(false);
+      });
+
+      it('should clear the schedule when the flag is set without one', async () => {
+        await store.setFeatureFlag({ flag, enabled: true, enableAt: launch });
+        await store.setFeatureFlag({ flag, enabled: true });
+
+        expect(await store.getFeature(flag)).toEqual({ enabled: true });
+      });
+
+      it('should reject invalid schedules', async () => {
+        await expect(
+          store.setFeatureFlag({ flag, enabled: true, enableAt: end, disableAt: launch }),
+        ).rejects.toThrow('disableAt must be after enableAt');
+        expect(await store.getFeature(flag)).toBeNull();
+      });
+    });
+
+    describe('variants', () => {
+      const flag = 'pricing';
+      const variants = [
+        { name: 'control', weight: 50 },
+        { name: 'B', weight: 50, payload: { price: 12 } },
+      ];
+
+      it('should report the variants', async () => {
+        await store.setFeatureFlag({ flag, enabled: true, variants });
+
+        expect(await store.getFeature(flag)).toEqual({ enabled: true, variants });
+      });
+
+      it('should resolve the variant selected for the user', async () => {
+        await store.setFeatureFlag({ flag, enabled: true, variants });
+
+        for (const userId of ['user1', 'user2', 'user3']) {
+          expect(await store.getFeatureVariant(flag, userId)).toEqual(
+            selectVariant(flag, userId, variants),
+          );
+        }
+      });
+
+      it('should return null when the user has no access', async () => {
+        await store.setFeatureFlag({ flag, enabled: true, userIds: ['user1'], variants });
+
+        expect(await store.getFeatureVariant(flag, 'user1')).not.toBeNull();
+        expect(await store.getFeatureVariant(flag, 'user2')).toBeNull();
+      });
+
+      it('should return null for flags without variants', async () => {
+        await store.setFeatureFlag({ flag, enabled: true });
+
+        expect(await store.getFeatureVariant(flag, 'user1')).toBeNull();
+        expect(await store.getFeatureVariant('missing', 'user1')).toBeNull();
+      });
+
+      it('should clear the variants when the flag is set without them', async () => {
+        await store.setFeatureFlag({ flag, enabled: true, variants });
+        await store.setFeatureFlag({ flag, enabled: true });
+
+        expect(await store.getFeature(flag)).toEqual({ enabled: true });
+      });
+
+      it('should reject invalid variants', async () => {
+        await expect(
+          store.setFeatureFlag({ flag, enabled: true, variants: [{ name: 'A', weight: -1 }] }),
+        ).rejects.toThrow('Variant "A" must have a finite, non-negative weight');
+      });
+    });
+
+    describe('rules', () => {
+      const flag = 'instant_payouts';
+      const rules: FeatureFlagTargetingRule[] = [
+        { attribute: 'country', operator: '==', value: 'DE', grant: false },
+        { attribute: 'plan', operator: 'in', value: ['pro', 'enterprise'] },
+        { attribute: 'appVersion', operator: 'semver>=', value: '5.2.0' },
+      ];
+
+      it('should report the rules', async () => {
+        await store.setFeatureFlag({ flag, enabled: true, rules });
+
+        expect(await store.getFeature(flag)).toEqual({ enabled: true, rules });
+      });
+
+      it('should let the first matching rule decide', async () => {
+        await store.setFeatureFlag({ flag, enabled: true, rules });
+
+        expect(await store.hasFeatureFlag(flag, 'user1', { plan: 'pro' })).toBe(true);
+        expect(await store.hasFeatureFlag(flag, 'user1', { plan: 'pro', country: 'DE' })).toBe(
+          false,
+        );
+        expect(await store.hasFeatureFlag(flag, 'user1', { appVersion: '5.10.1' })).toBe(true);
+      });
+
+      it('should deny users matching no granting rule', async () => {
+        await store.setFeatureFlag({ flag, enabled: true, rules });
+
+        expect(await store.hasFeatureFlag(flag, 'user1', { plan: 'free' })).toBe(false);
+        expect(await store.hasFeatureFlag(flag, 'user1')).toBe(false);
+      });
+
+      it('should keep global access for users not matched by denying rules', async () => {
+        await store.setFeatureFlag({ flag, enabled: true, rules: [rules[0]] });
+
+        expect(await store.hasFeatureFlag(flag, 'user1', { country: 'NG' })).toBe(true);
+        expect(await store.hasFeatureFlag(flag, 'user1', { country: 'DE' })).toBe(false);
+      });
+
+      it('should grant listed users regardless of the rules', async () => {
+        await store.setFeatureFlag({ flag, enabled: true, userIds: ['qa_user'], rules });
+
+        expect(await store.hasFeatureFlag(flag, 'qa_user', { country: 'DE' })).toBe(true);
+        expect(await store.hasFeatureFlag(flag, 'user1', { plan: 'pro' })).toBe(true);
+        expect(await store.hasFeatureFlag(flag, 'user1', { plan: 'free' })).toBe(false);
+      });
+
+      it('should fall through to the rollout when no rule matches', async () => {
+        await store.setFeatureFlag({ flag, enabled: true, rolloutPercentage: 50, rules });
+
+        const userIds = Array.from({ length: 100 }, (_, i) => `user${i}`);
+        for (const userId of userIds) {
+          expect(await store.hasFeatureFlag(flag, userId, { plan: 'free' })).toBe(
+            isInRollout(flag, userId, 50),
+          );
+          expect(await store.hasFeatureFlag(flag, userId, { country: 'DE' })).toBe(false);
+        }
+      });
+
+      it('should not grant access when the flag is disabled', async () => {
+        await store.setFeatureFlag({ flag, enabled: false, rules });
+
+        expect(await store.hasFeatureFlag(flag, 'user1', { plan: 'pro' })).toBe(false);
+      });
+
+      it('should pass the attributes through when resolving variants', async () => {
+        const variants = [{ name: 'A', weight: 1 }];
+        await store.setFeatureFlag({ flag, enabled: true, rules, variants });
+
+        expect(await store.getFeatureVariant(flag, 'user1', { plan: 'pro' })).toEqual(
+          variants[0],
+        );
+        expect(await store.getFeatureVariant(flag, 'user1', { plan: 'free' })).toBeNull();
+      });
+
+      it('should clear the rules when the flag is set without them', async () => {
+        await store.setFeatureFlag({ flag, enabled: true, rules });
+        await store.setFeatureFlag({ flag, enabled: true, rules: [] });
+
+        expect(await store.getFeature(flag)).toEqual({ enabled: true });
+        expect(await store.hasFeatureFlag(flag, 'user1')).toBe(true);
+      });
+
+      it('should reject invalid rules', async () => {
+        await expect(
+          store.setFeatureFlag({
+            flag,
+            enabled: true,
+            rules: [{ attribute: 'plan', operator: 'like' as any, value: 'pro' }],
+          }),
+        ).rejects.toThrow('Rule on "plan" has unknown operator "like"');
+      });
+    });
+
+    describe('segments', () => {
+      const flag = 'new_editor';
+
+      beforeEach(async () => {
+        await store.setSegment({ name: 'design_partners', userIds: ['partner1', 'partner2'] });
+        await store.setSegment({
+          name: 'internal_staff',
+          rules: [{ attribute: 'email', operator: 'endsWith', value: '@ourco.com' }],
+        });
+      });
+
+      it('should store and retrieve segments', async () => {
+        expect(await store.getSegment('design_partners')).toEqual({
+          name: 'design_partners',
+          userIds: expect.arrayContaining(['partner1', 'partner2']),
+        });
+        expect(await store.getSegment('internal_staff')).toEqual({
+          name: 'internal_staff',
+          rules: [{ attribute: 'email', operator: 'endsWith', value: '@ourco.com' }],
+        });
+        expect(await store.getSegment('missing')).toBeNull();
+      });
+
+      it('should grant access to segment members', async () => {
+        await store.setFeatureFlag({
+          flag,
+          enabled: true,
+          segments: ['design_partners', 'internal_staff'],
+        });
+
+        expect(await store.getFeature(flag)).toEqual({
+          enabled: true,
+          segments: ['design_partners', 'internal_staff'],
+        });
+        expect(await store.hasFeatureFlag(flag, 'partner1')).toBe(true);
+        expect(await store.hasFeatureFlag(flag, 'user1', { email: 'jane@ourco.com' })).toBe(true);
+        expect(await store.hasFeatureFlag(flag, 'user1', { email: 'jane@gmail.com' })).toBe(
+          false,
+        );
+      });
+
+      it('should apply segment edits to every flag referencing it', async () => {
+        await store.setFeatureFlag({ flag, enabled: true, segments: ['design_partners'] });
+        await store.setFeatureFlag({
+          flag: 'other',
+          enabled: true,
+          segments: ['design_partners'],
+        });
+
+        await store.setSegment({ name: 'design_partners', userIds: ['partner3'] });
+
+        for (const target of [flag, 'other']) {
+          expect(await store.hasFeatureFlag(target, 'partner1')).toBe(false);
+          expect(await store.hasFeatureFlag(target, 'partner3')).toBe(true);
+        }
+      });
+
+      it('should keep segment targeting alongside users, rules and rollouts', async () => {
+        await store.setFeatureFlag({
+          flag,
+          enabled: true,
+          userIds: ['qa_user'],
+          segments: ['design_partners'],
+          rules: [{ attribute: 'plan', operator: '==', value: 'enterprise' }],
+        });
+
+        expect(await store.hasFeatureFlag(flag, 'qa_user')).toBe(true);
+        expect(await store.hasFeatureFlag(flag, 'partner2')).toBe(true);
+        expect(await store.hasFeatureFlag(flag, 'user1', { plan: 'enterprise' })).toBe(true);
+        expect(await store.hasFeatureFlag(flag, 'user1', { plan: 'free' })).toBe(false);
+      });
+
+      it('should deny everyone else when the referenced segment is deleted', async () => {
+        await store.setFeatureFlag({ flag, enabled: true, segments: ['design_partners'] });
+        await store.deleteSegment('design_partners');
+
+        expect(await store.getSegment('design_partners')).toBeNull();
+        expect(await store.hasFeatureFlag(flag, 'partner1')).toBe(false);
+      });
+
+      it('should not grant access through segments when the flag is disabled', async () => {
+        await store.setFeatureFlag({ flag, enabled: false, segments: ['design_partners'] });
+
+        expect(await store.hasFeatureFlag(flag, 'partner1')).toBe(false);
+      });
+
+      it('should clear the segment references when the flag is set without them', async () => {
+        await store.setFeatureFlag({ flag, enabled: true, segments: ['design_partners'] });
+        await store.setFeatureFlag({ flag, enabled: true });
+
+        expect(await store.getFeature(flag)).toEqual({ enabled: true });
+      });
+
+      it('should reject invalid segments and references', async () => {
+        await expect(store.setSegment({ name: '' })).rejects.toThrow(
+          'Segment name must be a non-empty string',
+        );
+        await expect(
+          store.setFeatureFlag({ flag, enabled: true, segments: [''] }),
+        ).rejects.toThrow('Segment name must be a non-empty string');
+      });
+    });
+
+    describe('tenantIds', () => {
+      const flag = 'sso_login';
+
+      it('should report the tenants', async () => {
+        await store.setFeatureFlag({ flag, enabled: true, tenantIds: ['acme', 'globex'] });
+
+        expect(await store.getFeature(flag)).toEqual({
+          enabled: true,
+          userIds: undefined,
+          tenantIds: expect.arrayContaining(['acme', 'globex']),
+        });
+      });
+
+      it('should grant access to every user of a targeted tenant', async () => {
+        await store.setFeatureFlag({ flag, enabled: true, tenantIds: ['acme'] });
+
+        expect(await store.hasFeatureFlag(flag, 'user1', undefined, 'acme')).toBe(true);
+        expect(await store.hasFeatureFlag(flag, 'user2', undefined, 'acme')).toBe(true);
+        expect(await store.hasFeatureFlag(flag, 'user1', undefined, 'globex')).toBe(false);
+        expect(await store.hasFeatureFlag(flag, 'user1')).toBe(false);
+      });
+
+      it('should grant access if either the tenant or the user is targeted', async () => {
+        await store.setFeatureFlag({
+          flag,
+          enabled: true,
+          tenantIds: ['acme'],
+          userIds: ['support_user'],
+        });
+
+        expect(await store.hasFeatureFlag(flag, 'support_user', undefined, 'globex')).toBe(true);
+        expect(await store.hasFeatureFlag(flag, 'user1', undefined, 'acme')).toBe(true);
+        expect(await store.hasFeatureFlag(flag, 'user1', undefined, 'globex')).toBe(false);
+      });
+
+      it('should not grant access to targeted tenants when the flag is disabled', async () => {
+        await store.setFeatureFlag({ flag, enabled: false, tenantIds: ['acme'] });
+
+        expect(await store.hasFeatureFlag(flag, 'user1', undefined, 'acme')).toBe(false);
+      });
+
+      it('should combine tenants with a percentage rollout', async () => {
+        await store.setFeatureFlag({
+          flag,
+          enabled: true,
+          tenantIds: ['acme'],
+          rolloutPercentage: 0,
+        });
+
+        expect(await store.hasFeatureFlag(flag, 'user1', undefined, 'acme')).toBe(true);
+        expect(await store.hasFeatureFlag(flag, 'user1', undefined, 'globex')).toBe(false);
+      });
+
+      it('should clear the tenants when the flag is set without them', async () => {
+        await store.setFeatureFlag({ flag, enabled: true, tenantIds: ['acme'] });
+        await store.setFeatureFlag({ flag, enabled: true });
+
+        expect(await store.getFeature(flag)).toEqual({ enabled: true });
+        expect(await store.hasFeatureFlag(flag, 'user1', undefined, 'globex')).toBe(true);
+      });
+
+      it('should resolve variants for users of targeted tenants', async () => {
+        const variants = [{ name: 'A', weight: 1 }];
+        await store.setFeatureFlag({ flag, enabled: true, tenantIds: ['acme'], variants });
+
+        expect(await store.getFeatureVariant(flag, 'user1', undefined, 'acme')).toEqual(
+          variants[0],
+        );
+        expect(await store.getFeatureVariant(flag, 'user1', undefined, 'globex')).toBeNull();
+      });
+    });
+
+    describe('exclusions', () => {
+      const flag = 'new_invoicing';
+
+      it('should report the exclusions', async () => {
+        await store.setFeatureFlag({
+          flag,
+          enabled: true,
+          excludedUserIds: ['user789'],
+          excludedTenantIds: ['initech'],
+          excludedSegments: ['churn_risk'],
+        });
+
+        expect(await store.getFeature(flag)).toEqual({
+          enabled: true,
+          userIds: undefined,
+          excludedUserIds: ['user789'],
+          excludedTenantIds: ['initech'],
+          excludedSegments: ['churn_risk'],
+        });
+      });
+
+      it('should keep a global feature on for everyone except the excluded users', async () => {
+        await store.setFeatureFlag({ flag, enabled: true, excludedUserIds: ['user789'] });
+
+        expect(await store.hasFeatureFlag(flag, 'user123')).toBe(true);
+        expect(await store.hasFeatureFlag(flag, 'user789')).toBe(false);
+      });
+
+      it('should deny every user of an excluded tenant', async () => {
+        await store.setFeatureFlag({ flag, enabled: true, excludedTenantIds: ['initech'] });
+
+        expect(await store.hasFeatureFlag(flag, 'user1', undefined, 'initech')).toBe(false);
+        expect(await store.hasFeatureFlag(flag, 'user1', undefined, 'acme')).toBe(true);
+        expect(await store.hasFeatureFlag(flag, 'user1')).toBe(true);
+      });
+
+      it('should deny members of an excluded segment', async () => {
+        await store.setSegment({
+          name: 'churn_risk',
+          userIds: ['user2'],
+          rules: [{ attribute: 'plan', operator: '==', value: 'trial' }],
+        });
+        await store.setFeatureFlag({ flag, enabled: true, excludedSegments: ['churn_risk'] });
+
+        expect(await store.hasFeatureFlag(flag, 'user1', { plan: 'pro' })).toBe(true);
+        expect(await store.hasFeatureFlag(flag, 'user1', { plan: 'trial' })).toBe(false);
+        expect(await store.hasFeatureFlag(flag, 'user2')).toBe(false);
+      });
+
+      it('should override every grant', async () => {
+        await store.setSegment({ name: 'design_partners', userIds: ['user789'] });
+        await store.setFeatureFlag({
+          flag,
+          enabled: true,
+          userIds: ['user789'],
+          tenantIds: ['acme'],
+          segments: ['design_partners'],
+          rules: [{ attribute: 'plan', operator: '==', value: 'pro' }],
+          rolloutPercentage: 100,
+          excludedUserIds: ['user789'],
+        });
+
+        expect(await store.hasFeatureFlag(flag, 'user789', { plan: 'pro' }, 'acme')).toBe(false);
+        expect(await store.hasFeatureFlag(flag, 'user1', { plan: 'pro' }, 'acme')).toBe(true);
+      });
+
+      it('should clear the exclusions when the flag is set without them', async () => {
+        await store.setFeatureFlag({
+          flag,
+          enabled: true,
+          excludedUserIds: ['user789'],
+          excludedTenantIds: ['initech'],
+          excludedSegments: ['churn_risk'],
+        });
+        await store.setFeatureFlag({ flag, enabled: true });
+
+        expect(await store.getFeature(flag)).toEqual({ enabled: true });
+        expect(await store.hasFeatureFlag(flag, 'user789', undefined, 'initech')).toBe(true);
+      });
+
+      it('should reject invalid excluded segments', async () => {
+        await expect(
+          store.setFeatureFlag({ flag, enabled: true, excludedSegments: 'churn_risk' as any }),
+        ).rejects.toThrow('excludedSegments must be an array of segment names');
+      });
+    });
+
+    describe('evaluateFlags', () => {
+      const variants = [
+        { name: 'A', weight: 50 },
+        { name: 'B', weight: 50, payload: { price: 12 } },
+      ];
+
+      beforeEach(async () => {
+        await store.setFeatureFlag({ flag: 'global', enabled: true });
+        await store.setFeatureFlag({ flag: 'disabled', enabled: false });
+        await store.setFeatureFlag({ flag: 'targeted', enabled: true, userIds: ['user1'] });
+        await store.setFeatureFlag({ flag: 'tenant', enabled: true, tenantIds: ['acme'] });
+        await store.setFeatureFlag({
+          flag: 'pro',
+          enabled: true,
+          rules: [{ attribute: 'plan', operator: '==', value: 'pro' }],
+        });
+        await store.setFeatureFlag({ flag: 'pricing', enabled: true, variants });
+      });
+
+      it('should match the per-flag methods', async () => {
+        const flags = ['global', 'disabled', 'targeted', 'tenant', 'pro', 'pricing', 'missing'];
+
+        for (const [userId, attributes, tenantId] of [
+          ['user1', undefined, undefined],
+          ['user2', { plan: 'pro' }, 'acme'],
+          ['user3', { plan: 'free' }, 'globex'],
+        ] as const) {
+          const evaluations = await store.evaluateFlags(flags, { userId, attributes, tenantId });
+
+          for (const flag of flags) {
+            expect(evaluations[flag]).toEqual({
+              enabled: await store.hasFeatureFlag(flag, userId, attributes, tenantId),
+              variant: await store.getFeatureVariant(flag, userId, attributes, tenantId),
+            });
+          }
+        }
+      });
+
+      it('should assign variants to users with access', async () => {
+        const evaluations = await store.evaluateFlags(['pricing'], { userId: 'user1' });
+
+        expect(evaluations.pricing.variant).toEqual(selectVariant('pricing', 'user1', variants));
+      });
+
+      it('should return no evaluations without flags', async () => {
+        await expect(store.evaluateFlags([], { userId: 'user1' })).resolves.toEqual({});
+      });
+    });
+
+    describe('incremental updates', () => {
+      const flag = 'beta_dashboard';
+
+      beforeEach(async () => {
+        await store.setFeatureFlag({ flag, enabled: true, userIds: ['user1', 'user2'] });
+      });
+
+      it('should add users to the existing list', async () => {
+        await store.addUsersToFeature(flag, ['user3', 'user1']);
+
+        const feature = await store.getFeature(flag);
+        expect(feature?.userIds?.sort()).toEqual(['user1', 'user2', 'user3']);
+        expect(await store.hasFeatureFlag(flag, 'user3')).toBe(true);
+      });
+
+      it('should reject adding users to a missing flag', async () => {
+        await expect(store.addUsersToFeature('missing', ['user1'])).rejects.toThrow(
+          'Feature flag "missing" does not exist',
+        );
+        expect(await store.getFeature('missing')).toBeNull();
+      });
+
+      it('should remove users from the existing list', async () => {
+        await store.removeUsersFromFeature(flag, ['user1', 'unknown']);
+
+        expect((await store.getFeature(flag))?.userIds).toEqual(['user2']);
+        expect(await store.hasFeatureFlag(flag, 'user1')).toBe(false);
+        expect(await store.hasFeatureFlag(flag, 'user2')).toBe(true);
+      });
+
+      it('should keep the flag targeted when every listed user is removed', async () => {
+        await store.removeUsersFromFeature(flag, ['user1', 'user2']);
+
+        expect(await store.getFeature(flag)).toEqual({ enabled: true, userIds: [] });
+        expect(await store.hasFeatureFlag(flag, 'user1')).toBe(false);
+        expect(await store.hasFeatureFlag(flag, 'any_user')).toBe(false);
+
+        await store.addUsersToFeature(flag, ['user3']);
+        expect(await store.hasFeatureFlag(flag, 'user3')).toBe(true);
+        expect(await store.hasFeatureFlag(flag, 'any_user')).toBe(false);
+      });
+
+      it('should not reopen a global flag by adding and removing users', async () => {
+        await store.setFeatureFlag({ flag, enabled: true });
+        await store.addUsersToFeature(flag, ['user1']);
+        await store.removeUsersFromFeature(flag, ['user1']);
+
+        expect(await store.hasFeatureFlag(flag, 'any_user')).toBe(false);
+
+        await store.setFeatureFlag({ flag, enabled: true });
+        expect(await store.hasFeatureFlag(flag, 'any_user')).toBe(true);
+      });
+
+      it('should ignore removals from a missing flag', async () => {
+        await expect(store.removeUsersFromFeature('missing', ['user1'])).resolves.toBeUndefined();
+      });
+
+      it('should reject invalid user IDs', async () => {
+        await expect(store.addUsersToFeature(flag, 'user3' as any)).rejects.toThrow(
+          'userIds must be an array of strings',
+        );
+        await expect(store.removeUsersFromFeature(flag, [42] as any)).rejects.toThrow(
+          'userIds must be an array of strings',
+        );
+      });
+
+      it('should toggle the flag while keeping its configuration', async () => {
+        await store.setFeatureFlag({
+          flag,
+          enabled: true,
+          userIds: ['user1'],
+          rules: [{ attribute: 'plan', operator: '==', value: 'pro' }],
+        });
+
+        await store.setFeatureEnabled(flag, false);
+        expect(await store.hasFeatureFlag(flag, 'user1')).toBe(false);
+
+        await store.setFeatureEnabled(flag, true);
+        expect(await store.getFeature(flag)).toEqual({
+          enabled: true,
+          userIds: ['user1'],
+          rules: [{ attribute: 'plan', operator: '==', value: 'pro' }],
+        });
+      });
+
+      it('should reject toggling a missing flag', async () => {
+        await expect(store.setFeatureEnabled('missing', true)).rejects.toThrow(
+          'Feature flag "missing" does not exist',
+        );
+        expect(await store.getFeature('missing')).toBeNull();
+      });
+    });
+  });
+}
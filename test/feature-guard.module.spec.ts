@@ -0,0 +1,203 @@
+import { Inject, Injectable, Module } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Test } from '@nestjs/testing';
+import Redis from 'ioredis-mock';
+import { FeatureGuardStore } from '../src/feature-flag-cache.interface';
+import {
+  DefaultFeatureContextResolver,
+  UserFeatureContextResolver,
+} from '../src/feature-context-resolvers';
+import {
+  FEATURE_CONTEXT_RESOLVER,
+  FEATURE_EXPOSURE_LISTENER,
+  FEATURE_GUARD_OPTIONS,
+  FEATURE_GUARD_REFLECTOR,
+  FEATURE_GUARD_STORE,
+  FeatureFlagDeniedBehavior,
+} from '../src/feature-flag.constants';
+import { FeatureGuard } from '../src/feature-guard';
+import { FeatureGuardModule } from '../src/feature-guard.module';
+import { RedisFeatureFlagCache } from '../src/redis-feature-flag-cache';
+
+describe('FeatureGuardModule', () => {
+  let store: FeatureGuardStore;
+
+  beforeEach(() => {
+    store = new RedisFeatureFlagCache(new Redis());
+  });
+
+  describe('forRoot', () => {
+    it('should provide the store, reflector alias and guard', async () => {
+      const moduleRef = await Test.createTestingModule({
+        imports: [FeatureGuardModule.forRoot({ store })],
+      }).compile();
+
+      expect(moduleRef.get(FEATURE_GUARD_STORE)).toBe(store);
+      expect(moduleRef.get(FEATURE_GUARD_REFLECTOR)).toBe(moduleRef.get(Reflector));
+      expect(moduleRef.get(FeatureGuard)).toBeInstanceOf(FeatureGuard);
+      expect(moduleRef.get(FEATURE_GUARD_OPTIONS)).toEqual({ store });
+    });
+
+    it('should not be global by default', () => {
+      expect(FeatureGuardModule.forRoot({ store }).global).toBe(false);
+    });
+
+    it('should be global when isGlobal is set', () => {
+      expect(FeatureGuardModule.forRoot({ store, isGlobal: true }).global).toBe(true);
+    });
+
+    it('should make the store available to other modules when global', async () => {
+      @Injectable()
+      class ConsumerService {
+        constructor(@Inject(FEATURE_GUARD_STORE) readonly store: FeatureGuardStore) {}
+      }
+
+      @Module({ providers: [ConsumerService] })
+      class ConsumerModule {}
+
+      const moduleRef = await Test.createTestingModule({
+        imports: [FeatureGuardModule.forRoot({ store, isGlobal: true }), ConsumerModule],
+      }).compile();
+
+      expect(moduleRef.get(ConsumerService).store).toBe(store);
+    });
+
+    it('should throw when store is missing', () => {
+      expect(() => FeatureGuardModule.forRoot({} as any)).toThrow(/"store" implementing/);
+    });
+
+    it('should throw when store does not implement FeatureGuardStore', () => {
+      expect(() =>
+        FeatureGuardModule.forRoot({ store: { getFeature: jest.fn() } as any }),
+      ).toThrow('missing: setFeatureFlag, hasFeatureFlag');
+    });
+
+    it('should provide the default context resolver', async () => {
+      const moduleRef = await Test.createTestingModule({
+        imports: [FeatureGuardModule.forRoot({ store })],
+      }).compile();
+
+      expect(moduleRef.get(FEATURE_CONTEXT_RESOLVER)).toBeInstanceOf(DefaultFeatureContextResolver);
+    });
+
+    it('should provide the configured context resolver to the guard', async () => {
+      const contextResolver = new UserFeatureContextResolver();
+      const moduleRef = await Test.createTestingModule({
+        imports: [FeatureGuardModule.forRoot({ store, contextResolver })],
+      }).compile();
+
+      expect(moduleRef.get(FEATURE_CONTEXT_RESOLVER)).toBe(contextResolver);
+      expect((moduleRef.get(FeatureGuard) as any).contextResolver).toBe(contextResolver);
+    });
+
+    it('should throw when contextResolver does not implement resolve', () => {
+      expect(() => FeatureGuardModule.forRoot({ store, contextResolver: {} as any })).toThrow(
+        /"contextResolver" must implement/,
+      );
+    });
+
+    it('should provide the configured exposure listener to the guard', async () => {
+      const exposureListener = { onExposure: jest.fn() };
+      const moduleRef = await Test.createTestingModule({
+        imports: [FeatureGuardModule.forRoot({ store, exposureListener })],
+      }).compile();
+
+      expect(moduleRef.get(FEATURE_EXPOSURE_LISTENER)).toBe(exposureListener);
+      expect((moduleRef.get(FeatureGuard) as any).exposureListener).toBe(exposureListener);
+    });
+
+    it('should provide no exposure listener by default', async () => {
+      const moduleRef = await Test.createTestingModule({
+        imports: [FeatureGuardModule.forRoot({ store })],
+      }).compile();
+
+      expect(moduleRef.get(FEATURE_EXPOSURE_LISTENER)).toBeNull();
+    });
+
+    it('should throw when exposureListener does not implement onExposure', () => {
+      expect(() => FeatureGuardModule.forRoot({ store, exposureListener: {} as any })).toThrow(
+        /"exposureListener" must implement/,
+      );
+    });
+
+    it('should pass module options to the guard', async () => {
+      const moduleRef = await Test.createTestingModule({
+        imports: [
+          FeatureGuardModule.forRoot({ store, onDenied: FeatureFlagDeniedBehavior.NOT_FOUND }),
+        ],
+      }).compile();
+
+      expect((moduleRef.get(FeatureGuard) as any).moduleOptions.onDenied).toBe(
+        FeatureFlagDeniedBehavior.NOT_FOUND,
+      );
+    });
+
+    it.each([
+      [FeatureFlagDeniedBehavior.EXCEPTION],
+      [{ redirect: '/home' }],
+      [() => undefined],
+    ])('should accept onDenied %p', (onDenied) => {
+      expect(() => FeatureGuardModule.forRoot({ store, onDenied })).not.toThrow();
+    });
+
+    it.each([['REDIRECT'], [{ url: '/home' }], [42]])('should reject onDenied %p', (onDenied) => {
+      expect(() => FeatureGuardModule.forRoot({ store, onDenied: onDenied as any })).toThrow(
+        /"onDenied" must be/,
+      );
+    });
+  });
+
+  describe('forRootAsync', () => {
+    const STORE_FACTORY = 'STORE_FACTORY';
+
+    @Module({
+      providers: [{ provide: STORE_FACTORY, useValue: () => store }],
+      exports: [STORE_FACTORY],
+    })
+    class StoreFactoryModule {}
+
+    it('should resolve options from injected providers', async () => {
+      const moduleRef = await Test.createTestingModule({
+        imports: [
+          FeatureGuardModule.forRootAsync({
+            imports: [StoreFactoryModule],
+            inject: [STORE_FACTORY],
+            useFactory: (createStore: () => FeatureGuardStore) => ({ store: createStore() }),
+          }),
+        ],
+      }).compile();
+
+      expect(moduleRef.get(FEATURE_GUARD_STORE)).toBe(store);
+      expect(moduleRef.get(FeatureGuard)).toBeInstanceOf(FeatureGuard);
+    });
+
+    it('should support async factories', async () => {
+      const moduleRef = await Test.createTestingModule({
+        imports: [FeatureGuardModule.forRootAsync({ useFactory: async () => ({ store }) })],
+      }).compile();
+
+      expect(moduleRef.get(FEATURE_GUARD_STORE)).toBe(store);
+    });
+
+    it('should be global when isGlobal is set', () => {
+      const dynamicModule = FeatureGuardModule.forRootAsync({
+        useFactory: () => ({ store }),
+        isGlobal: true,
+      });
+
+      expect(dynamicModule.global).toBe(true);
+    });
+
+    it('should throw when useFactory is missing', () => {
+      expect(() => FeatureGuardModule.forRootAsync({} as any)).toThrow(/useFactory/);
+    });
+
+    it('should fail at bootstrap when resolved options are invalid', async () => {
+      await expect(
+        Test.createTestingModule({
+          imports: [FeatureGuardModule.forRootAsync({ useFactory: () => ({ store: null as any }) })],
+        }).compile(),
+      ).rejects.toThrow(/"store" implementing/);
+    });
+  });
+});
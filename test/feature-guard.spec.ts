@@ -1,12 +1,23 @@
-import { ExecutionContext } from '@nestjs/common';
+import { ExecutionContext, HttpException, NotFoundException } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
+import { ExecutionContextHost } from '@nestjs/core/helpers/execution-context-host';
+import { RpcException } from '@nestjs/microservices';
+import { WsException } from '@nestjs/websockets';
 import { FeatureGuardStore } from '../src/feature-flag-cache.interface';
 import {
   FEATURE_FLAG_KEY,
   FEATURE_FLAG_OPTIONS_KEY,
+  FeatureFlagDeniedBehavior,
+  FeatureFlagMergeStrategy,
   FeatureFlagScope,
 } from '../src/feature-flag.constants';
-import { FeatureGuard } from '../src/feature-guard';
+import {
+  FeatureDisabledException,
+  FeatureRedirectException,
+  FeatureUserMissingException,
+} from '../src/feature-flag.exceptions';
+import { FeatureFlagExpressionError } from '../src/feature-flag.expression';
+import { FeatureFlag, FeatureGuard, FeatureGuardRequest } from '../src/feature-guard';
 
 describe('FeatureGuard', () => {
   let guard: FeatureGuard;
@@ -29,6 +40,7 @@ describe('FeatureGuard', () => {
 
     // Mock context
     context = {
+      getType: jest.fn().mockReturnValue('http'),
       switchToHttp: jest.fn().mockReturnValue({
         getRequest: jest.fn().mockReturnValue({
           __user_id: 'test-user',
@@ -37,6 +49,7 @@ describe('FeatureGuard', () => {
         }),
       }),
       getHandler: jest.fn(),
+      getClass: jest.fn(),
     } as unknown as ExecutionContext;
   });
 
@@ -249,6 +262,85 @@ describe('FeatureGuard', () => {
       expect(request.__feature_flags[flag]).toBe(false);
     });
 
+    it('should allow access in any mode when at least one flag is enabled', async () => {
+      reflector.get.mockImplementation((metadataKey: unknown) => {
+        if (metadataKey === FEATURE_FLAG_KEY) return ['feature1', 'feature2'];
+        if (metadataKey === FEATURE_FLAG_OPTIONS_KEY) return { mode: 'any' };
+        return undefined;
+      });
+
+      cache.getFeature.mockResolvedValue({ enabled: true });
+      cache.hasFeatureFlag.mockImplementation(async (flag: string) => flag === 'feature2');
+
+      const result = await guard.canActivate(context);
+      expect(result).toBe(true);
+    });
+
+    it('should deny access in any mode when no flag is enabled', async () => {
+      reflector.get.mockImplementation((metadataKey: unknown) => {
+        if (metadataKey === FEATURE_FLAG_KEY) return ['feature1', 'feature2'];
+        if (metadataKey === FEATURE_FLAG_OPTIONS_KEY) return { mode: 'any' };
+        return undefined;
+      });
+
+      cache.getFeature.mockResolvedValue({ enabled: false });
+      cache.hasFeatureFlag.mockResolvedValue(true);
+
+      const result = await guard.canActivate(context);
+      expect(result).toBe(false);
+    });
+
+    it('should allow access while a none flag is off', async () => {
+      const request = { __user_id: 'test-user', __is_admin: false, __feature_flags: {} };
+      (context.switchToHttp().getRequest as jest.Mock).mockReturnValue(request);
+      reflector.get.mockImplementation((metadataKey: unknown) => {
+        if (metadataKey === FEATURE_FLAG_KEY) return [];
+        if (metadataKey === FEATURE_FLAG_OPTIONS_KEY) return { none: ['legacy_checkout'] };
+        return undefined;
+      });
+
+      cache.getFeature.mockResolvedValue({ enabled: false });
+      cache.hasFeatureFlag.mockResolvedValue(false);
+
+      const result = await guard.canActivate(context);
+      expect(result).toBe(true);
+      expect(request.__feature_flags).toEqual({ legacy_checkout: false });
+    });
+
+    it('should deny access when a none flag is on', async () => {
+      const request = { __user_id: 'test-user', __is_admin: false, __feature_flags: {} };
+      (context.switchToHttp().getRequest as jest.Mock).mockReturnValue(request);
+      reflector.get.mockImplementation((metadataKey: unknown) => {
+        if (metadataKey === FEATURE_FLAG_KEY) return ['new_ui'];
+        if (metadataKey === FEATURE_FLAG_OPTIONS_KEY) return { none: ['legacy_checkout'] };
+        return undefined;
+      });
+
+      cache.getFeature.mockResolvedValue({ enabled: true });
+      cache.hasFeatureFlag.mockResolvedValue(true);
+
+      const result = await guard.canActivate(context);
+      expect(result).toBe(false);
+      // Per-flag states are reported as-is, not negated
+      expect(request.__feature_flags).toEqual({ new_ui: true, legacy_checkout: true });
+    });
+
+    it('should not block on none flags in SERVICE scope', async () => {
+      reflector.get.mockImplementation((metadataKey: unknown) => {
+        if (metadataKey === FEATURE_FLAG_KEY) return [];
+        if (metadataKey === FEATURE_FLAG_OPTIONS_KEY) {
+          return { none: ['legacy_checkout'], scope: FeatureFlagScope.SERVICE };
+        }
+        return undefined;
+      });
+
+      cache.getFeature.mockResolvedValue({ enabled: true });
+      cache.hasFeatureFlag.mockResolvedValue(true);
+
+      const result = await guard.canActivate(context);
+      expect(result).toBe(true);
+    });
+
     // Additional edge case tests
     it('should handle when feature is null', async () => {
       const flag = 'test_feature';
@@ -284,7 +376,7 @@ describe('FeatureGuard', () => {
       const result = await guard.canActivate(context);
       expect(result).toBe(false);
       // With our updated logic, hasFeatureFlag is called with null userId
-      expect(cache.hasFeatureFlag).toHaveBeenCalledWith(flag, null);
+      expect(cache.hasFeatureFlag).toHaveBeenCalledWith(flag, null, undefined, undefined);
     });
 
     it('should preserve existing feature flags on request', async () => {
@@ -354,6 +446,766 @@ describe('FeatureGuard', () => {
     });
   });
 
+  describe('context resolver', () => {
+    beforeEach(() => {
+      reflector.get.mockImplementation((metadataKey: unknown) => {
+        if (metadataKey === FEATURE_FLAG_KEY) return ['test_feature'];
+        return undefined;
+      });
+      cache.getFeature.mockResolvedValue({ enabled: true });
+      cache.hasFeatureFlag.mockResolvedValue(true);
+    });
+
+    it('should use the identity returned by a custom resolver', async () => {
+      const resolver = { resolve: jest.fn().mockResolvedValue({ userId: 'resolved-user' }) };
+      guard = new FeatureGuard(cache, reflector, undefined, resolver);
+
+      const result = await guard.canActivate(context);
+      expect(result).toBe(true);
+      expect(resolver.resolve).toHaveBeenCalledWith(context);
+      expect(cache.hasFeatureFlag).toHaveBeenCalledWith(
+        'test_feature',
+        'resolved-user',
+        undefined,
+        undefined,
+      );
+    });
+
+    it('should pass the resolved attributes to the store', async () => {
+      const attributes = { plan: 'pro', country: 'NG' };
+      guard = new FeatureGuard(cache, reflector, undefined, {
+        resolve: () => ({ userId: 'resolved-user', attributes }),
+      });
+
+      await guard.canActivate(context);
+      expect(cache.hasFeatureFlag).toHaveBeenCalledWith(
+        'test_feature',
+        'resolved-user',
+        attributes,
+        undefined,
+      );
+    });
+
+    it('should pass the resolved tenant to the store', async () => {
+      guard = new FeatureGuard(cache, reflector, undefined, {
+        resolve: () => ({ userId: 'resolved-user', tenantId: 'acme' }),
+      });
+
+      await guard.canActivate(context);
+      expect(cache.hasFeatureFlag).toHaveBeenCalledWith(
+        'test_feature',
+        'resolved-user',
+        undefined,
+        'acme',
+      );
+    });
+
+    it('should grant admin access from a custom resolver', async () => {
+      guard = new FeatureGuard(cache, reflector, undefined, {
+        resolve: () => ({ isAdmin: true }),
+      });
+
+      const result = await guard.canActivate(context);
+      expect(result).toBe(true);
+      expect(cache.getFeature).not.toHaveBeenCalled();
+    });
+
+    it('should deny when a custom resolver finds no identity', async () => {
+      guard = new FeatureGuard(cache, reflector, undefined, { resolve: () => ({}) });
+
+      const result = await guard.canActivate(context);
+      expect(result).toBe(false);
+    });
+
+    it('should still write flag states onto the request', async () => {
+      const request = { __feature_flags: {} };
+      (context.switchToHttp().getRequest as jest.Mock).mockReturnValue(request);
+      guard = new FeatureGuard(cache, reflector, undefined, {
+        resolve: () => ({ userId: 'resolved-user' }),
+      });
+
+      await guard.canActivate(context);
+      expect(request.__feature_flags).toEqual({ test_feature: true });
+    });
+  });
+
+  describe('onDenied', () => {
+    const mockMetadata = (flags: string[], options?: object) =>
+      reflector.get.mockImplementation((metadataKey: unknown) => {
+        if (metadataKey === FEATURE_FLAG_KEY) return flags;
+        if (metadataKey === FEATURE_FLAG_OPTIONS_KEY) return options;
+        return undefined;
+      });
+
+    const mockRequest = (request: object) =>
+      (context.switchToHttp().getRequest as jest.Mock).mockReturnValue(request);
+
+    beforeEach(() => {
+      cache.getFeature.mockResolvedValue({ enabled: true });
+      cache.hasFeatureFlag.mockImplementation(async (flag: string) => flag === 'feature1');
+    });
+
+    it('should return false by default', async () => {
+      mockMetadata(['feature1', 'feature2']);
+
+      await expect(guard.canActivate(context)).resolves.toBe(false);
+    });
+
+    it('should mask the route with NOT_FOUND', async () => {
+      mockMetadata(['feature2'], { onDenied: FeatureFlagDeniedBehavior.NOT_FOUND });
+
+      await expect(guard.canActivate(context)).rejects.toThrow(NotFoundException);
+    });
+
+    it('should mask the route with NOT_FOUND when the user is not identified', async () => {
+      mockRequest({ __user_id: undefined, __is_admin: false });
+      mockMetadata(['feature2'], { onDenied: FeatureFlagDeniedBehavior.NOT_FOUND });
+
+      await expect(guard.canActivate(context)).rejects.toThrow(NotFoundException);
+    });
+
+    it('should throw FeatureDisabledException carrying the failing flags with EXCEPTION', async () => {
+      mockMetadata(['feature1', 'feature2', 'feature3'], {
+        onDenied: FeatureFlagDeniedBehavior.EXCEPTION,
+      });
+
+      const error = await guard.canActivate(context).catch((e) => e);
+      expect(error).toBeInstanceOf(FeatureDisabledException);
+      expect(error.flags).toEqual(['feature2', 'feature3']);
+      expect(error.getStatus()).toBe(403);
+      expect(error.getResponse()).toMatchObject({
+        message: 'Features "feature2", "feature3" are not enabled',
+        flags: ['feature2', 'feature3'],
+      });
+    });
+
+    it('should report enabled none flags as failing', async () => {
+      mockMetadata([], { none: ['feature1'], onDenied: FeatureFlagDeniedBehavior.EXCEPTION });
+
+      const error = await guard.canActivate(context).catch((e) => e);
+      expect(error).toBeInstanceOf(FeatureDisabledException);
+      expect(error.flags).toEqual(['feature1']);
+      expect(error.kind).toBe('excluded');
+      expect(error.message).toBe('Not available while feature "feature1" is enabled');
+    });
+
+    it('should use a neutral message when several kinds of requirements fail', async () => {
+      mockMetadata(['feature2'], {
+        none: ['feature1'],
+        onDenied: FeatureFlagDeniedBehavior.EXCEPTION,
+      });
+
+      const error = await guard.canActivate(context).catch((e) => e);
+      expect(error.flags).toEqual(['feature2', 'feature1']);
+      expect(error.kind).toBeUndefined();
+      expect(error.message).toBe('Feature requirements not met');
+    });
+
+    it('should word the message after the failed requirement', () => {
+      expect(new FeatureDisabledException(['checkout'], 'variant').message).toBe(
+        'Feature "checkout" is not enabled with the required variant',
+      );
+      expect(new FeatureDisabledException(['new_ui', 'beta'], 'expression').message).toBe(
+        'Feature flag expression on "new_ui", "beta" is not satisfied',
+      );
+      expect(new FeatureDisabledException(['a', 'b'], 'excluded').message).toBe(
+        'Not available while features "a", "b" are enabled',
+      );
+    });
+
+    it('should throw FeatureUserMissingException when the user is not identified', async () => {
+      mockRequest({ __user_id: undefined, __is_admin: false });
+      mockMetadata(['feature1'], { onDenied: FeatureFlagDeniedBehavior.EXCEPTION });
+
+      const error = await guard.canActivate(context).catch((e) => e);
+      expect(error).toBeInstanceOf(FeatureUserMissingException);
+      expect(error.getStatus()).toBe(401);
+      expect(cache.getFeature).not.toHaveBeenCalled();
+    });
+
+    it('should redirect by setting the Location header', async () => {
+      const response = { header: jest.fn() };
+      (context.switchToHttp() as any).getResponse = jest.fn().mockReturnValue(response);
+      mockMetadata(['feature2'], { onDenied: { redirect: '/stable', statusCode: 307 } });
+
+      const error = await guard.canActivate(context).catch((e) => e);
+      expect(error).toBeInstanceOf(FeatureRedirectException);
+      expect(error.getStatus()).toBe(307);
+      expect(error.url).toBe('/stable');
+      expect(response.header).toHaveBeenCalledWith('Location', '/stable');
+    });
+
+    it('should redirect with 302 by default', async () => {
+      const response = { setHeader: jest.fn() };
+      (context.switchToHttp() as any).getResponse = jest.fn().mockReturnValue(response);
+      mockMetadata(['feature2'], { onDenied: { redirect: '/stable' } });
+
+      const error = await guard.canActivate(context).catch((e) => e);
+      expect(error.getStatus()).toBe(302);
+      expect(response.setHeader).toHaveBeenCalledWith('Location', '/stable');
+    });
+
+    it('should throw the error returned by a custom handler', async () => {
+      const onDenied = jest.fn().mockReturnValue(new HttpException('Upgrade required', 402));
+      mockMetadata(['feature2'], { onDenied });
+
+      await expect(guard.canActivate(context)).rejects.toThrow('Upgrade required');
+      expect(onDenied).toHaveBeenCalledWith({
+        reason: 'disabled',
+        flags: ['feature2'],
+        kind: 'required',
+        context,
+      });
+    });
+
+    it('should return false when a custom handler returns nothing', async () => {
+      const onDenied = jest.fn();
+      mockRequest({ __user_id: undefined, __is_admin: false });
+      mockMetadata(['feature2'], { onDenied });
+
+      await expect(guard.canActivate(context)).resolves.toBe(false);
+      expect(onDenied).toHaveBeenCalledWith({
+        reason: 'unidentified',
+        flags: ['feature2'],
+        context,
+      });
+    });
+
+    it('should apply the denial behavior to a route without flags', async () => {
+      const onDenied = jest.fn().mockReturnValue(new HttpException('Upgrade required', 402));
+      mockMetadata([], { onDenied });
+
+      await expect(guard.canActivate(context)).rejects.toThrow('Upgrade required');
+      expect(onDenied).toHaveBeenCalledWith({ reason: 'disabled', flags: [], context });
+    });
+
+    it('should use the module-level default', async () => {
+      guard = new FeatureGuard(cache, reflector, {
+        onDenied: FeatureFlagDeniedBehavior.NOT_FOUND,
+      });
+      mockMetadata(['feature2']);
+
+      await expect(guard.canActivate(context)).rejects.toThrow(NotFoundException);
+    });
+
+    it('should let the route option override the module-level default', async () => {
+      guard = new FeatureGuard(cache, reflector, {
+        onDenied: FeatureFlagDeniedBehavior.NOT_FOUND,
+      });
+      mockMetadata(['feature2'], { onDenied: FeatureFlagDeniedBehavior.FORBIDDEN });
+
+      await expect(guard.canActivate(context)).resolves.toBe(false);
+    });
+
+    it('should not apply the denial behavior in SERVICE scope', async () => {
+      mockMetadata(['feature2'], {
+        scope: FeatureFlagScope.SERVICE,
+        onDenied: FeatureFlagDeniedBehavior.NOT_FOUND,
+      });
+
+      await expect(guard.canActivate(context)).resolves.toBe(true);
+    });
+  });
+
+  describe('controller-level metadata', () => {
+    @FeatureFlag('beta_access')
+    class BetaController {
+      dashboard() {}
+
+      @FeatureFlag('beta_reports')
+      reports() {}
+
+      @FeatureFlag('beta_access')
+      duplicate() {}
+
+      @FeatureFlag('status_page', { mergeStrategy: FeatureFlagMergeStrategy.OVERRIDE })
+      status() {}
+
+      @FeatureFlag('beta_search', { scope: FeatureFlagScope.SERVICE })
+      search() {}
+    }
+
+    @FeatureFlag('legacy', { mergeStrategy: FeatureFlagMergeStrategy.OVERRIDE })
+    class LegacyController {
+      list() {}
+
+      @FeatureFlag('legacy_export')
+      export() {}
+    }
+
+    let request: Record<string, any>;
+
+    const createContext = (controller: Function, handler: Function): ExecutionContext =>
+      ({
+        getType: () => 'http',
+        switchToHttp: () => ({ getRequest: () => request }),
+        getHandler: () => handler,
+        getClass: () => controller,
+      } as unknown as ExecutionContext);
+
+    beforeEach(() => {
+      guard = new FeatureGuard(cache, new Reflector());
+      request = { __user_id: 'test-user', __is_admin: false, __feature_flags: {} };
+      cache.getFeature.mockResolvedValue({ enabled: true });
+    });
+
+    it('should apply controller flags to undecorated handlers', async () => {
+      cache.hasFeatureFlag.mockResolvedValue(true);
+
+      const result = await guard.canActivate(
+        createContext(BetaController, BetaController.prototype.dashboard),
+      );
+      expect(result).toBe(true);
+      expect(cache.hasFeatureFlag).toHaveBeenCalledWith(
+        'beta_access',
+        'test-user',
+        undefined,
+        undefined,
+      );
+    });
+
+    it('should deny undecorated handlers when the controller flag is off', async () => {
+      cache.hasFeatureFlag.mockResolvedValue(false);
+
+      const result = await guard.canActivate(
+        createContext(BetaController, BetaController.prototype.dashboard),
+      );
+      expect(result).toBe(false);
+    });
+
+    it('should require both controller and handler flags by default', async () => {
+      cache.hasFeatureFlag.mockImplementation(async (flag: string) => flag === 'beta_reports');
+
+      const result = await guard.canActivate(
+        createContext(BetaController, BetaController.prototype.reports),
+      );
+      expect(result).toBe(false);
+      expect(request.__feature_flags).toEqual({ beta_access: false, beta_reports: true });
+    });
+
+    it('should evaluate a flag declared on both levels once', async () => {
+      cache.hasFeatureFlag.mockResolvedValue(true);
+
+      await guard.canActivate(createContext(BetaController, BetaController.prototype.duplicate));
+      expect(cache.getFeature).toHaveBeenCalledTimes(1);
+    });
+
+    it('should use only handler flags with OVERRIDE strategy on the handler', async () => {
+      cache.hasFeatureFlag.mockImplementation(async (flag: string) => flag === 'status_page');
+
+      const result = await guard.canActivate(
+        createContext(BetaController, BetaController.prototype.status),
+      );
+      expect(result).toBe(true);
+      expect(cache.getFeature).not.toHaveBeenCalledWith('beta_access');
+    });
+
+    it('should use handler flags with OVERRIDE strategy on the controller', async () => {
+      cache.hasFeatureFlag.mockImplementation(async (flag: string) => flag === 'legacy_export');
+
+      expect(
+        await guard.canActivate(createContext(LegacyController, LegacyController.prototype.export)),
+      ).toBe(true);
+      expect(
+        await guard.canActivate(createContext(LegacyController, LegacyController.prototype.list)),
+      ).toBe(false);
+    });
+
+    it('should combine none flags from both levels when merging', async () => {
+      @FeatureFlag([], { none: ['maintenance'] })
+      class CheckoutController {
+        @FeatureFlag([], { none: ['new_checkout'] })
+        legacy() {}
+      }
+
+      cache.hasFeatureFlag.mockImplementation(async (flag: string) => flag === 'maintenance');
+
+      const result = await guard.canActivate(
+        createContext(CheckoutController, CheckoutController.prototype.legacy),
+      );
+      expect(result).toBe(false);
+      expect(request.__feature_flags).toEqual({ maintenance: true, new_checkout: false });
+    });
+
+    it('should evaluate expressions declared with FeatureFlag.when', async () => {
+      @FeatureFlag.when('new_ui && (beta_users || !region_eu_block)')
+      class CheckoutController {
+        checkout() {}
+      }
+
+      cache.hasFeatureFlag.mockImplementation(async (flag: string) => flag !== 'beta_users');
+
+      const result = await guard.canActivate(
+        createContext(CheckoutController, CheckoutController.prototype.checkout),
+      );
+      expect(result).toBe(false);
+      expect(request.__feature_flags).toEqual({
+        new_ui: true,
+        beta_users: false,
+        region_eu_block: true,
+      });
+    });
+
+    it('should require controller flags and handler expressions when merging', async () => {
+      @FeatureFlag('beta_access')
+      class ReportsController {
+        @FeatureFlag.when('reports_v2 || !reports_v1')
+        list() {}
+      }
+
+      cache.hasFeatureFlag.mockImplementation(async (flag: string) => flag === 'reports_v2');
+
+      expect(
+        await guard.canActivate(createContext(ReportsController, ReportsController.prototype.list)),
+      ).toBe(false);
+
+      request = { ...request, __feature_flags: {} };
+      cache.hasFeatureFlag.mockImplementation(async (flag: string) => flag !== 'reports_v1');
+
+      expect(
+        await guard.canActivate(createContext(ReportsController, ReportsController.prototype.list)),
+      ).toBe(true);
+      expect(cache.getFeature).toHaveBeenCalledWith('reports_v1');
+    });
+
+    it('should not block on expressions in SERVICE scope', async () => {
+      @FeatureFlag.when('a && b', { scope: FeatureFlagScope.SERVICE })
+      class ServiceController {
+        list() {}
+      }
+
+      cache.hasFeatureFlag.mockResolvedValue(false);
+
+      const result = await guard.canActivate(
+        createContext(ServiceController, ServiceController.prototype.list),
+      );
+      expect(result).toBe(true);
+      expect(request.__feature_flags).toEqual({ a: false, b: false });
+    });
+
+    it('should throw when the expression is invalid at decoration time', () => {
+      expect(() => FeatureFlag.when('new_ui &&')).toThrow(FeatureFlagExpressionError);
+    });
+
+    it('should keep the controller gate when the handler uses SERVICE scope', async () => {
+      cache.hasFeatureFlag.mockImplementation(async (flag: string) => flag === 'beta_access');
+
+      expect(
+        await guard.canActivate(createContext(BetaController, BetaController.prototype.search)),
+      ).toBe(true);
+      expect(request.__feature_flags).toEqual({ beta_access: true, beta_search: false });
+
+      request = { ...request, __feature_flags: {} };
+      cache.hasFeatureFlag.mockResolvedValue(false);
+
+      expect(
+        await guard.canActivate(createContext(BetaController, BetaController.prototype.search)),
+      ).toBe(false);
+    });
+
+    it('should keep the handler gate when the controller uses SERVICE scope', async () => {
+      @FeatureFlag('analytics', { scope: FeatureFlagScope.SERVICE })
+      class ReportsController {
+        @FeatureFlag('reports_v2')
+        list() {}
+      }
+
+      cache.hasFeatureFlag.mockImplementation(async (flag: string) => flag === 'analytics');
+
+      const result = await guard.canActivate(
+        createContext(ReportsController, ReportsController.prototype.list),
+      );
+      expect(result).toBe(false);
+    });
+
+    it('should only apply the handler mode to the handler flags', async () => {
+      @FeatureFlag('beta_access')
+      class ReportsController {
+        @FeatureFlag(['reports_v1', 'reports_v2'], { mode: 'any' })
+        list() {}
+      }
+
+      cache.hasFeatureFlag.mockImplementation(async (flag: string) => flag === 'reports_v2');
+
+      expect(
+        await guard.canActivate(createContext(ReportsController, ReportsController.prototype.list)),
+      ).toBe(false);
+
+      request = { ...request, __feature_flags: {} };
+      cache.hasFeatureFlag.mockImplementation(async (flag: string) => flag !== 'reports_v1');
+
+      expect(
+        await guard.canActivate(createContext(ReportsController, ReportsController.prototype.list)),
+      ).toBe(true);
+    });
+
+    it('should evaluate the flags once when the guard runs for both levels', async () => {
+      cache.hasFeatureFlag.mockResolvedValue(true);
+      const context = createContext(BetaController, BetaController.prototype.reports);
+
+      // Nest runs the controller and handler guards with the same execution context
+      expect(await guard.canActivate(context)).toBe(true);
+      expect(await guard.canActivate(context)).toBe(true);
+      expect(cache.hasFeatureFlag).toHaveBeenCalledTimes(2);
+    });
+
+    it('should evaluate the flags once when a global guard also runs', async () => {
+      cache.hasFeatureFlag.mockResolvedValue(true);
+      const globalGuard = new FeatureGuard(cache, new Reflector());
+
+      expect(
+        await globalGuard.canActivate(
+          createContext(BetaController, BetaController.prototype.reports),
+        ),
+      ).toBe(true);
+      expect(
+        await guard.canActivate(createContext(BetaController, BetaController.prototype.reports)),
+      ).toBe(true);
+      expect(cache.hasFeatureFlag).toHaveBeenCalledTimes(2);
+    });
+
+    it('should evaluate the flags again for another request', async () => {
+      cache.hasFeatureFlag.mockResolvedValue(true);
+      const context = createContext(BetaController, BetaController.prototype.reports);
+
+      await guard.canActivate(context);
+      request = { ...request, __feature_flags: {} };
+      await guard.canActivate(context);
+
+      expect(cache.hasFeatureFlag).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe('variants', () => {
+    const variantA = { name: 'A', weight: 50, payload: { price: 9 } };
+    const variantB = { name: 'B', weight: 50, payload: { price: 12 } };
+    let request: FeatureGuardRequest;
+
+    const mockMetadata = (flags: string[], options?: object) =>
+      reflector.get.mockImplementation((metadataKey: unknown) => {
+        if (metadataKey === FEATURE_FLAG_KEY) return flags;
+        if (metadataKey === FEATURE_FLAG_OPTIONS_KEY) return options;
+        return undefined;
+      });
+
+    beforeEach(() => {
+      request = { __user_id: 'test-user', __feature_flags: {} };
+      (context.switchToHttp().getRequest as jest.Mock).mockReturnValue(request);
+      cache.getFeature.mockResolvedValue({ enabled: true, variants: [variantA, variantB] });
+      cache.hasFeatureFlag.mockResolvedValue(true);
+      cache.getFeatureVariant = jest.fn().mockResolvedValue(variantB);
+    });
+
+    it('should write assigned variants onto the request', async () => {
+      mockMetadata(['checkout']);
+
+      await guard.canActivate(context);
+      expect(cache.getFeatureVariant).toHaveBeenCalledWith(
+        'checkout',
+        'test-user',
+        undefined,
+        undefined,
+      );
+      expect(request.__feature_variants).toEqual({ checkout: variantB });
+      expect(FeatureGuard.getFeatureVariant(request, 'checkout')?.payload).toEqual({ price: 12 });
+    });
+
+    it('should grant access to users assigned the required variant', async () => {
+      mockMetadata(['checkout'], { variant: 'B' });
+
+      await expect(guard.canActivate(context)).resolves.toBe(true);
+    });
+
+    it('should deny users assigned another variant', async () => {
+      mockMetadata(['checkout'], {
+        variant: 'A',
+        onDenied: FeatureFlagDeniedBehavior.EXCEPTION,
+      });
+
+      await expect(guard.canActivate(context)).rejects.toMatchObject({ flags: ['checkout'] });
+      expect(request.__feature_flags).toEqual({ checkout: true });
+    });
+
+    it('should only apply the variant to the flags of the declaring decorator', async () => {
+      @FeatureFlag('beta_access')
+      class CheckoutController {
+        @FeatureFlag('checkout', { variant: 'B' })
+        pay() {}
+      }
+
+      guard = new FeatureGuard(cache, new Reflector());
+      (context.getClass as jest.Mock).mockReturnValue(CheckoutController);
+      (context.getHandler as jest.Mock).mockReturnValue(CheckoutController.prototype.pay);
+      cache.getFeature.mockImplementation(async (flag: string) =>
+        flag === 'checkout' ? { enabled: true, variants: [variantA, variantB] } : { enabled: true },
+      );
+
+      await expect(guard.canActivate(context)).resolves.toBe(true);
+      expect(request.__feature_variants).toEqual({ checkout: variantB });
+    });
+
+    it('should deny variant routes for flags without variants', async () => {
+      mockMetadata(['checkout'], { variant: 'B' });
+      cache.getFeature.mockResolvedValue({ enabled: true });
+
+      await expect(guard.canActivate(context)).resolves.toBe(false);
+      expect(cache.getFeatureVariant).not.toHaveBeenCalled();
+      expect(request.__feature_variants).toBeUndefined();
+    });
+
+    it('should not resolve variants for users without access', async () => {
+      mockMetadata(['checkout'], { scope: FeatureFlagScope.SERVICE });
+      cache.hasFeatureFlag.mockResolvedValue(false);
+
+      await expect(guard.canActivate(context)).resolves.toBe(true);
+      expect(cache.getFeatureVariant).not.toHaveBeenCalled();
+    });
+
+    it('should ignore variants when the store does not resolve them', async () => {
+      mockMetadata(['checkout']);
+      delete cache.getFeatureVariant;
+
+      await expect(guard.canActivate(context)).resolves.toBe(true);
+      expect(request.__feature_variants).toBeUndefined();
+    });
+  });
+
+  describe('batch evaluation', () => {
+    const variantB = { name: 'B', weight: 50, payload: { price: 12 } };
+    let request: FeatureGuardRequest;
+
+    beforeEach(() => {
+      request = { __user_id: 'test-user', __tenant_id: 'acme', __feature_flags: {} };
+      (context.switchToHttp().getRequest as jest.Mock).mockReturnValue(request);
+      reflector.get.mockImplementation((metadataKey: unknown) => {
+        if (metadataKey === FEATURE_FLAG_KEY) return ['checkout', 'beta'];
+        return undefined;
+      });
+      cache.evaluateFlags = jest.fn().mockResolvedValue({
+        checkout: { enabled: true, variant: variantB },
+        beta: { enabled: true, variant: null },
+      });
+    });
+
+    it('should evaluate every flag in one store call when supported', async () => {
+      await expect(guard.canActivate(context)).resolves.toBe(true);
+
+      expect(cache.evaluateFlags).toHaveBeenCalledTimes(1);
+      expect(cache.evaluateFlags).toHaveBeenCalledWith(['checkout', 'beta'], {
+        userId: 'test-user',
+        attributes: undefined,
+        tenantId: 'acme',
+      });
+      expect(cache.getFeature).not.toHaveBeenCalled();
+      expect(cache.hasFeatureFlag).not.toHaveBeenCalled();
+      expect(request.__feature_flags).toEqual({ checkout: true, beta: true });
+      expect(request.__feature_variants).toEqual({ checkout: variantB });
+    });
+
+    it('should treat flags missing from the batch result as disabled', async () => {
+      (cache.evaluateFlags as jest.Mock).mockResolvedValue({
+        checkout: { enabled: true, variant: null },
+      });
+
+      await expect(guard.canActivate(context)).resolves.toBe(false);
+      expect(request.__feature_flags).toEqual({ checkout: true, beta: false });
+    });
+
+    it('should fall back to per-flag calls for stores without batch evaluation', async () => {
+      delete cache.evaluateFlags;
+      cache.getFeature.mockResolvedValue({ enabled: true });
+      cache.hasFeatureFlag.mockResolvedValue(true);
+
+      await expect(guard.canActivate(context)).resolves.toBe(true);
+      expect(cache.getFeature).toHaveBeenCalledTimes(2);
+      expect(cache.hasFeatureFlag).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('exposure listener', () => {
+    let listener: { onExposure: jest.Mock };
+    let request: FeatureGuardRequest;
+
+    const flushPromises = () => new Promise((resolve) => setImmediate(resolve));
+
+    beforeEach(() => {
+      listener = { onExposure: jest.fn() };
+      guard = new FeatureGuard(cache, reflector, undefined, undefined, listener);
+      request = { __user_id: 'test-user', __feature_flags: {} };
+      (context.switchToHttp().getRequest as jest.Mock).mockReturnValue(request);
+      (context.getClass as jest.Mock).mockReturnValue(class CheckoutController {});
+      (context.getHandler as jest.Mock).mockReturnValue(function pay() {});
+      reflector.get.mockImplementation((metadataKey: unknown) =>
+        metadataKey === FEATURE_FLAG_KEY ? ['checkout'] : undefined,
+      );
+      cache.getFeature.mockResolvedValue({ enabled: true, variants: [{ name: 'B', weight: 1 }] });
+      cache.hasFeatureFlag.mockResolvedValue(true);
+      cache.getFeatureVariant = jest.fn().mockResolvedValue({ name: 'B', weight: 1 });
+    });
+
+    it('should report evaluated flags with variant and route', async () => {
+      await guard.canActivate(context);
+      await flushPromises();
+
+      expect(listener.onExposure).toHaveBeenCalledWith({
+        flag: 'checkout',
+        userId: 'test-user',
+        enabled: true,
+        variant: 'B',
+        route: 'CheckoutController.pay',
+        timestamp: expect.any(Date),
+      });
+    });
+
+    it('should report disabled flags', async () => {
+      cache.hasFeatureFlag.mockResolvedValue(false);
+
+      await guard.canActivate(context);
+      await flushPromises();
+
+      expect(listener.onExposure).toHaveBeenCalledWith(
+        expect.objectContaining({ flag: 'checkout', enabled: false, variant: undefined }),
+      );
+    });
+
+    it('should report each flag once per request', async () => {
+      await guard.canActivate(context);
+      await guard.canActivate({ ...context });
+      await flushPromises();
+
+      expect(listener.onExposure).toHaveBeenCalledTimes(1);
+
+      (context.switchToHttp().getRequest as jest.Mock).mockReturnValue({
+        __user_id: 'test-user',
+        __feature_flags: {},
+      });
+      await guard.canActivate({ ...context });
+      await flushPromises();
+
+      expect(listener.onExposure).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not fail or delay the request when the listener fails', async () => {
+      const logger = jest.spyOn((guard as any).logger, 'error').mockImplementation();
+      listener.onExposure.mockRejectedValue(new Error('pipeline down'));
+
+      await expect(guard.canActivate(context)).resolves.toBe(true);
+      await flushPromises();
+
+      expect(logger).toHaveBeenCalledWith(expect.stringContaining('pipeline down'));
+    });
+
+    it('should not report exposures for admins or unidentified users', async () => {
+      (context.switchToHttp().getRequest as jest.Mock).mockReturnValue({ __is_admin: true });
+      await guard.canActivate(context);
+      (context.switchToHttp().getRequest as jest.Mock).mockReturnValue({});
+      await guard.canActivate(context);
+      await flushPromises();
+
+      expect(listener.onExposure).not.toHaveBeenCalled();
+    });
+  });
+
   describe('isFeatureEnabled', () => {
     it('should return true when feature flag is enabled', () => {
       const request = {
@@ -413,4 +1265,249 @@ describe('FeatureGuard', () => {
       expect(result).toBe(false);
     });
   });
+
+  describe('graphql resolvers', () => {
+    @FeatureFlag('new_checkout')
+    class CheckoutResolver {
+      checkout() {}
+
+      @FeatureFlag('loyalty_points', { scope: FeatureFlagScope.SERVICE })
+      points() {}
+    }
+
+    const createGqlContext = (gqlContext: Record<string, any>, handler: Function) => {
+      const host = new ExecutionContextHost(
+        [{}, {}, gqlContext, {}],
+        CheckoutResolver,
+        handler,
+      );
+      host.setType('graphql');
+      return host;
+    };
+
+    beforeEach(() => {
+      guard = new FeatureGuard(cache, new Reflector());
+      cache.getFeature.mockResolvedValue({ enabled: true });
+    });
+
+    it('should read the user from the request on the GraphQL context', async () => {
+      cache.hasFeatureFlag.mockResolvedValue(true);
+      const gqlContext = { req: { __user_id: 'gql-user', __is_admin: false } };
+
+      const result = await guard.canActivate(
+        createGqlContext(gqlContext, CheckoutResolver.prototype.checkout),
+      );
+      expect(result).toBe(true);
+      expect(cache.hasFeatureFlag).toHaveBeenCalledWith(
+        'new_checkout',
+        'gql-user',
+        undefined,
+        undefined,
+      );
+    });
+
+    it('should write feature flags onto the GraphQL context', async () => {
+      cache.hasFeatureFlag.mockImplementation(async (flag: string) => flag === 'new_checkout');
+      const gqlContext: Record<string, any> = { req: { __user_id: 'gql-user' } };
+
+      const result = await guard.canActivate(
+        createGqlContext(gqlContext, CheckoutResolver.prototype.points),
+      );
+      expect(result).toBe(true);
+      expect(gqlContext.__feature_flags).toEqual({ new_checkout: true, loyalty_points: false });
+      expect(gqlContext.req.__feature_flags).toBeUndefined();
+    });
+
+    it('should deny resolvers when the flag is disabled', async () => {
+      cache.hasFeatureFlag.mockResolvedValue(false);
+
+      const result = await guard.canActivate(
+        createGqlContext({ req: { __user_id: 'gql-user' } }, CheckoutResolver.prototype.checkout),
+      );
+      expect(result).toBe(false);
+    });
+
+    it('should read the request exposed as "request" by Mercurius', async () => {
+      cache.hasFeatureFlag.mockResolvedValue(true);
+
+      await guard.canActivate(
+        createGqlContext(
+          { request: { __user_id: 'fastify-user' } },
+          CheckoutResolver.prototype.checkout,
+        ),
+      );
+      expect(cache.hasFeatureFlag).toHaveBeenCalledWith(
+        'new_checkout',
+        'fastify-user',
+        undefined,
+        undefined,
+      );
+    });
+
+    it('should deny when the GraphQL context carries no request', async () => {
+      const result = await guard.canActivate(
+        createGqlContext({}, CheckoutResolver.prototype.checkout),
+      );
+      expect(result).toBe(false);
+      expect(cache.getFeature).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('websocket gateways and message handlers', () => {
+    class OrdersGateway {
+      @FeatureFlag('live_orders')
+      subscribe() {}
+
+      @FeatureFlag('live_orders', { onDenied: FeatureFlagDeniedBehavior.NOT_FOUND })
+      lookup() {}
+
+      @FeatureFlag('live_orders', { scope: FeatureFlagScope.SERVICE })
+      preview() {}
+    }
+
+    const createMessageContext = (type: 'ws' | 'rpc', args: unknown[], handler: Function) => {
+      const host = new ExecutionContextHost(args, OrdersGateway, handler);
+      host.setType(type);
+      return host;
+    };
+
+    beforeEach(() => {
+      guard = new FeatureGuard(cache, new Reflector());
+      cache.getFeature.mockResolvedValue({ enabled: true });
+    });
+
+    it('should read the user from the socket data', async () => {
+      cache.hasFeatureFlag.mockResolvedValue(true);
+      const client = { data: { __user_id: 'socket-user' } };
+
+      const result = await guard.canActivate(
+        createMessageContext('ws', [client, {}, 'subscribe'], OrdersGateway.prototype.subscribe),
+      );
+      expect(result).toBe(true);
+      expect(cache.hasFeatureFlag).toHaveBeenCalledWith(
+        'live_orders',
+        'socket-user',
+        undefined,
+        undefined,
+      );
+    });
+
+    it('should throw a WsException carrying the denied flags', async () => {
+      cache.hasFeatureFlag.mockResolvedValue(false);
+      const client = { data: { __user_id: 'socket-user' } };
+
+      const promise = guard.canActivate(
+        createMessageContext('ws', [client, {}, 'subscribe'], OrdersGateway.prototype.subscribe),
+      );
+      await expect(promise).rejects.toBeInstanceOf(WsException);
+      await expect(promise).rejects.toMatchObject({
+        error: expect.objectContaining({ statusCode: 403, flags: ['live_orders'] }),
+      });
+    });
+
+    it('should throw a WsException when the socket has no user', async () => {
+      const promise = guard.canActivate(
+        createMessageContext(
+          'ws',
+          [{ data: {} }, {}, 'subscribe'],
+          OrdersGateway.prototype.subscribe,
+        ),
+      );
+      await expect(promise).rejects.toBeInstanceOf(WsException);
+      await expect(promise).rejects.toMatchObject({
+        error: expect.objectContaining({ statusCode: 401 }),
+      });
+    });
+
+    it('should read the user from the message payload and throw an RpcException', async () => {
+      cache.hasFeatureFlag.mockResolvedValue(false);
+
+      const promise = guard.canActivate(
+        createMessageContext(
+          'rpc',
+          [{ __user_id: 'rpc-user' }, {}],
+          OrdersGateway.prototype.subscribe,
+        ),
+      );
+      await expect(promise).rejects.toBeInstanceOf(RpcException);
+      expect(cache.hasFeatureFlag).toHaveBeenCalledWith(
+        'live_orders',
+        'rpc-user',
+        undefined,
+        undefined,
+      );
+    });
+
+    it('should map the configured behavior onto the transport exception', async () => {
+      cache.hasFeatureFlag.mockResolvedValue(false);
+
+      const promise = guard.canActivate(
+        createMessageContext(
+          'rpc',
+          [{ __user_id: 'rpc-user' }, {}],
+          OrdersGateway.prototype.lookup,
+        ),
+      );
+      await expect(promise).rejects.toMatchObject({
+        error: expect.objectContaining({ statusCode: 404 }),
+      });
+    });
+
+    it('should throw errors returned by a custom handler as is', async () => {
+      cache.hasFeatureFlag.mockResolvedValue(false);
+      const error = new Error('custom');
+      guard = new FeatureGuard(cache, new Reflector(), { onDenied: () => error });
+
+      await expect(
+        guard.canActivate(
+          createMessageContext(
+          'rpc',
+          [{ __user_id: 'rpc-user' }, {}],
+          OrdersGateway.prototype.subscribe,
+        ),
+        ),
+      ).rejects.toBe(error);
+    });
+
+    it('should write feature flags onto the message payload in SERVICE scope', async () => {
+      cache.hasFeatureFlag.mockResolvedValue(false);
+      const payload: Record<string, any> = { __user_id: 'rpc-user' };
+
+      const result = await guard.canActivate(
+        createMessageContext('rpc', [payload, {}], OrdersGateway.prototype.preview),
+      );
+      expect(result).toBe(true);
+      expect(payload.__feature_flags).toEqual({ live_orders: false });
+    });
+
+    it('should not grant admin access from the message payload', async () => {
+      cache.hasFeatureFlag.mockResolvedValue(false);
+
+      await expect(
+        guard.canActivate(
+          createMessageContext(
+            'rpc',
+            [{ __user_id: 'rpc-user', __is_admin: true }, {}],
+            OrdersGateway.prototype.subscribe,
+          ),
+        ),
+      ).rejects.toBeInstanceOf(RpcException);
+    });
+
+    it('should replace the flag states sent in the message payload', async () => {
+      cache.hasFeatureFlag.mockResolvedValue(false);
+      const payload: Record<string, any> = {
+        __user_id: 'rpc-user',
+        __feature_flags: { premium: true },
+        __feature_variants: { pricing: { name: 'free', weight: 1 } },
+      };
+
+      await guard.canActivate(
+        createMessageContext('rpc', [payload, {}], OrdersGateway.prototype.preview),
+      );
+      expect(payload.__feature_flags).toEqual({ live_orders: false });
+      expect(FeatureGuard.isFeatureEnabled(payload, 'premium')).toBe(false);
+      expect(FeatureGuard.getFeatureVariant(payload, 'pricing')).toBeUndefined();
+    });
+  });
 });
@@ -0,0 +1,253 @@
+import { Logger } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CachedFeatureGuardStore } from '../src/cached-feature-guard-store';
+import { FEATURE_GUARD_STORE } from '../src/feature-flag.constants';
+import { FeatureGuardStore } from '../src/feature-flag-cache.interface';
+import { FeatureGuardModule } from '../src/feature-guard.module';
+import { FeatureFlagFileError, FileFeatureGuardStore } from '../src/file-feature-guard-store';
+
+describe('FileFeatureGuardStore', () => {
+  let dir: string;
+  let store: FileFeatureGuardStore | undefined;
+
+  const flagFile = {
+    flags: {
+      beta_dashboard: { enabled: true, userIds: ['user1'] },
+      new_editor: { enabled: true, segments: ['internal_staff'] },
+      black_friday: {
+        enabled: true,
+        enableAt: '2025-11-28T00:00:00Z',
+        disableAt: Date.parse('2025-12-01T00:00:00Z'),
+      },
+    },
+    segments: {
+      internal_staff: {
+        rules: [{ attribute: 'email', operator: 'endsWith', value: '@ourco.com' }],
+      },
+    },
+  };
+
+  const writeJson = (name: string, content: unknown) =>
+    writeFile(join(dir, name), JSON.stringify(content));
+
+  // Polls until the watched file has been reloaded
+  const waitFor = async (condition: () => Promise<boolean>) => {
+    for (let attempt = 0; attempt < 100; attempt++) {
+      if (await condition()) return;
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    throw new Error('Condition not met in time');
+  };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'feature-guard-'));
+  });
+
+  afterEach(async () => {
+    store?.unwatch();
+    store = undefined;
+    await rm(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  describe('load', () => {
+    it('should serve the flags and segments of a JSON file', async () => {
+      await writeJson('flags.json', flagFile);
+      store = new FileFeatureGuardStore(join(dir, 'flags.json'), {
+        clock: { now: () => Date.parse('2025-11-29T00:00:00Z') },
+      });
+
+      await store.load();
+
+      expect(await store.hasFeatureFlag('beta_dashboard', 'user1')).toBe(true);
+      expect(await store.hasFeatureFlag('beta_dashboard', 'user2')).toBe(false);
+      expect(await store.hasFeatureFlag('new_editor', 'user2', { email: 'jane@ourco.com' })).toBe(
+        true,
+      );
+      expect(await store.getFeature('black_friday')).toEqual({
+        enabled: true,
+        enableAt: new Date('2025-11-28T00:00:00Z'),
+        disableAt: new Date('2025-12-01T00:00:00Z'),
+      });
+      expect(await store.getSegment('internal_staff')).toEqual({
+        name: 'internal_staff',
+        ...flagFile.segments.internal_staff,
+      });
+    });
+
+    it('should serve the flags of a YAML file', async () => {
+      await writeFile(
+        join(dir, 'flags.yaml'),
+        [
+          'flags:',
+          '  pricing:',
+          '    enabled: true',
+          '    variants:',
+          '      - { name: A, weight: 1, payload: { price: 12 } }',
+          '  sso_login:',
+          '    enabled: true',
+          '    tenantIds: [acme]',
+        ].join('\n'),
+      );
+      store = new FileFeatureGuardStore(join(dir, 'flags.yaml'));
+
+      await store.load();
+
+      expect(await store.evaluateFlags(['pricing', 'sso_login'], { userId: 'user1' })).toEqual({
+        pricing: { enabled: true, variant: { name: 'A', weight: 1, payload: { price: 12 } } },
+        sso_login: { enabled: false, variant: null },
+      });
+      expect(await store.hasFeatureFlag('sso_login', 'user1', undefined, 'acme')).toBe(true);
+    });
+
+    it('should use the configured format over the file extension', async () => {
+      await writeFile(join(dir, 'flags.conf'), 'flags:\n  beta: { enabled: true }\n');
+      store = new FileFeatureGuardStore(join(dir, 'flags.conf'), { format: 'yaml' });
+
+      await store.load();
+
+      expect(await store.hasFeatureFlag('beta', 'user1')).toBe(true);
+    });
+
+    it('should report every flag as missing until the file is loaded', async () => {
+      await writeJson('flags.json', flagFile);
+      store = new FileFeatureGuardStore(join(dir, 'flags.json'));
+
+      expect(await store.getFeature('beta_dashboard')).toBeNull();
+      expect(await store.hasFeatureFlag('beta_dashboard', 'user1')).toBe(false);
+    });
+
+    it.each([
+      [{ flags: { beta: { enabled: 'yes' } } }, 'flags.beta: enabled must be a boolean'],
+      [{ flags: { beta: { enabled: true, userIDs: ['user1'] } } }, 'unknown field "userIDs"'],
+      [{ flags: { beta: { enabled: true, userIds: 'user1' } } }, 'userIds must be an array'],
+      [{ flags: { beta: { enabled: true, enableAt: 'soon' } } }, 'enableAt must be a valid Date'],
+      [{ flags: { beta: { enabled: true, rolloutPercentage: 120 } } }, 'flags.beta: rollout'],
+      [
+        { flags: { beta: { enabled: true, rules: [{ attribute: 'plan', operator: 'like' }] } } },
+        'flags.beta: Rule on "plan" has unknown operator "like"',
+      ],
+      [{ segments: { staff: { userIds: [1] } } }, 'segments.staff: Segment "staff" userIds'],
+      [{ flags: [] }, 'flags must be an object'],
+      [{ features: {} }, 'the document: unknown field "features"'],
+    ])('should reject an invalid file (%j)', async (content, message) => {
+      await writeJson('flags.json', content);
+      store = new FileFeatureGuardStore(join(dir, 'flags.json'));
+
+      await expect(store.load()).rejects.toThrow(FeatureFlagFileError);
+      await expect(store.load()).rejects.toThrow(message);
+    });
+
+    it('should reject unreadable and malformed files', async () => {
+      await writeFile(join(dir, 'flags.json'), '{ "flags": ');
+
+      await expect(new FileFeatureGuardStore(join(dir, 'flags.json')).load()).rejects.toThrow(
+        `Invalid feature flag file "${join(dir, 'flags.json')}"`,
+      );
+      await expect(new FileFeatureGuardStore(join(dir, 'missing.json')).load()).rejects.toThrow(
+        'ENOENT',
+      );
+    });
+
+    it('should keep the previous flags when the file becomes invalid', async () => {
+      await writeJson('flags.json', flagFile);
+      store = new FileFeatureGuardStore(join(dir, 'flags.json'));
+      await store.load();
+
+      await writeJson('flags.json', { flags: { beta_dashboard: { enabled: 'no' } } });
+
+      await expect(store.load()).rejects.toThrow(FeatureFlagFileError);
+      expect(await store.hasFeatureFlag('beta_dashboard', 'user1')).toBe(true);
+    });
+  });
+
+  it('should reject writes', async () => {
+    store = new FileFeatureGuardStore(join(dir, 'flags.json'));
+
+    await expect(store.setFeatureFlag({ flag: 'beta', enabled: true })).rejects.toThrow(
+      'FileFeatureGuardStore is read-only',
+    );
+  });
+
+  describe('watch', () => {
+    beforeEach(async () => {
+      await writeJson('flags.json', flagFile);
+      store = new FileFeatureGuardStore(join(dir, 'flags.json'), { watchInterval: 10 });
+      await store.load();
+      store.watch();
+    });
+
+    it('should swap in the new flags when the file changes', async () => {
+      await writeJson('flags.json', { flags: { beta_dashboard: { enabled: false } } });
+
+      await waitFor(async () => (await store!.getFeature('new_editor')) === null);
+      expect(await store!.getFeature('beta_dashboard')).toEqual({ enabled: false });
+    });
+
+    it('should keep the last good flags and log when the new file is invalid', async () => {
+      const error = jest.spyOn(Logger.prototype, 'error').mockImplementation();
+
+      await writeFile(join(dir, 'flags.json'), '{ "flags": ');
+
+      await waitFor(async () => error.mock.calls.length > 0);
+      expect(error.mock.calls[0][0]).toContain('Keeping the previous feature flags');
+      expect(await store!.hasFeatureFlag('beta_dashboard', 'user1')).toBe(true);
+
+      await writeJson('flags.json', { flags: {} });
+      await waitFor(async () => (await store!.getFeature('beta_dashboard')) === null);
+    });
+
+    it('should stop reloading once unwatched', async () => {
+      store!.unwatch();
+
+      await writeJson('flags.json', { flags: {} });
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(await store!.hasFeatureFlag('beta_dashboard', 'user1')).toBe(true);
+    });
+  });
+
+  it('should load and watch the file with the module lifecycle', async () => {
+    await writeJson('flags.json', flagFile);
+    store = new FileFeatureGuardStore(join(dir, 'flags.json'), { watch: true, watchInterval: 10 });
+
+    const moduleRef = await Test.createTestingModule({
+      imports: [FeatureGuardModule.forRoot({ store })],
+    }).compile();
+    await moduleRef.init();
+
+    const injected = moduleRef.get<FeatureGuardStore>(FEATURE_GUARD_STORE);
+    expect(await injected.hasFeatureFlag('beta_dashboard', 'user1')).toBe(true);
+
+    await writeJson('flags.json', { flags: { beta_dashboard: { enabled: false } } });
+    await waitFor(async () => !(await injected.hasFeatureFlag('beta_dashboard', 'user1')));
+
+    await moduleRef.close();
+    await writeJson('flags.json', flagFile);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(await injected.hasFeatureFlag('beta_dashboard', 'user1')).toBe(false);
+  });
+
+  it('should load and watch the file when wrapped in a cache', async () => {
+    await writeJson('flags.json', flagFile);
+    store = new FileFeatureGuardStore(join(dir, 'flags.json'), { watch: true, watchInterval: 10 });
+    const unwatch = jest.spyOn(store, 'unwatch');
+
+    const moduleRef = await Test.createTestingModule({
+      imports: [FeatureGuardModule.forRoot({ store: new CachedFeatureGuardStore(store) })],
+    }).compile();
+    await moduleRef.init();
+
+    const injected = moduleRef.get<FeatureGuardStore>(FEATURE_GUARD_STORE);
+    expect(await injected.hasFeatureFlag('beta_dashboard', 'user1')).toBe(true);
+
+    await writeJson('flags.json', { flags: {} });
+    await waitFor(async () => (await store!.getFeature('beta_dashboard')) === null);
+
+    await moduleRef.close();
+    expect(unwatch).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,40 @@
+import { InMemoryFeatureGuardStore } from '../src/in-memory-feature-guard-store';
+import { describeFeatureGuardStoreConformance } from './feature-guard-store.conformance';
+
+describe('InMemoryFeatureGuardStore', () => {
+  let store: InMemoryFeatureGuardStore;
+
+  beforeEach(() => {
+    store = new InMemoryFeatureGuardStore();
+  });
+
+  describeFeatureGuardStoreConformance(({ clock }) => new InMemoryFeatureGuardStore({ clock }));
+
+  it('should keep the state of each instance separate', async () => {
+    await store.setFeatureFlag({ flag: 'beta', enabled: true });
+
+    expect(await new InMemoryFeatureGuardStore().getFeature('beta')).toBeNull();
+  });
+
+  it('should not expose the stored flags to mutation', async () => {
+    const variants = [{ name: 'A', weight: 1, payload: { price: 12 } }];
+    await store.setFeatureFlag({ flag: 'beta', enabled: true, userIds: ['user1'], variants });
+
+    const feature = await store.getFeature('beta');
+    feature!.userIds!.push('user2');
+    feature!.variants![0].weight = 0;
+    (await store.getFeatureVariant('beta', 'user1'))!.payload = { price: 0 };
+
+    expect(await store.hasFeatureFlag('beta', 'user2')).toBe(false);
+    expect(await store.getFeatureVariant('beta', 'user1')).toEqual(variants[0]);
+  });
+
+  it('should not expose the stored segments to mutation', async () => {
+    await store.setSegment({ name: 'partners', userIds: ['user1'] });
+    await store.setFeatureFlag({ flag: 'beta', enabled: true, segments: ['partners'] });
+
+    (await store.getSegment('partners'))!.userIds!.push('user2');
+
+    expect(await store.hasFeatureFlag('beta', 'user2')).toBe(false);
+  });
+});
@@ -1,13 +1,73 @@
+import { CachedFeatureGuardStore } from '../src/cached-feature-guard-store';
 import {
+  DefaultFeatureContextResolver,
+  UserFeatureContextResolver,
+} from '../src/feature-context-resolvers';
+import {
+  getFeatureContextValue,
+  getFeatureFlagsHolder,
+  getFeatureIdentitySources,
+} from '../src/feature-execution-context';
+import { BufferedFeatureExposureListener } from '../src/feature-exposure-listeners';
+import { evaluateFeatureAccess, parseJsonList, validateUserIds } from '../src/feature-flag.access';
+import {
+  DEFAULT_REDIS_KEY_PREFIX,
+  FEATURE_CONTEXT_RESOLVER,
+  FEATURE_EXPOSURE_LISTENER,
+  FEATURE_FLAG_EXPRESSION_KEY,
   FEATURE_FLAG_KEY,
   FEATURE_FLAG_OPTIONS_KEY,
+  FEATURE_GUARD_OPTIONS,
   FEATURE_GUARD_REFLECTOR,
   FEATURE_GUARD_STORE,
+  FeatureFlagDeniedBehavior,
+  FeatureFlagMergeStrategy,
   FeatureFlagScope,
 } from '../src/feature-flag.constants';
+import {
+  FeatureDisabledException,
+  FeatureRedirectException,
+  FeatureUserMissingException,
+} from '../src/feature-flag.exceptions';
+import {
+  evaluateFeatureFlagExpression,
+  FeatureFlagExpressionError,
+  parseFeatureFlagExpression,
+} from '../src/feature-flag.expression';
+import {
+  getRolloutBucket,
+  isInRollout,
+  validateRolloutPercentage,
+} from '../src/feature-flag.rollout';
+import {
+  isWithinSchedule,
+  systemClock,
+  toScheduleTimestamp,
+  validateSchedule,
+} from '../src/feature-flag.schedule';
+import {
+  isInSegment,
+  validateSegment,
+  validateSegmentName,
+  validateSegmentReferences,
+} from '../src/feature-flag.segments';
+import {
+  evaluateTargetingRules,
+  matchesTargetingRule,
+  validateTargetingRules,
+} from '../src/feature-flag.targeting';
+import { selectVariant, validateVariants } from '../src/feature-flag.variants';
 import { FeatureFlag, FeatureGuard } from '../src/feature-guard';
+import { FeatureGuardModule } from '../src/feature-guard.module';
+import { FeatureFlagFileError, FileFeatureGuardStore } from '../src/file-feature-guard-store';
+import { InMemoryFeatureGuardStore } from '../src/in-memory-feature-guard-store';
 import * as index from '../src/index';
-import { RedisFeatureFlagCache } from '../src/redis-feature-flag-cache';
+import {
+  getFeatureFlagChangeChannel,
+  RedisFeatureFlagCache,
+} from '../src/redis-feature-flag-cache';
+import { RedisFeatureFlagChangeSubscriber } from '../src/redis-feature-flag-change-subscriber';
+import { getSqlFeatureGuardMigrations, SqlFeatureGuardStore } from '../src/sql-feature-guard-store';
 
 describe('Index Exports', () => {
   it('should export FeatureGuard class', () => {
@@ -18,10 +78,101 @@ describe('Index Exports', () => {
     expect(index.FeatureFlag).toBe(FeatureFlag);
   });
 
+  it('should export FeatureGuardModule class', () => {
+    expect(index.FeatureGuardModule).toBe(FeatureGuardModule);
+  });
+
+  it('should export feature flag expression helpers', () => {
+    expect(index.parseFeatureFlagExpression).toBe(parseFeatureFlagExpression);
+    expect(index.evaluateFeatureFlagExpression).toBe(evaluateFeatureFlagExpression);
+    expect(index.FeatureFlagExpressionError).toBe(FeatureFlagExpressionError);
+  });
+
+  it('should export denial exceptions', () => {
+    expect(index.FeatureDisabledException).toBe(FeatureDisabledException);
+    expect(index.FeatureUserMissingException).toBe(FeatureUserMissingException);
+    expect(index.FeatureRedirectException).toBe(FeatureRedirectException);
+  });
+
+  it('should export context resolvers', () => {
+    expect(index.DefaultFeatureContextResolver).toBe(DefaultFeatureContextResolver);
+    expect(index.UserFeatureContextResolver).toBe(UserFeatureContextResolver);
+  });
+
+  it('should export execution context helpers', () => {
+    expect(index.getFeatureIdentitySources).toBe(getFeatureIdentitySources);
+    expect(index.getFeatureContextValue).toBe(getFeatureContextValue);
+    expect(index.getFeatureFlagsHolder).toBe(getFeatureFlagsHolder);
+  });
+
+  it('should export access helpers', () => {
+    expect(index.evaluateFeatureAccess).toBe(evaluateFeatureAccess);
+    expect(index.parseJsonList).toBe(parseJsonList);
+    expect(index.validateUserIds).toBe(validateUserIds);
+  });
+
+  it('should export rollout helpers', () => {
+    expect(index.getRolloutBucket).toBe(getRolloutBucket);
+    expect(index.isInRollout).toBe(isInRollout);
+    expect(index.validateRolloutPercentage).toBe(validateRolloutPercentage);
+  });
+
+  it('should export schedule helpers', () => {
+    expect(index.isWithinSchedule).toBe(isWithinSchedule);
+    expect(index.validateSchedule).toBe(validateSchedule);
+    expect(index.toScheduleTimestamp).toBe(toScheduleTimestamp);
+    expect(index.systemClock).toBe(systemClock);
+  });
+
+  it('should export segment helpers', () => {
+    expect(index.isInSegment).toBe(isInSegment);
+    expect(index.validateSegment).toBe(validateSegment);
+    expect(index.validateSegmentName).toBe(validateSegmentName);
+    expect(index.validateSegmentReferences).toBe(validateSegmentReferences);
+  });
+
+  it('should export targeting helpers', () => {
+    expect(index.evaluateTargetingRules).toBe(evaluateTargetingRules);
+    expect(index.matchesTargetingRule).toBe(matchesTargetingRule);
+    expect(index.validateTargetingRules).toBe(validateTargetingRules);
+  });
+
+  it('should export variant helpers', () => {
+    expect(index.selectVariant).toBe(selectVariant);
+    expect(index.validateVariants).toBe(validateVariants);
+  });
+
+  it('should export exposure listeners', () => {
+    expect(index.BufferedFeatureExposureListener).toBe(BufferedFeatureExposureListener);
+  });
+
   it('should export RedisFeatureFlagCache class', () => {
     expect(index.RedisFeatureFlagCache).toBe(RedisFeatureFlagCache);
   });
 
+  it('should export RedisFeatureFlagChangeSubscriber class', () => {
+    expect(index.RedisFeatureFlagChangeSubscriber).toBe(RedisFeatureFlagChangeSubscriber);
+    expect(index.getFeatureFlagChangeChannel).toBe(getFeatureFlagChangeChannel);
+  });
+
+  it('should export CachedFeatureGuardStore class', () => {
+    expect(index.CachedFeatureGuardStore).toBe(CachedFeatureGuardStore);
+  });
+
+  it('should export InMemoryFeatureGuardStore class', () => {
+    expect(index.InMemoryFeatureGuardStore).toBe(InMemoryFeatureGuardStore);
+  });
+
+  it('should export FileFeatureGuardStore class', () => {
+    expect(index.FileFeatureGuardStore).toBe(FileFeatureGuardStore);
+    expect(index.FeatureFlagFileError).toBe(FeatureFlagFileError);
+  });
+
+  it('should export SqlFeatureGuardStore class', () => {
+    expect(index.SqlFeatureGuardStore).toBe(SqlFeatureGuardStore);
+    expect(index.getSqlFeatureGuardMigrations).toBe(getSqlFeatureGuardMigrations);
+  });
+
   it('should have interface exports available at compile time', () => {
     // Interfaces don't exist at runtime, but we can verify they're exported by checking
     // that the module compiles without errors when importing them
@@ -31,8 +182,13 @@ describe('Index Exports', () => {
   it('should export constants', () => {
     expect(index.FEATURE_FLAG_KEY).toBe(FEATURE_FLAG_KEY);
     expect(index.FEATURE_FLAG_OPTIONS_KEY).toBe(FEATURE_FLAG_OPTIONS_KEY);
+    expect(index.FEATURE_FLAG_EXPRESSION_KEY).toBe(FEATURE_FLAG_EXPRESSION_KEY);
     expect(index.FEATURE_GUARD_STORE).toBe(FEATURE_GUARD_STORE);
     expect(index.FEATURE_GUARD_REFLECTOR).toBe(FEATURE_GUARD_REFLECTOR);
+    expect(index.FEATURE_GUARD_OPTIONS).toBe(FEATURE_GUARD_OPTIONS);
+    expect(index.DEFAULT_REDIS_KEY_PREFIX).toBe(DEFAULT_REDIS_KEY_PREFIX);
+    expect(index.FEATURE_CONTEXT_RESOLVER).toBe(FEATURE_CONTEXT_RESOLVER);
+    expect(index.FEATURE_EXPOSURE_LISTENER).toBe(FEATURE_EXPOSURE_LISTENER);
   });
 
   it('should export FeatureFlagScope enum', () => {
@@ -40,4 +196,17 @@ describe('Index Exports', () => {
     expect(index.FeatureFlagScope.CONTROLLER).toBe('CONTROLLER');
     expect(index.FeatureFlagScope.SERVICE).toBe('SERVICE');
   });
+
+  it('should export FeatureFlagMergeStrategy enum', () => {
+    expect(index.FeatureFlagMergeStrategy).toBe(FeatureFlagMergeStrategy);
+    expect(index.FeatureFlagMergeStrategy.MERGE).toBe('MERGE');
+    expect(index.FeatureFlagMergeStrategy.OVERRIDE).toBe('OVERRIDE');
+  });
+
+  it('should export FeatureFlagDeniedBehavior enum', () => {
+    expect(index.FeatureFlagDeniedBehavior).toBe(FeatureFlagDeniedBehavior);
+    expect(index.FeatureFlagDeniedBehavior.FORBIDDEN).toBe('FORBIDDEN');
+    expect(index.FeatureFlagDeniedBehavior.NOT_FOUND).toBe('NOT_FOUND');
+    expect(index.FeatureFlagDeniedBehavior.EXCEPTION).toBe('EXCEPTION');
+  });
 });
@@ -33,6 +33,7 @@ describe('Integration Tests', () => {
     existingFlags: Record<string, boolean> = {},
   ): ExecutionContext =>
     ({
+      getType: jest.fn().mockReturnValue('http'),
       switchToHttp: jest.fn().mockReturnValue({
         getRequest: jest.fn().mockReturnValue({
           __user_id: userId,
@@ -41,6 +42,7 @@ describe('Integration Tests', () => {
         }),
       }),
       getHandler: jest.fn(),
+      getClass: jest.fn(),
     } as unknown as ExecutionContext);
 
   describe('Complete Feature Flag Lifecycle', () => {
@@ -209,53 +211,47 @@ describe('Integration Tests', () => {
       }
 
       // Test premium user access
-      const premiumContext = createMockContext('premium_user1');
-
       // Should have premium features
       reflector.get.mockReturnValue(['premium_features']);
-      expect(await guard.canActivate(premiumContext)).toBe(true);
+      expect(await guard.canActivate(createMockContext('premium_user1'))).toBe(true);
 
       // Should have beta features
       reflector.get.mockReturnValue(['beta_features']);
-      expect(await guard.canActivate(premiumContext)).toBe(true);
+      expect(await guard.canActivate(createMockContext('premium_user1'))).toBe(true);
 
       // Should have admin panel (global)
       reflector.get.mockReturnValue(['admin_panel']);
-      expect(await guard.canActivate(premiumContext)).toBe(true);
+      expect(await guard.canActivate(createMockContext('premium_user1'))).toBe(true);
 
       // Should NOT have experimental
       reflector.get.mockReturnValue(['experimental']);
-      expect(await guard.canActivate(premiumContext)).toBe(false);
+      expect(await guard.canActivate(createMockContext('premium_user1'))).toBe(false);
 
       // Test beta user access
-      const betaContext = createMockContext('beta_user1');
-
       // Should NOT have premium features
       reflector.get.mockReturnValue(['premium_features']);
-      expect(await guard.canActivate(betaContext)).toBe(false);
+      expect(await guard.canActivate(createMockContext('beta_user1'))).toBe(false);
 
       // Should have beta features
       reflector.get.mockReturnValue(['beta_features']);
-      expect(await guard.canActivate(betaContext)).toBe(true);
+      expect(await guard.canActivate(createMockContext('beta_user1'))).toBe(true);
 
       // Should have experimental
       reflector.get.mockReturnValue(['experimental']);
-      expect(await guard.canActivate(betaContext)).toBe(true);
+      expect(await guard.canActivate(createMockContext('beta_user1'))).toBe(true);
 
       // Test regular user access
-      const regularContext = createMockContext('regular_user');
-
       // Should NOT have premium features
       reflector.get.mockReturnValue(['premium_features']);
-      expect(await guard.canActivate(regularContext)).toBe(false);
+      expect(await guard.canActivate(createMockContext('regular_user'))).toBe(false);
 
       // Should NOT have beta features
       reflector.get.mockReturnValue(['beta_features']);
-      expect(await guard.canActivate(regularContext)).toBe(false);
+      expect(await guard.canActivate(createMockContext('regular_user'))).toBe(false);
 
       // Should have admin panel (global)
       reflector.get.mockReturnValue(['admin_panel']);
-      expect(await guard.canActivate(regularContext)).toBe(true);
+      expect(await guard.canActivate(createMockContext('regular_user'))).toBe(true);
     });
   });
 
@@ -286,10 +282,12 @@ describe('Integration Tests', () => {
       };
 
       const context = {
+        getType: jest.fn().mockReturnValue('http'),
         switchToHttp: jest.fn().mockReturnValue({
           getRequest: jest.fn().mockReturnValue(request),
         }),
         getHandler: jest.fn(),
+        getClass: jest.fn(),
       } as unknown as ExecutionContext;
 
       // Test controller scope (should block if no access)
@@ -309,6 +307,8 @@ describe('Integration Tests', () => {
         return undefined;
       });
 
+      // Another handler of the same request
+      (context.getHandler as jest.Mock).mockReturnValue(function process() {});
       const serviceResult = await guard.canActivate(context);
       expect(serviceResult).toBe(true);
       expect(request.__feature_flags[serviceFlag]).toBe(true);
@@ -319,6 +319,7 @@ describe('Integration Tests', () => {
         enabled: false,
       });
 
+      (context.getHandler as jest.Mock).mockReturnValue(function processAgain() {});
       const disabledServiceResult = await guard.canActivate(context);
       expect(disabledServiceResult).toBe(true); // Should still pass
       expect(request.__feature_flags[serviceFlag]).toBe(false); // But flag should be false
@@ -342,10 +343,12 @@ describe('Integration Tests', () => {
       };
 
       const context = {
+        getType: jest.fn().mockReturnValue('http'),
         switchToHttp: jest.fn().mockReturnValue({
           getRequest: jest.fn().mockReturnValue(request),
         }),
         getHandler: jest.fn(),
+        getClass: jest.fn(),
       } as unknown as ExecutionContext;
 
       // Process each flag
@@ -356,6 +359,8 @@ describe('Integration Tests', () => {
           return undefined;
         });
 
+        // Each flag guards another handler of the same request
+        (context.getHandler as jest.Mock).mockReturnValue(function handler() {});
         const result = await guard.canActivate(context);
         expect(result).toBe(true); // Service scope always passes
       }
@@ -25,6 +25,7 @@ describe('Performance Tests', () => {
 
   const createMockContext = (userId: string, isAdmin = false): ExecutionContext =>
     ({
+      getType: jest.fn().mockReturnValue('http'),
       switchToHttp: jest.fn().mockReturnValue({
         getRequest: jest.fn().mockReturnValue({
           __user_id: userId,
@@ -33,6 +34,7 @@ describe('Performance Tests', () => {
         }),
       }),
       getHandler: jest.fn(),
+      getClass: jest.fn(),
     } as unknown as ExecutionContext);
 
   describe('High Volume Operations', () => {
@@ -348,6 +350,59 @@ describe('Performance Tests', () => {
       }
     });
 
+    it('should check access at constant cost for 100k-member user lists', async () => {
+      const checkCount = 20;
+
+      // Record every transaction reply: its size is what a check transfers from Redis
+      const replies: unknown[] = [];
+      const multi = redis.multi.bind(redis);
+      jest.spyOn(redis, 'multi').mockImplementation((...args: any[]) => {
+        const transaction = (multi as any)(...args);
+        const exec = transaction.exec.bind(transaction);
+        transaction.exec = async () => {
+          const reply = await exec();
+          replies.push(reply);
+          return reply;
+        };
+        return transaction;
+      });
+      const smembers = jest.spyOn(redis, 'smembers');
+
+      const measure = async (flag: string, userCount: number) => {
+        await cache.setFeatureFlag({
+          flag,
+          enabled: true,
+          userIds: Array.from({ length: userCount }, (_, i) => `user${i}`),
+        });
+        replies.length = 0;
+
+        const startTime = Date.now();
+        for (let i = 0; i < checkCount; i++) {
+          // Alternate listed users and users missing from the list
+          const userId = i % 2 === 0 ? `user${(i * 499) % userCount}` : `outsider${i}`;
+          expect(await cache.hasFeatureFlag(flag, userId)).toBe(i % 2 === 0);
+        }
+        const duration = Date.now() - startTime;
+
+        return { duration, transactions: replies.length, bytes: JSON.stringify(replies).length };
+      };
+
+      const small = await measure('list_check', 100);
+      const large = await measure('list_check', 100000);
+
+      // One round trip per check, transferring the same data whatever the list size
+      expect(large.transactions).toBe(checkCount);
+      expect(large.transactions).toBe(small.transactions);
+      expect(large.bytes).toBe(small.bytes);
+      expect(smembers).not.toHaveBeenCalled();
+
+      // ioredis-mock copies a whole set on every read, so durations are only logged
+      console.log(
+        `${checkCount} checks: ${small.duration}ms with 100 users, ` +
+          `${large.duration}ms with 100k users`,
+      );
+    });
+
     it('should handle burst traffic patterns', async () => {
       const flag = 'burst_test';
       const users = Array.from({ length: 500 }, (_, i) => `burst_user${i}`);
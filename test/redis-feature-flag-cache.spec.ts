@@ -1,5 +1,7 @@
 import Redis from 'ioredis-mock';
+import { FeatureFlagTargetingRule } from '../src/feature-flag-cache.interface';
 import { RedisFeatureFlagCache } from '../src/redis-feature-flag-cache';
+import { describeFeatureGuardStoreConformance } from './feature-guard-store.conformance';
 
 describe('RedisFeatureFlagCache', () => {
   let redis: InstanceType<typeof Redis>;
@@ -24,6 +26,10 @@ describe('RedisFeatureFlagCache', () => {
     });
   });
 
+  describeFeatureGuardStoreConformance(
+    ({ clock }) => new RedisFeatureFlagCache(redis, undefined, { clock }),
+  );
+
   describe('setFeatureFlag', () => {
     it('should set feature flag as enabled with users', async () => {
       const flag = 'test_feature';
@@ -128,45 +134,6 @@ describe('RedisFeatureFlagCache', () => {
   });
 
   describe('getFeature', () => {
-    it('should return null for non-existent feature', async () => {
-      const result = await cache.getFeature('non_existent');
-      expect(result).toBeNull();
-    });
-
-    it('should return feature info with users', async () => {
-      const flag = 'test_feature';
-      const userIds = ['user1', 'user2'];
-
-      await cache.setFeatureFlag({
-        flag,
-        enabled: true,
-        userIds,
-      });
-
-      const result = await cache.getFeature(flag);
-
-      expect(result).toEqual({
-        enabled: true,
-        userIds,
-      });
-    });
-
-    it('should return feature info without users for global feature', async () => {
-      const flag = 'global_feature';
-
-      await cache.setFeatureFlag({
-        flag,
-        enabled: true,
-      });
-
-      const result = await cache.getFeature(flag);
-
-      expect(result).toEqual({
-        enabled: true,
-        userIds: undefined,
-      });
-    });
-
     it('should return null when feature info exists but enabled field is missing', async () => {
       const flag = 'incomplete_feature';
       const featureInfoKey = `${defaultPrefix}:${flag}:info`;
@@ -201,143 +168,450 @@ describe('RedisFeatureFlagCache', () => {
   });
 
   describe('hasFeatureFlag', () => {
-    it('should return false for non-existent feature', async () => {
-      const result = await cache.hasFeatureFlag('non_existent', 'user1');
+    it('should return false when feature info is incomplete', async () => {
+      const flag = 'incomplete_feature';
+      const featureInfoKey = `${defaultPrefix}:${flag}:info`;
+
+      // Set incomplete info (missing enabled field)
+      await redis.hmset(featureInfoKey, { someOtherField: 'value' });
+
+      const result = await cache.hasFeatureFlag(flag, 'user1');
       expect(result).toBe(false);
     });
 
-    it('should return true for enabled feature with user in list', async () => {
-      const flag = 'test_feature';
-      const userId = 'user1';
+    it('should handle string "false" as disabled', async () => {
+      const flag = 'string_false_feature';
+      const featureInfoKey = `${defaultPrefix}:${flag}:info`;
 
-      await cache.setFeatureFlag({
+      // Manually set enabled as string "false"
+      await redis.hmset(featureInfoKey, { enabled: 'false' });
+
+      const result = await cache.hasFeatureFlag(flag, 'user1');
+      expect(result).toBe(false);
+    });
+
+    it('should handle string "true" as enabled for global feature', async () => {
+      const flag = 'string_true_feature';
+      const featureInfoKey = `${defaultPrefix}:${flag}:info`;
+
+      // Manually set enabled as string "true"
+      await redis.hmset(featureInfoKey, { enabled: 'true' });
+
+      const result = await cache.hasFeatureFlag(flag, 'user1');
+      expect(result).toBe(true);
+    });
+
+    it('should work with custom prefix', async () => {
+      const customCache = new RedisFeatureFlagCache(redis, customPrefix);
+      const flag = 'custom_feature';
+
+      await customCache.setFeatureFlag({
         flag,
         enabled: true,
-        userIds: [userId],
+        userIds: ['user1'],
       });
 
-      const result = await cache.hasFeatureFlag(flag, userId);
+      const result = await customCache.hasFeatureFlag(flag, 'user1');
       expect(result).toBe(true);
+
+      const resultOtherUser = await customCache.hasFeatureFlag(flag, 'user2');
+      expect(resultOtherUser).toBe(false);
     });
+  });
 
-    it('should return false for enabled feature with user not in list', async () => {
-      const flag = 'test_feature';
-      const userId = 'user1';
+  describe('rolloutPercentage', () => {
+    const flag = 'rollout_feature';
 
-      await cache.setFeatureFlag({
-        flag,
-        enabled: true,
-        userIds: ['other_user'],
+    it('should store and report the rollout percentage', async () => {
+      await cache.setFeatureFlag({ flag, enabled: true, rolloutPercentage: 12.5 });
+
+      const info = await redis.hgetall(`${defaultPrefix}:${flag}:info`);
+      expect(info.rolloutPercentage).toBe('12.5');
+      expect(await cache.getFeature(flag)).toEqual({ enabled: true, rolloutPercentage: 12.5 });
+    });
+
+    it('should treat a malformed stored percentage as 0%', async () => {
+      await redis.hmset(`${defaultPrefix}:${flag}:info`, {
+        enabled: 'true',
+        rolloutPercentage: 'abc',
       });
 
-      const users = await redis.smembers('crudmates:feature-guard:test_feature:users');
-      console.log('Enabled, not in list, users:', users);
-      const result = await cache.hasFeatureFlag(flag, userId);
-      expect(result).toBe(false);
+      expect(await cache.hasFeatureFlag(flag, 'user1')).toBe(false);
     });
+  });
 
-    it('should return false for disabled feature with user not in list', async () => {
-      const flag = 'test_feature';
-      const userId = 'user1';
+  describe('schedule', () => {
+    const flag = 'scheduled_feature';
+    const launch = new Date('2025-11-28T00:00:00Z');
+    const end = new Date('2025-12-01T00:00:00Z');
+    let now: number;
 
-      await cache.setFeatureFlag({
-        flag,
-        enabled: false,
-        userIds: ['other_user'],
+    beforeEach(() => {
+      now = launch.getTime() - 1000;
+      cache = new RedisFeatureFlagCache(redis, undefined, { clock: { now: () => now } });
+    });
+
+    it('should accept timestamps and store them as epoch milliseconds', async () => {
+      await cache.setFeatureFlag({ flag, enabled: true, disableAt: end.getTime() });
+
+      const info = await redis.hgetall(`${defaultPrefix}:${flag}:info`);
+      expect(info.disableAt).toBe(String(end.getTime()));
+      expect(await cache.hasFeatureFlag(flag, 'user1')).toBe(true);
+    });
+
+    it('should keep the flag off when a stored bound is malformed', async () => {
+      await redis.hmset(`${defaultPrefix}:${flag}:info`, { enabled: 'true', enableAt: 'soon' });
+
+      now = end.getTime();
+      expect(await cache.hasFeatureFlag(flag, 'user1')).toBe(false);
+    });
+  });
+
+  describe('variants', () => {
+    const flag = 'pricing';
+    const variants = [
+      { name: 'control', weight: 50 },
+      { name: 'B', weight: 50, payload: { price: 12 } },
+    ];
+
+    it('should store and report the variants', async () => {
+      await cache.setFeatureFlag({ flag, enabled: true, variants });
+
+      const info = await redis.hgetall(`${defaultPrefix}:${flag}:info`);
+      expect(JSON.parse(info.variants)).toEqual(variants);
+      expect(await cache.getFeature(flag)).toEqual({ enabled: true, variants });
+    });
+
+    it('should ignore malformed stored variants', async () => {
+      await redis.hmset(`${defaultPrefix}:${flag}:info`, { enabled: 'true', variants: '{oops' });
+
+      expect(await cache.getFeature(flag)).toEqual({ enabled: true });
+      expect(await cache.getFeatureVariant(flag, 'user1')).toBeNull();
+    });
+  });
+
+  describe('rules', () => {
+    const flag = 'instant_payouts';
+    const rules: FeatureFlagTargetingRule[] = [
+      { attribute: 'country', operator: '==', value: 'DE', grant: false },
+      { attribute: 'plan', operator: 'in', value: ['pro', 'enterprise'] },
+      { attribute: 'appVersion', operator: 'semver>=', value: '5.2.0' },
+    ];
+
+    it('should store and report the rules', async () => {
+      await cache.setFeatureFlag({ flag, enabled: true, rules });
+
+      const info = await redis.hgetall(`${defaultPrefix}:${flag}:info`);
+      expect(JSON.parse(info.rules)).toEqual(rules);
+      expect(await cache.getFeature(flag)).toEqual({ enabled: true, rules });
+    });
+
+    it('should deny everyone but listed users when the stored rules are malformed', async () => {
+      await cache.setFeatureFlag({ flag, enabled: true, userIds: ['qa_user'] });
+      await redis.hset(`${defaultPrefix}:${flag}:info`, 'rules', '{oops');
+
+      expect(await cache.getFeature(flag)).toEqual({ enabled: true, userIds: ['qa_user'] });
+      expect(await cache.hasFeatureFlag(flag, 'qa_user')).toBe(true);
+      expect(await cache.hasFeatureFlag(flag, 'user1', { plan: 'pro' })).toBe(false);
+    });
+  });
+
+  describe('segments', () => {
+    const flag = 'new_editor';
+
+    beforeEach(async () => {
+      await cache.setSegment({ name: 'design_partners', userIds: ['partner1', 'partner2'] });
+    });
+
+    it('should reject flag names that would overwrite a segment', async () => {
+      await expect(
+        cache.setFeatureFlag({ flag: 'segment:design_partners', enabled: true }),
+      ).rejects.toThrow('reserved');
+
+      expect(await cache.getSegment('design_partners')).toEqual({
+        name: 'design_partners',
+        userIds: ['partner1', 'partner2'],
       });
+    });
 
-      const users = await redis.smembers('crudmates:feature-guard:test_feature:users');
-      console.log('Disabled, not in list, users:', users);
-      const result = await cache.hasFeatureFlag(flag, userId);
-      expect(result).toBe(false);
+    it('should deny everyone but listed users when the stored segments are malformed', async () => {
+      await cache.setFeatureFlag({ flag, enabled: true });
+      await redis.hset(`${defaultPrefix}:${flag}:info`, 'segments', '{oops');
+
+      expect(await cache.hasFeatureFlag(flag, 'partner1')).toBe(false);
     });
+  });
 
-    it('should return false for disabled feature with user in list', async () => {
-      const flag = 'test_feature';
-      const userId = 'user1';
+  describe('tenantIds', () => {
+    const flag = 'sso_login';
 
-      await cache.setFeatureFlag({
-        flag,
-        enabled: false,
-        userIds: [userId],
+    it('should store the tenants in a separate set', async () => {
+      await cache.setFeatureFlag({ flag, enabled: true, tenantIds: ['acme', 'globex'] });
+
+      const tenants = await redis.smembers(`${defaultPrefix}:${flag}:tenants`);
+      expect(tenants.sort()).toEqual(['acme', 'globex']);
+      expect(await redis.exists(`${defaultPrefix}:${flag}:users`)).toBe(0);
+      expect(await cache.getFeature(flag)).toEqual({
+        enabled: true,
+        userIds: undefined,
+        tenantIds: expect.arrayContaining(['acme', 'globex']),
       });
+    });
 
-      const result = await cache.hasFeatureFlag(flag, userId);
-      expect(result).toBe(false);
+    it('should remove the tenants when the flag is set without them', async () => {
+      await cache.setFeatureFlag({ flag, enabled: true, tenantIds: ['acme'] });
+      await cache.setFeatureFlag({ flag, enabled: true });
+
+      expect(await redis.exists(`${defaultPrefix}:${flag}:tenants`)).toBe(0);
+      expect(await cache.hasFeatureFlag(flag, 'user1', undefined, 'globex')).toBe(true);
     });
+  });
 
-    it('should return true for enabled global feature', async () => {
-      const flag = 'global_feature';
+  describe('exclusions', () => {
+    const flag = 'new_invoicing';
 
+    it('should store the excluded users and tenants in their own sets', async () => {
       await cache.setFeatureFlag({
         flag,
         enabled: true,
+        excludedUserIds: ['user789'],
+        excludedTenantIds: ['initech'],
+        excludedSegments: ['churn_risk'],
       });
 
-      const result = await cache.hasFeatureFlag(flag, 'any_user');
-      expect(result).toBe(true);
+      expect(await redis.smembers(`${defaultPrefix}:${flag}:excluded-users`)).toEqual(['user789']);
+      expect(await redis.smembers(`${defaultPrefix}:${flag}:excluded-tenants`)).toEqual([
+        'initech',
+      ]);
+      expect(await redis.exists(`${defaultPrefix}:${flag}:users`)).toBe(0);
+      expect(await cache.getFeature(flag)).toEqual({
+        enabled: true,
+        userIds: undefined,
+        excludedUserIds: ['user789'],
+        excludedTenantIds: ['initech'],
+        excludedSegments: ['churn_risk'],
+      });
     });
 
-    it('should return false for disabled global feature', async () => {
-      const flag = 'global_feature';
+    it('should deny everyone when the stored excluded segments are malformed', async () => {
+      await cache.setFeatureFlag({ flag, enabled: true, userIds: ['qa_user'] });
+      await redis.hset(`${defaultPrefix}:${flag}:info`, 'excludedSegments', '{oops');
+
+      expect(await cache.hasFeatureFlag(flag, 'qa_user')).toBe(false);
+    });
+  });
 
+  describe('evaluateFlags', () => {
+    beforeEach(async () => {
+      await cache.setFeatureFlag({ flag: 'global', enabled: true });
+      await cache.setFeatureFlag({ flag: 'targeted', enabled: true, userIds: ['user1'] });
+      await cache.setFeatureFlag({ flag: 'tenant', enabled: true, tenantIds: ['acme'] });
       await cache.setFeatureFlag({
-        flag,
-        enabled: false,
+        flag: 'pricing',
+        enabled: true,
+        variants: [{ name: 'A', weight: 1 }],
       });
+    });
 
-      const result = await cache.hasFeatureFlag(flag, 'any_user');
-      expect(result).toBe(false);
+    it('should read every flag in a single transaction', async () => {
+      const multi = jest.spyOn(redis, 'multi');
+
+      await cache.evaluateFlags(['global', 'targeted', 'tenant', 'pricing'], {
+        userId: 'user1',
+        tenantId: 'acme',
+      });
+
+      expect(multi).toHaveBeenCalledTimes(1);
     });
 
-    it('should return false when feature info is incomplete', async () => {
-      const flag = 'incomplete_feature';
-      const featureInfoKey = `${defaultPrefix}:${flag}:info`;
+    it('should return no evaluations without flags', async () => {
+      const multi = jest.spyOn(redis, 'multi');
 
-      // Set incomplete info (missing enabled field)
-      await redis.hmset(featureInfoKey, { someOtherField: 'value' });
+      await expect(cache.evaluateFlags([], { userId: 'user1' })).resolves.toEqual({});
+      expect(multi).not.toHaveBeenCalled();
+    });
+  });
 
-      const result = await cache.hasFeatureFlag(flag, 'user1');
-      expect(result).toBe(false);
+  describe('incremental updates', () => {
+    const flag = 'beta_dashboard';
+    const usersKey = `${defaultPrefix}:${flag}:users`;
+
+    beforeEach(async () => {
+      await cache.setFeatureFlag({ flag, enabled: true, userIds: ['user1', 'user2'] });
     });
 
-    it('should handle string "false" as disabled', async () => {
-      const flag = 'string_false_feature';
-      const featureInfoKey = `${defaultPrefix}:${flag}:info`;
+    it('should add users without replacing the set', async () => {
+      const del = jest.spyOn(redis, 'del');
 
-      // Manually set enabled as string "false"
-      await redis.hmset(featureInfoKey, { enabled: 'false' });
+      await cache.addUsersToFeature(flag, ['user3', 'user1']);
 
-      const result = await cache.hasFeatureFlag(flag, 'user1');
-      expect(result).toBe(false);
+      expect(del).not.toHaveBeenCalled();
+      expect((await redis.smembers(usersKey)).sort()).toEqual(['user1', 'user2', 'user3']);
+      expect(await cache.hasFeatureFlag(flag, 'user3')).toBe(true);
     });
 
-    it('should handle string "true" as enabled for global feature', async () => {
-      const flag = 'string_true_feature';
-      const featureInfoKey = `${defaultPrefix}:${flag}:info`;
+    it('should add large user lists in batches', async () => {
+      const multi = redis.multi.bind(redis);
+      let sadd: jest.SpyInstance | undefined;
+      jest.spyOn(redis, 'multi').mockImplementationOnce((...args: any[]) => {
+        const transaction = (multi as any)(...args);
+        sadd = jest.spyOn(transaction, 'sadd');
+        return transaction;
+      });
+      const userIds = Array.from({ length: 2500 }, (_, i) => `bulk${i}`);
 
-      // Manually set enabled as string "true"
-      await redis.hmset(featureInfoKey, { enabled: 'true' });
+      await cache.addUsersToFeature(flag, userIds);
 
-      const result = await cache.hasFeatureFlag(flag, 'user1');
-      expect(result).toBe(true);
+      expect(sadd).toHaveBeenCalledTimes(3);
+      expect(await redis.scard(usersKey)).toBe(2502);
     });
 
-    it('should work with custom prefix', async () => {
+    it('should reject adding users to a missing flag', async () => {
+      await expect(cache.addUsersToFeature('missing', ['user1'])).rejects.toThrow(
+        'Feature flag "missing" does not exist',
+      );
+      expect(await redis.exists(`${defaultPrefix}:missing:users`)).toBe(0);
+    });
+
+    it('should remove users without replacing the set', async () => {
+      const del = jest.spyOn(redis, 'del');
+
+      await cache.removeUsersFromFeature(flag, ['user1', 'unknown']);
+
+      expect(del).not.toHaveBeenCalled();
+      expect(await redis.smembers(usersKey)).toEqual(['user2']);
+      expect(await cache.hasFeatureFlag(flag, 'user1')).toBe(false);
+      expect(await cache.hasFeatureFlag(flag, 'user2')).toBe(true);
+    });
+
+    it('should apply each update in a single transaction', async () => {
+      const multi = jest.spyOn(redis, 'multi');
+      const commands = [
+        jest.spyOn(redis, 'hset'),
+        jest.spyOn(redis, 'sadd'),
+        jest.spyOn(redis, 'srem'),
+        jest.spyOn(redis, 'publish'),
+      ];
+
+      await cache.addUsersToFeature(flag, ['user3']);
+      await cache.removeUsersFromFeature(flag, ['user1']);
+      await cache.setFeatureEnabled(flag, false);
+
+      expect(multi).toHaveBeenCalledTimes(3);
+      for (const command of commands) {
+        expect(command).not.toHaveBeenCalled();
+      }
+    });
+  });
+
+  describe('change events', () => {
+    it('should publish flag changes on the channel derived from the prefix', async () => {
       const customCache = new RedisFeatureFlagCache(redis, customPrefix);
-      const flag = 'custom_feature';
+      const messages: string[] = [];
+      const subscriber = new Redis();
+      subscriber.on('message', (_channel: string, message: string) => messages.push(message));
+      await subscriber.subscribe(`${customPrefix}:changes`);
+
+      await customCache.setFeatureFlag({ flag: 'beta', enabled: true, userIds: ['user1'] });
+      await customCache.addUsersToFeature('beta', ['user2']);
+      await customCache.removeUsersFromFeature('beta', ['user2']);
+      await customCache.setFeatureEnabled('beta', false);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(messages).toEqual(Array(4).fill(JSON.stringify({ flag: 'beta' })));
+      await subscriber.unsubscribe();
+    });
 
-      await customCache.setFeatureFlag({
-        flag,
-        enabled: true,
-        userIds: ['user1'],
+    it('should publish every change within the write transaction', async () => {
+      const messages: string[] = [];
+      const subscriber = new Redis();
+      subscriber.on('message', (_channel: string, message: string) => messages.push(message));
+      await subscriber.subscribe(`${defaultPrefix}:changes`);
+      const publish = jest.spyOn(redis, 'publish');
+
+      await cache.setFeatureFlag({ flag: 'beta', enabled: true });
+      await cache.addUsersToFeature('beta', ['user1']);
+      await cache.setSegment({ name: 'partners' });
+      await cache.deleteSegment('partners');
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      // Published by MULTI/EXEC rather than a separate PUBLISH
+      expect(publish).not.toHaveBeenCalled();
+      expect(messages).toEqual([
+        JSON.stringify({ flag: 'beta' }),
+        JSON.stringify({ flag: 'beta' }),
+        JSON.stringify({ segment: 'partners' }),
+        JSON.stringify({ segment: 'partners' }),
+      ]);
+      await subscriber.unsubscribe();
+    });
+
+    it('should not publish changes when the write fails', async () => {
+      const publish = jest.spyOn(redis, 'publish');
+      jest.spyOn(redis, 'multi').mockImplementationOnce(() => {
+        throw new Error('Redis MULTI failed');
       });
 
-      const result = await customCache.hasFeatureFlag(flag, 'user1');
-      expect(result).toBe(true);
+      await expect(cache.setFeatureFlag({ flag: 'beta', enabled: true })).rejects.toThrow(
+        'Redis MULTI failed',
+      );
+      await expect(cache.setFeatureEnabled('missing', true)).rejects.toThrow();
+      expect(publish).not.toHaveBeenCalled();
+    });
+  });
 
-      const resultOtherUser = await customCache.hasFeatureFlag(flag, 'user2');
-      expect(resultOtherUser).toBe(false);
+  describe('atomic writes', () => {
+    const flag = 'beta_dashboard';
+    const usersKey = `${defaultPrefix}:${flag}:users`;
+
+    beforeEach(async () => {
+      await cache.setFeatureFlag({ flag, enabled: true, userIds: ['user1', 'user2'] });
+    });
+
+    it('should keep the previous state visible while the new user list is staged', async () => {
+      const sadd = redis.sadd.bind(redis);
+      const seen: boolean[] = [];
+      jest.spyOn(redis, 'sadd').mockImplementation(async (...args: any[]) => {
+        seen.push(await cache.hasFeatureFlag(flag, 'user1'));
+        seen.push(await cache.hasFeatureFlag(flag, 'user3'));
+        return (sadd as any)(...args);
+      });
+
+      await cache.setFeatureFlag({ flag, enabled: true, userIds: ['user3'] });
+
+      expect(seen).toEqual([true, false]);
+      expect(await cache.hasFeatureFlag(flag, 'user1')).toBe(false);
+      expect(await cache.hasFeatureFlag(flag, 'user3')).toBe(true);
+    });
+
+    it('should not leave staging keys behind', async () => {
+      await cache.setFeatureFlag({ flag, enabled: true, userIds: ['user3'], tenantIds: ['acme'] });
+      await cache.setSegment({ name: 'beta', userIds: ['user1'] });
+
+      const keys = await redis.keys('*');
+      expect(keys.filter((key) => key.includes(':staging:'))).toEqual([]);
+      expect(await redis.ttl(usersKey)).toBe(-1);
+    });
+
+    it('should clean up staging keys when the transaction fails', async () => {
+      const multi = jest.spyOn(redis, 'multi').mockImplementationOnce(() => {
+        throw new Error('Redis MULTI failed');
+      });
+
+      await expect(
+        cache.setFeatureFlag({ flag, enabled: false, userIds: ['user3'] }),
+      ).rejects.toThrow('Redis MULTI failed');
+
+      const keys = await redis.keys('*');
+      expect(keys.filter((key) => key.includes(':staging:'))).toEqual([]);
+      expect(await cache.hasFeatureFlag(flag, 'user1')).toBe(true);
+    });
+
+    it('should remove stale info fields when replacing a flag', async () => {
+      await cache.setFeatureFlag({ flag, enabled: true, rolloutPercentage: 50 });
+      await cache.setFeatureFlag({ flag, enabled: true });
+
+      expect(await redis.hgetall(`${defaultPrefix}:${flag}:info`)).toEqual({ enabled: 'true' });
     });
   });
 });
@@ -0,0 +1,103 @@
+import Redis from 'ioredis-mock';
+import { CachedFeatureGuardStore } from '../src/cached-feature-guard-store';
+import { RedisFeatureFlagCache } from '../src/redis-feature-flag-cache';
+import { RedisFeatureFlagChangeSubscriber } from '../src/redis-feature-flag-change-subscriber';
+
+describe('RedisFeatureFlagChangeSubscriber', () => {
+  let redis: InstanceType<typeof Redis>;
+  let subscriberRedis: InstanceType<typeof Redis>;
+  let cache: { invalidate: jest.Mock };
+  let subscriber: RedisFeatureFlagChangeSubscriber;
+
+  // Lets published messages reach the subscriber
+  const waitForMessages = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+  beforeEach(async () => {
+    redis = new Redis();
+    await redis.flushall();
+    subscriberRedis = new Redis();
+    cache = { invalidate: jest.fn() };
+    subscriber = new RedisFeatureFlagChangeSubscriber(subscriberRedis as any, cache);
+    await subscriber.subscribe();
+
+    // Ignore the invalidation of the initial connection
+    await waitForMessages();
+    cache.invalidate.mockClear();
+  });
+
+  afterEach(async () => {
+    await subscriber.unsubscribe();
+  });
+
+  it('should invalidate flags changed by another instance', async () => {
+    const store = new RedisFeatureFlagCache(redis);
+
+    await store.setFeatureFlag({ flag: 'beta', enabled: true });
+    await store.setFeatureEnabled('beta', false);
+    await store.addUsersToFeature('beta', ['user1']);
+    await store.removeUsersFromFeature('beta', ['user1']);
+    await waitForMessages();
+
+    expect(cache.invalidate.mock.calls).toEqual([['beta'], ['beta'], ['beta'], ['beta']]);
+  });
+
+  it('should invalidate every flag when a segment changes', async () => {
+    const store = new RedisFeatureFlagCache(redis);
+
+    await store.setSegment({ name: 'partners', userIds: ['user1'] });
+    await store.deleteSegment('partners');
+    await waitForMessages();
+
+    expect(cache.invalidate.mock.calls).toEqual([[], []]);
+  });
+
+  it('should invalidate every flag on malformed events', async () => {
+    await redis.publish('crudmates:feature-guard:changes', 'not json');
+    await waitForMessages();
+
+    expect(cache.invalidate).toHaveBeenCalledWith();
+  });
+
+  it('should ignore changes of stores with another prefix', async () => {
+    await new RedisFeatureFlagCache(redis, 'other:prefix').setFeatureFlag({
+      flag: 'beta',
+      enabled: true,
+    });
+    await waitForMessages();
+
+    expect(cache.invalidate).not.toHaveBeenCalled();
+  });
+
+  it('should invalidate every flag on reconnect', () => {
+    subscriberRedis.emit('ready');
+
+    expect(cache.invalidate).toHaveBeenCalledWith();
+  });
+
+  it('should stop invalidating once unsubscribed', async () => {
+    await subscriber.unsubscribe();
+
+    await new RedisFeatureFlagCache(redis).setFeatureFlag({ flag: 'beta', enabled: true });
+    subscriberRedis.emit('ready');
+    await waitForMessages();
+
+    expect(cache.invalidate).not.toHaveBeenCalled();
+  });
+
+  it('should evict flags from a CachedFeatureGuardStore on another instance', async () => {
+    const writer = new RedisFeatureFlagCache(redis);
+    const reader = new CachedFeatureGuardStore(new RedisFeatureFlagCache(redis));
+    const readerSubscriber = new RedisFeatureFlagChangeSubscriber(new Redis() as any, reader);
+    await readerSubscriber.subscribe();
+
+    await writer.setFeatureFlag({ flag: 'beta', enabled: true });
+    await waitForMessages();
+    await expect(reader.hasFeatureFlag('beta', 'user1')).resolves.toBe(true);
+
+    await writer.setFeatureEnabled('beta', false);
+    await waitForMessages();
+    await expect(reader.hasFeatureFlag('beta', 'user1')).resolves.toBe(false);
+
+    await readerSubscriber.onApplicationShutdown();
+  });
+});
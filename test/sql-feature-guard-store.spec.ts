@@ -0,0 +1,307 @@
+import { Test } from '@nestjs/testing';
+import initSqlJs, { Database, SqlJsStatic, SqlValue } from 'sql.js';
+import { FeatureGuardModule } from '../src/feature-guard.module';
+import {
+  getSqlFeatureGuardMigrations,
+  SqlFeatureGuardClient,
+  SqlFeatureGuardStore,
+} from '../src/sql-feature-guard-store';
+import { describeFeatureGuardStoreConformance } from './feature-guard-store.conformance';
+
+// Client over an in-memory SQLite database, as an application would write over its driver
+function createSqliteClient(db: Database): SqlFeatureGuardClient {
+  const client: SqlFeatureGuardClient = {
+    async query(sql, parameters) {
+      const statement = db.prepare(sql);
+      try {
+        statement.bind(parameters as SqlValue[]);
+        const rows: Record<string, unknown>[] = [];
+        while (statement.step()) rows.push(statement.getAsObject());
+        return rows;
+      } finally {
+        statement.free();
+      }
+    },
+    async transaction(work) {
+      db.run('BEGIN');
+      try {
+        const result = await work(client);
+        db.run('COMMIT');
+        return result;
+      } catch (error) {
+        db.run('ROLLBACK');
+        throw error;
+      }
+    },
+  };
+  return client;
+}
+
+// Client running one transaction at a time, as the database locks the rows a transaction writes
+function createLockingClient(db: Database): SqlFeatureGuardClient {
+  const client = createSqliteClient(db);
+  let lock: Promise<unknown> = Promise.resolve();
+  return {
+    query: client.query,
+    transaction(work) {
+      const result = lock.then(() => client.transaction(work));
+      lock = result.catch(() => undefined);
+      return result;
+    },
+  };
+}
+
+describe('SqlFeatureGuardStore', () => {
+  let SQL: SqlJsStatic;
+  let db: Database;
+  let client: SqlFeatureGuardClient;
+  let store: SqlFeatureGuardStore;
+
+  const tableNames = () =>
+    db
+      .exec("SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name")[0]
+      .values.map(([name]) => name);
+
+  beforeAll(async () => {
+    SQL = await initSqlJs();
+  });
+
+  beforeEach(async () => {
+    db = new SQL.Database();
+    db.run('PRAGMA foreign_keys = ON');
+    client = createSqliteClient(db);
+    store = new SqlFeatureGuardStore(client, { placeholder: '?' });
+    await store.migrate();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describeFeatureGuardStoreConformance(
+    ({ clock }) => new SqlFeatureGuardStore(client, { placeholder: '?', clock }),
+  );
+
+  describe('migrate', () => {
+    it('should create the tables and record the schema version', () => {
+      expect(tableNames()).toEqual([
+        'feature_flag_excluded_tenants',
+        'feature_flag_excluded_users',
+        'feature_flag_tenants',
+        'feature_flag_users',
+        'feature_flags',
+        'feature_migrations',
+        'feature_segment_users',
+        'feature_segments',
+      ]);
+      expect(db.exec('SELECT version, name FROM feature_migrations')[0].values).toEqual([
+        [1, 'Create the feature flag and segment tables'],
+      ]);
+    });
+
+    it('should skip the applied migrations', async () => {
+      await store.setFeatureFlag({ flag: 'beta', enabled: true, userIds: ['user1'] });
+
+      expect(await store.migrate()).toEqual([]);
+      expect(await store.hasFeatureFlag('beta', 'user1')).toBe(true);
+    });
+
+    it('should apply each migration once when instances migrate concurrently', async () => {
+      const shared = new SQL.Database();
+      const sharedClient = createLockingClient(shared);
+      const versions = getSqlFeatureGuardMigrations().map(({ version }) => version);
+
+      const applied = await Promise.all([
+        new SqlFeatureGuardStore(sharedClient, { placeholder: '?' }).migrate(),
+        new SqlFeatureGuardStore(sharedClient, { placeholder: '?' }).migrate(),
+      ]);
+
+      expect(applied.flat().sort()).toEqual(versions);
+      expect(shared.exec('SELECT version FROM feature_migrations')[0].values.flat()).toEqual(
+        versions,
+      );
+      shared.close();
+    });
+
+    it('should key the user lists by flag and user', () => {
+      const [{ values }] = db.exec("SELECT name, pk FROM pragma_table_info('feature_flag_users')");
+
+      expect(values).toEqual([
+        ['flag', 1],
+        ['user_id', 2],
+      ]);
+    });
+
+    it('should roll back a failed migration', async () => {
+      db.run('CREATE TABLE other_segments (name TEXT)');
+      const other = new SqlFeatureGuardStore(client, { placeholder: '?', tablePrefix: 'other_' });
+
+      await expect(other.migrate()).rejects.toThrow('already exists');
+
+      expect(tableNames()).not.toContain('other_flags');
+      expect(db.exec('SELECT version FROM other_migrations')).toEqual([]);
+    });
+
+    it('should apply pending migrations when the module initializes', async () => {
+      const other = new SqlFeatureGuardStore(client, {
+        placeholder: '?',
+        tablePrefix: 'app_',
+        migrate: true,
+      });
+
+      const moduleRef = await Test.createTestingModule({
+        imports: [FeatureGuardModule.forRoot({ store: other })],
+      }).compile();
+      await moduleRef.init();
+
+      expect(tableNames()).toContain('app_flag_users');
+      await moduleRef.close();
+    });
+  });
+
+  describe('getSqlFeatureGuardMigrations', () => {
+    it('should prefix every table', () => {
+      const [{ statements }] = getSqlFeatureGuardMigrations('billing_');
+
+      expect(statements).toHaveLength(7);
+      statements.forEach((statement) => expect(statement).toMatch(/^CREATE TABLE billing_/));
+      expect(statements.join()).not.toContain(' feature_');
+    });
+
+    it.each(['feature-flags', 'flags; DROP TABLE users; --', '1_'])(
+      'should reject the table prefix %j',
+      (tablePrefix) => {
+        expect(() => getSqlFeatureGuardMigrations(tablePrefix)).toThrow('Invalid table prefix');
+        expect(() => new SqlFeatureGuardStore(client, { tablePrefix })).toThrow(
+          'Invalid table prefix',
+        );
+      },
+    );
+  });
+
+  it('should pass every value as a parameter', async () => {
+    const flag = "it's'; DROP TABLE feature_flags; --";
+
+    await store.setFeatureFlag({ flag, enabled: true, userIds: ["o'brien"] });
+
+    expect(await store.hasFeatureFlag(flag, "o'brien")).toBe(true);
+    expect(await store.hasFeatureFlag(flag, 'user2')).toBe(false);
+    expect(tableNames()).toContain('feature_flags');
+  });
+
+  it('should number the placeholders for PostgreSQL drivers', async () => {
+    const statements: [string, unknown[]][] = [];
+    const recorder: SqlFeatureGuardClient = {
+      query: async (sql, parameters) => {
+        statements.push([sql, parameters]);
+        return [];
+      },
+      transaction: (work) => work(recorder),
+    };
+
+    await new SqlFeatureGuardStore(recorder).hasFeatureFlag('beta', 'user1', undefined, 'acme');
+
+    const [[sql, parameters]] = statements;
+    expect(sql).not.toContain('?');
+    expect(sql).toContain('m.user_id = $1');
+    expect(sql).toContain('IN ($5)');
+    expect(parameters).toEqual(['user1', 'acme', 'user1', 'acme', 'beta']);
+  });
+
+  it('should read rows the way node-postgres returns them', async () => {
+    // Booleans as true/false, BIGINT columns as strings
+    const postgresLike: SqlFeatureGuardClient = {
+      query: async (sql, parameters) =>
+        (await client.query(sql, parameters)).map((row) =>
+          Object.fromEntries(
+            Object.entries(row).map(([column, value]) => [
+              column,
+              /^(enabled|listed_|has_|excluded_(user|tenant)$)/.test(column)
+                ? value === 1
+                : /_at$/.test(column) && value !== null
+                  ? String(value)
+                  : value,
+            ]),
+          ),
+        ),
+      transaction: (work) => client.transaction(() => work(postgresLike)),
+    };
+    const pgStore = new SqlFeatureGuardStore(postgresLike, {
+      placeholder: '?',
+      clock: { now: () => Date.parse('2025-11-29T00:00:00Z') },
+    });
+    await pgStore.setFeatureFlag({
+      flag: 'black_friday',
+      enabled: true,
+      enableAt: new Date('2025-11-28T00:00:00Z'),
+      excludedUserIds: ['user2'],
+    });
+    await pgStore.setFeatureFlag({ flag: 'beta', enabled: false });
+
+    expect(await pgStore.hasFeatureFlag('black_friday', 'user1')).toBe(true);
+    expect(await pgStore.hasFeatureFlag('black_friday', 'user2')).toBe(false);
+    expect(await pgStore.hasFeatureFlag('beta', 'user1')).toBe(false);
+    expect(await pgStore.getFeature('black_friday')).toEqual({
+      enabled: true,
+      userIds: undefined,
+      enableAt: new Date('2025-11-28T00:00:00Z'),
+      excludedUserIds: ['user2'],
+    });
+  });
+
+  it('should write more IDs than fit in one statement', async () => {
+    const userIds = Array.from({ length: 1000 }, (_, index) => `user${index}`);
+
+    await store.setFeatureFlag({ flag: 'beta', enabled: true, userIds });
+    await store.removeUsersFromFeature('beta', userIds.slice(0, 999));
+
+    expect((await store.getFeature('beta'))?.userIds).toEqual(['user999']);
+  });
+
+  it('should leave the previous flag in place when a write fails', async () => {
+    await store.setFeatureFlag({ flag: 'beta', enabled: true, userIds: ['user1'] });
+    const failing: SqlFeatureGuardClient = {
+      query: async (sql, parameters) => {
+        if (sql.startsWith('INSERT INTO feature_flag_tenants')) throw new Error('Disk full');
+        return client.query(sql, parameters);
+      },
+      transaction: (work) => client.transaction(() => work(failing)),
+    };
+
+    await expect(
+      new SqlFeatureGuardStore(failing, { placeholder: '?' }).setFeatureFlag({
+        flag: 'beta',
+        enabled: true,
+        userIds: ['user2'],
+        tenantIds: ['acme'],
+      }),
+    ).rejects.toThrow('Disk full');
+
+    expect(await store.getFeature('beta')).toEqual({ enabled: true, userIds: ['user1'] });
+  });
+
+  describe('malformed stored data', () => {
+    beforeEach(async () => {
+      await store.setFeatureFlag({
+        flag: 'beta',
+        enabled: true,
+        userIds: ['user1'],
+        rules: [{ attribute: 'plan', operator: '==', value: 'pro' }],
+      });
+    });
+
+    it('should only grant the listed users when the rules are corrupted', async () => {
+      db.run("UPDATE feature_flags SET rules = 'not json' WHERE flag = 'beta'");
+
+      expect(await store.hasFeatureFlag('beta', 'user1')).toBe(true);
+      expect(await store.hasFeatureFlag('beta', 'user2', { plan: 'pro' })).toBe(false);
+      expect((await store.getFeature('beta'))?.rules).toBeUndefined();
+    });
+
+    it('should deny everyone when the excluded segments are corrupted', async () => {
+      db.run("UPDATE feature_flags SET excluded_segments = '{' WHERE flag = 'beta'");
+
+      expect(await store.hasFeatureFlag('beta', 'user1')).toBe(false);
+    });
+  });
+});